@@ -30,14 +30,33 @@ if [ ! -f "${DATABASE_PATH}" ]; then
 else
   echo ""
   echo "Database found at ${DATABASE_PATH}"
-  echo "Skipping initialization..."
+  echo "Applying schema updates..."
+
+  # Schema creation is idempotent, this only adds missing tables and indexes
+  npm run db:init
 fi
 
 # Validate required environment variables
 echo ""
 echo "Validating environment variables..."
 
-required_vars="IMAP_HOST IMAP_PORT IMAP_USER IMAP_PASSWORD ANTHROPIC_API_KEY AWS_SES_HOST AWS_SES_PORT AWS_SES_USERNAME AWS_SES_PASSWORD NOTIFICATION_TO_EMAIL NOTIFICATION_FROM_EMAIL"
+required_vars="AWS_SES_HOST AWS_SES_PORT AWS_SES_USERNAME AWS_SES_PASSWORD NOTIFICATION_TO_EMAIL NOTIFICATION_FROM_EMAIL"
+
+# The Claude API key is only required by the claude and hybrid analyzer backends
+case "$(echo "${ANALYZER_BACKEND}" | tr '[:upper:]' '[:lower:]')" in
+  claude|hybrid)
+    required_vars="ANTHROPIC_API_KEY $required_vars"
+    ;;
+esac
+
+# The single IMAP account is only required if IMAP is used without named accounts (IMAP_ACCOUNTS)
+case ",${REPORT_SOURCES:-imap}," in
+  *,imap,*)
+    if [ -z "$IMAP_ACCOUNTS" ]; then
+      required_vars="IMAP_HOST IMAP_PORT IMAP_USER IMAP_PASSWORD $required_vars"
+    fi
+    ;;
+esac
 
 missing_vars=""
 for var in $required_vars; do
@@ -60,8 +79,15 @@ echo ""
 echo "==================================="
 echo "Configuration:"
 echo "==================================="
-echo "IMAP Server: ${IMAP_HOST}:${IMAP_PORT}"
-echo "IMAP User: ${IMAP_USER}"
+echo "Report Sources: ${REPORT_SOURCES:-imap}"
+echo "Analyzer Backend: ${ANALYZER_BACKEND:-claude with API key, otherwise rules}"
+if [ -n "$IMAP_ACCOUNTS" ]; then
+  echo "IMAP Accounts: ${IMAP_ACCOUNTS}"
+else
+  echo "IMAP Server: ${IMAP_HOST}:${IMAP_PORT}"
+  echo "IMAP User: ${IMAP_USER}"
+  echo "IMAP Folders: ${IMAP_FOLDERS:-INBOX} (post action: ${IMAP_POST_ACTION:-delete})"
+fi
 echo "AWS SES SMTP: ${AWS_SES_HOST}:${AWS_SES_PORT}"
 echo "AWS SES Username: ${AWS_SES_USERNAME}"
 echo "Notification To: ${NOTIFICATION_TO_EMAIL}"
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthorizedSender } from '@/lib/db/client';
+import {
+  validateAuthorizedSender,
+  changeAuthorizedSender,
+  removeAuthorizedSender,
+} from '@/lib/services/authorized-senders';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = parseInt(params.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid authorized sender id' },
+        { status: 400 }
+      );
+    }
+
+    const sender = getAuthorizedSender(id);
+
+    if (!sender) {
+      return NextResponse.json(
+        { error: 'Authorized sender not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ authorized_sender: sender });
+  } catch (error) {
+    console.error('Error fetching authorized sender:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch authorized sender' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = parseInt(params.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid authorized sender id' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const validation = validateAuthorizedSender(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid authorized sender', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const result = changeAuthorizedSender(id, validation.data);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Authorized sender not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error updating authorized sender:', error);
+    return NextResponse.json(
+      { error: 'Failed to update authorized sender' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = parseInt(params.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid authorized sender id' },
+        { status: 400 }
+      );
+    }
+
+    const result = removeAuthorizedSender(id);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Authorized sender not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error deleting authorized sender:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete authorized sender' },
+      { status: 500 }
+    );
+  }
+}
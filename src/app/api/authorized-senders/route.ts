@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthorizedSenders } from '@/lib/db/client';
+import { validateAuthorizedSender, createAuthorizedSender } from '@/lib/services/authorized-senders';
+import { getSenderServices } from '@/lib/services/sender-catalog';
+
+export async function GET(request: NextRequest) {
+  try {
+    const domain = request.nextUrl.searchParams.get('domain');
+
+    return NextResponse.json({
+      authorized_senders: getAuthorizedSenders(domain ? domain.toLowerCase() : undefined),
+      // Service ids that can be used as sender_service
+      services: getSenderServices().map((service) => ({ id: service.id, name: service.name })),
+    });
+  } catch (error) {
+    console.error('Error fetching authorized senders:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch authorized senders' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const validation = validateAuthorizedSender(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid authorized sender', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(createAuthorizedSender(validation.data), { status: 201 });
+  } catch (error) {
+    console.error('Error creating authorized sender:', error);
+    return NextResponse.json(
+      { error: 'Failed to create authorized sender' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLatestDnsChecks, getDnsCheckHistory } from '@/lib/db/client';
+import { getMonitoredDomains, runDnsChecks } from '@/lib/services/dns-posture';
+import type { DnsCheck } from '@/lib/db/schema';
+
+function parseCheck(check: DnsCheck) {
+  return {
+    ...check,
+    dkim_keys: JSON.parse(check.dkim_keys),
+    findings: JSON.parse(check.findings),
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const domain = searchParams.get('domain');
+
+    // History of one domain, newest first
+    if (domain) {
+      const limit = parseInt(searchParams.get('limit') || '30');
+      return NextResponse.json({
+        domain: domain.toLowerCase(),
+        checks: getDnsCheckHistory(domain.toLowerCase(), limit).map(parseCheck),
+      });
+    }
+
+    return NextResponse.json({
+      domains: getMonitoredDomains(),
+      checks: getLatestDnsChecks().map(parseCheck),
+    });
+  } catch (error) {
+    console.error('Error fetching DNS checks:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch DNS checks' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (body?.domain !== undefined && (typeof body.domain !== 'string' || !body.domain.trim())) {
+      return NextResponse.json(
+        { error: 'domain must be a domain name' },
+        { status: 400 }
+      );
+    }
+
+    // Check one domain now, or all monitored domains
+    const results = await runDnsChecks(body?.domain ? [body.domain] : undefined);
+
+    return NextResponse.json({ checks: results });
+  } catch (error) {
+    console.error('Error running DNS checks:', error);
+    return NextResponse.json(
+      { error: 'Failed to run DNS checks' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/db/client';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const limit = parseInt(searchParams.get('limit') || '50');
+    const offset = parseInt(searchParams.get('offset') || '0');
+    const domain = searchParams.get('domain');
+    const sourceIp = searchParams.get('source_ip');
+
+    const db = getDatabase();
+
+    let query = `
+      SELECT
+        id, reporter, feedback_type, user_agent, auth_failure, delivery_result,
+        identity_alignment, source_ip, reported_domain, original_mail_from, original_rcpt_to,
+        arrival_date, arrival_timestamp, reporting_mta, dkim_domain, dkim_identity, dkim_selector,
+        authentication_results, original_from, original_subject, original_headers, created_at
+      FROM dmarc_failure_reports
+    `;
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (domain) {
+      conditions.push('reported_domain = ?');
+      params.push(domain);
+    }
+
+    if (sourceIp) {
+      conditions.push('source_ip = ?');
+      params.push(sourceIp);
+    }
+
+    if (conditions.length > 0) {
+      query += ` WHERE ${conditions.join(' AND ')}`;
+    }
+
+    query += ' ORDER BY arrival_timestamp DESC LIMIT ? OFFSET ?';
+    params.push(limit, offset);
+
+    const failureReports = db.prepare(query).all(...params);
+
+    return NextResponse.json({
+      failure_reports: failureReports,
+      limit,
+      offset,
+    });
+  } catch (error) {
+    console.error('Error fetching failure reports:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch failure reports' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/db/client';
+import { getSenderServiceName } from '@/lib/services/sender-catalog';
+
+// Aligned results stored per record; records not evaluated yet (npm run alignment:evaluate)
+// fall back to the receiver's policy_evaluated results
+const DKIM_PASS = "COALESCE(dr.dkim_aligned_pass, dr.dkim = 'pass')";
+const SPF_PASS = "COALESCE(dr.spf_aligned_pass, dr.spf = 'pass')";
+const DMARC_PASS = `COALESCE(dr.dmarc_pass, ${DKIM_PASS} OR ${SPF_PASS})`;
 
 export async function GET(request: NextRequest) {
   try {
@@ -19,18 +26,99 @@ export async function GET(request: NextRequest) {
       SELECT SUM(count) as total
       FROM dmarc_records dr
       JOIN dmarc_reports r ON dr.report_id = r.id
-      WHERE r.date_begin >= ?
+      WHERE r.date_begin >= ? AND r.import_status = 'complete'
     `).get(startTimestamp) as { total: number | null };
 
-    // Compliance rate
+    // Compliance rate: DMARC passes if either aligned mechanism passes
     const compliance = db.prepare(`
       SELECT
-        SUM(CASE WHEN dkim = 'pass' AND spf = 'pass' THEN count ELSE 0 END) as passed,
+        SUM(CASE WHEN ${DMARC_PASS} THEN count ELSE 0 END) as passed,
+        SUM(CASE WHEN ${DKIM_PASS} THEN count ELSE 0 END) as dkim_aligned,
+        SUM(CASE WHEN ${SPF_PASS} THEN count ELSE 0 END) as spf_aligned,
         SUM(count) as total
       FROM dmarc_records dr
       JOIN dmarc_reports r ON dr.report_id = r.id
-      WHERE r.date_begin >= ?
-    `).get(startTimestamp) as { passed: number; total: number };
+      WHERE r.date_begin >= ? AND r.import_status = 'complete'
+    `).get(startTimestamp) as { passed: number; dkim_aligned: number; spf_aligned: number; total: number };
+
+    // Traffic where the receiver overrode the published policy
+    const overridden = db.prepare(`
+      SELECT SUM(count) as total
+      FROM dmarc_records dr
+      JOIN dmarc_reports r ON dr.report_id = r.id
+      WHERE r.date_begin >= ? AND r.import_status = 'complete'
+        AND EXISTS (SELECT 1 FROM dmarc_policy_reasons pr WHERE pr.record_id = dr.id)
+    `).get(startTimestamp) as { total: number | null };
+
+    const overrideReasons = db.prepare(`
+      SELECT pr.type, SUM(dr.count) as total
+      FROM dmarc_policy_reasons pr
+      JOIN dmarc_records dr ON pr.record_id = dr.id
+      JOIN dmarc_reports r ON dr.report_id = r.id
+      WHERE r.date_begin >= ? AND r.import_status = 'complete'
+      GROUP BY pr.type
+      ORDER BY total DESC
+    `).all(startTimestamp) as Array<{ type: string; total: number }>;
+
+    // Pass/fail per sending service (null: not recognized, e.g. our own servers)
+    const senderServices = db.prepare(`
+      SELECT
+        dr.sender_service,
+        SUM(count) as total,
+        SUM(CASE WHEN ${DMARC_PASS} THEN count ELSE 0 END) as passed,
+        SUM(CASE WHEN ${DKIM_PASS} THEN 0 ELSE count END) as dkim_failed,
+        SUM(CASE WHEN ${SPF_PASS} THEN 0 ELSE count END) as spf_failed
+      FROM dmarc_records dr
+      JOIN dmarc_reports r ON dr.report_id = r.id
+      WHERE r.date_begin >= ? AND r.import_status = 'complete'
+      GROUP BY dr.sender_service
+      ORDER BY total DESC
+    `).all(startTimestamp) as Array<{
+      sender_service: string | null;
+      total: number;
+      passed: number;
+      dkim_failed: number;
+      spf_failed: number;
+    }>;
+
+    // Traffic by authorization against the authorized senders registry (null: domain has no entries)
+    const authorization = db.prepare(`
+      SELECT
+        dr.authorization,
+        SUM(count) as total,
+        SUM(CASE WHEN ${DMARC_PASS} THEN count ELSE 0 END) as dmarc_pass
+      FROM dmarc_records dr
+      JOIN dmarc_reports r ON dr.report_id = r.id
+      WHERE r.date_begin >= ? AND r.import_status = 'complete'
+      GROUP BY dr.authorization
+    `).all(startTimestamp) as Array<{ authorization: string | null; total: number; dmarc_pass: number }>;
+
+    const unknownTraffic = authorization.find(a => a.authorization === 'unknown');
+
+    // Sources that are not in the registry of their domain, passing ones included
+    const unknownSources = db.prepare(`
+      SELECT
+        dr.source_ip,
+        SUM(count) as total,
+        SUM(CASE WHEN ${DMARC_PASS} THEN count ELSE 0 END) as dmarc_pass,
+        MAX(dr.header_from) as header_from,
+        MAX(dr.sender_service) as sender_service,
+        ii.ptr
+      FROM dmarc_records dr
+      JOIN dmarc_reports r ON dr.report_id = r.id
+      LEFT JOIN ip_intel ii ON ii.ip = dr.source_ip
+      WHERE r.date_begin >= ? AND r.import_status = 'complete' AND dr.authorization = 'unknown'
+      GROUP BY dr.source_ip
+      ORDER BY total DESC
+      LIMIT 10
+    `).all(startTimestamp) as Array<{
+      source_ip: string;
+      total: number;
+      dmarc_pass: number;
+      header_from: string;
+      sender_service: string | null;
+      ptr: string | null;
+    }>;
 
     // Threat distribution
     const threats = db.prepare(`
@@ -42,14 +130,37 @@ export async function GET(request: NextRequest) {
 
     // Top threat sources
     const topSources = db.prepare(`
-      SELECT source_ip, SUM(count) as total, country
+      SELECT source_ip, SUM(count) as total, MAX(country) as country, MAX(city) as city,
+        ii.asn, ii.as_org, ii.ptr, ii.ptr_confirmed
       FROM dmarc_records dr
       JOIN dmarc_reports r ON dr.report_id = r.id
-      WHERE r.date_begin >= ? AND (dkim = 'fail' OR spf = 'fail')
+      LEFT JOIN ip_intel ii ON ii.ip = dr.source_ip
+      WHERE r.date_begin >= ? AND r.import_status = 'complete' AND NOT ${DMARC_PASS}
       GROUP BY source_ip
       ORDER BY total DESC
       LIMIT 10
-    `).all(startTimestamp) as Array<{ source_ip: string; total: number; country: string | null }>;
+    `).all(startTimestamp) as Array<{
+      source_ip: string;
+      total: number;
+      country: string | null;
+      city: string | null;
+      asn: number | null;
+      as_org: string | null;
+      ptr: string | null;
+      ptr_confirmed: number | null;
+    }>;
+
+    // Top threat sources aggregated by network (ASN); IPs without ASN data form one group
+    const topNetworks = db.prepare(`
+      SELECT ii.asn, MAX(ii.as_org) as as_org, SUM(count) as total, COUNT(DISTINCT dr.source_ip) as ip_count
+      FROM dmarc_records dr
+      JOIN dmarc_reports r ON dr.report_id = r.id
+      LEFT JOIN ip_intel ii ON ii.ip = dr.source_ip
+      WHERE r.date_begin >= ? AND r.import_status = 'complete' AND NOT ${DMARC_PASS}
+      GROUP BY ii.asn
+      ORDER BY total DESC
+      LIMIT 10
+    `).all(startTimestamp) as Array<{ asn: number | null; as_org: string | null; total: number; ip_count: number }>;
 
     // Recent critical alerts
     const criticalAlerts = db.prepare(`
@@ -65,7 +176,7 @@ export async function GET(request: NextRequest) {
     const totalReports = db.prepare(`
       SELECT COUNT(*) as count
       FROM dmarc_reports
-      WHERE date_begin >= ?
+      WHERE date_begin >= ? AND import_status = 'complete'
     `).get(startTimestamp) as { count: number };
 
     const complianceRate = compliance.total > 0
@@ -76,13 +187,40 @@ export async function GET(request: NextRequest) {
       total_messages: totalMessages.total || 0,
       total_reports: totalReports.count || 0,
       compliance_rate: parseFloat(complianceRate),
+      // Messages with an aligned, passing DKIM signature / SPF check
+      alignment: {
+        dkim_pass: compliance.dkim_aligned || 0,
+        spf_pass: compliance.spf_aligned || 0,
+      },
       threats: {
         low: threats.find(t => t.threat_level === 'LOW')?.count || 0,
         medium: threats.find(t => t.threat_level === 'MEDIUM')?.count || 0,
         high: threats.find(t => t.threat_level === 'HIGH')?.count || 0,
         critical: threats.find(t => t.threat_level === 'CRITICAL')?.count || 0,
       },
-      top_threat_sources: topSources,
+      overridden: {
+        total: overridden.total || 0,
+        by_reason: overrideReasons,
+      },
+      top_threat_sources: topSources.map(s => ({ ...s, ptr_confirmed: s.ptr_confirmed === 1 })),
+      top_threat_networks: topNetworks,
+      sender_authorization: {
+        authorized: authorization.find(a => a.authorization === 'authorized')?.total || 0,
+        unknown: unknownTraffic?.total || 0,
+        unregistered: authorization.find(a => a.authorization === null)?.total || 0,
+        unknown_dmarc_pass: unknownTraffic?.dmarc_pass || 0,
+        unknown_dmarc_fail: unknownTraffic ? unknownTraffic.total - unknownTraffic.dmarc_pass : 0,
+      },
+      unknown_sources: unknownSources.map(s => ({
+        ...s,
+        dmarc_fail: s.total - s.dmarc_pass,
+        sender_service_name: getSenderServiceName(s.sender_service),
+      })),
+      sender_services: senderServices.map(s => ({
+        ...s,
+        name: getSenderServiceName(s.sender_service),
+        failed: s.total - s.passed,
+      })),
       critical_alerts: criticalAlerts.map(a => ({
         ...a,
         threats_detected: JSON.parse(a.threats_detected),
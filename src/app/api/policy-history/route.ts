@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLatestPolicyObservations, getPolicyEvents } from '@/lib/db/client';
+import { getPolicyTimeline } from '@/lib/services/policy-history';
+import type { PolicyEvent } from '@/lib/db/schema';
+
+function parseEvent(event: PolicyEvent) {
+  return {
+    ...event,
+    reporters: JSON.parse(event.reporters),
+    notify: event.notify === 1,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const domain = searchParams.get('domain');
+    const limit = parseInt(searchParams.get('limit') || '50');
+
+    // Timeline and events of one domain
+    if (domain) {
+      return NextResponse.json({
+        domain: domain.toLowerCase(),
+        timeline: getPolicyTimeline(domain),
+        events: getPolicyEvents(domain.toLowerCase(), limit).map(parseEvent),
+      });
+    }
+
+    // Current policy of every domain and the latest events
+    return NextResponse.json({
+      domains: getLatestPolicyObservations().map((observation) => ({
+        domain: observation.domain,
+        policy_key: observation.policy_key,
+        reporter: observation.reporter,
+        observed_at: observation.observed_begin,
+      })),
+      events: getPolicyEvents(undefined, limit).map(parseEvent),
+    });
+  } catch (error) {
+    console.error('Error fetching policy history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch policy history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resubmitRejectedReport } from '@/lib/services/report-quarantine';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = parseInt(params.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid rejected report id' },
+        { status: 400 }
+      );
+    }
+
+    const result = await resubmitRejectedReport(id);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Rejected report not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(result, { status: result.status === 'rejected' ? 422 : 200 });
+  } catch (error) {
+    console.error('Error resubmitting rejected report:', error);
+    return NextResponse.json(
+      { error: 'Failed to resubmit rejected report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRejectedReport } from '@/lib/db/client';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = parseInt(params.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid rejected report id' },
+        { status: 400 }
+      );
+    }
+
+    const rejected = getRejectedReport(id);
+
+    if (!rejected) {
+      return NextResponse.json(
+        { error: 'Rejected report not found' },
+        { status: 404 }
+      );
+    }
+
+    const { raw_payload_gz, ...rejectedFields } = rejected;
+
+    return NextResponse.json({
+      rejected_report: {
+        ...rejectedFields,
+        errors: JSON.parse(rejected.errors),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching rejected report:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch rejected report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/db/client';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const limit = parseInt(searchParams.get('limit') || '50');
+    const offset = parseInt(searchParams.get('offset') || '0');
+    const status = searchParams.get('status') || 'quarantined';
+
+    const db = getDatabase();
+
+    const rejectedReports = db.prepare(`
+      SELECT
+        id, kind, reason, errors, org_name, report_id, domain, source_account,
+        status, accepted_report_id, created_at, updated_at
+      FROM rejected_reports
+      WHERE status = ?
+      ORDER BY created_at DESC
+      LIMIT ? OFFSET ?
+    `).all(status, limit, offset) as Array<{ errors: string }>;
+
+    return NextResponse.json({
+      rejected_reports: rejectedReports.map((r) => ({
+        ...r,
+        errors: JSON.parse(r.errors),
+      })),
+      limit,
+      offset,
+    });
+  } catch (error) {
+    console.error('Error fetching rejected reports:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch rejected reports' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getDmarcReport,
+  getDmarcRecordsWithDetails,
+  getAiAnalysisByReportId,
+} from '@/lib/db/client';
+import { getSenderServiceName } from '@/lib/services/sender-catalog';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = parseInt(params.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid report id' },
+        { status: 400 }
+      );
+    }
+
+    const report = getDmarcReport(id);
+
+    if (!report) {
+      return NextResponse.json(
+        { error: 'Report not found' },
+        { status: 404 }
+      );
+    }
+
+    const records = getDmarcRecordsWithDetails(id);
+    const analysis = getAiAnalysisByReportId(id);
+
+    const { raw_xml, raw_xml_gz, ...reportFields } = report;
+
+    return NextResponse.json({
+      report: {
+        ...reportFields,
+        policy_published: JSON.parse(report.policy_published),
+      },
+      records: records.map((record) => ({
+        ...record,
+        sender_service_name: getSenderServiceName(record.sender_service),
+      })),
+      analysis: analysis
+        ? {
+            ...analysis,
+            threats_detected: JSON.parse(analysis.threats_detected),
+            recommendations: JSON.parse(analysis.recommendations),
+            trends: JSON.parse(analysis.trends),
+          }
+        : null,
+    });
+  } catch (error) {
+    console.error('Error fetching report:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch report' },
+      { status: 500 }
+    );
+  }
+}
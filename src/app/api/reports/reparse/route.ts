@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reparseReports, parseTimestamp } from '@/lib/services/report-reparser';
+import type { DmarcReportFilter } from '@/lib/db/schema';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { error: 'Expected a JSON body' },
+        { status: 400 }
+      );
+    }
+
+    const filter: DmarcReportFilter = {};
+
+    if (body.ids !== undefined) {
+      if (
+        !Array.isArray(body.ids) ||
+        body.ids.length === 0 ||
+        !body.ids.every((id: unknown) => Number.isInteger(id))
+      ) {
+        return NextResponse.json(
+          { error: 'ids must be a non-empty array of report ids' },
+          { status: 400 }
+        );
+      }
+      filter.ids = body.ids;
+    }
+
+    if (typeof body.domain === 'string' && body.domain) {
+      filter.domain = body.domain;
+    }
+
+    for (const key of ['from', 'to'] as const) {
+      if (body[key] !== undefined) {
+        const timestamp = parseTimestamp(body[key]);
+        if (timestamp === null) {
+          return NextResponse.json(
+            { error: `Invalid ${key} date` },
+            { status: 400 }
+          );
+        }
+        filter[key] = timestamp;
+      }
+    }
+
+    if (Object.keys(filter).length === 0 && body.all !== true) {
+      return NextResponse.json(
+        { error: 'Select reports with ids, domain or from/to, or set all: true' },
+        { status: 400 }
+      );
+    }
+
+    const summary = reparseReports(filter, {
+      dryRun: body.dry_run === true,
+      reanalyze: body.reanalyze === true,
+    });
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Error re-parsing reports:', error);
+    return NextResponse.json(
+      { error: 'Failed to re-parse reports' },
+      { status: 500 }
+    );
+  }
+}
@@ -19,12 +19,13 @@ export async function GET(request: NextRequest) {
       FROM dmarc_reports r
       LEFT JOIN dmarc_records dr ON dr.report_id = r.id
       LEFT JOIN ai_analysis a ON a.report_id = r.id
+      WHERE r.import_status = 'complete'
     `;
 
     const params: any[] = [];
 
     if (domain) {
-      query += ' WHERE r.domain = ?';
+      query += ' AND r.domain = ?';
       params.push(domain);
     }
 
@@ -39,7 +40,7 @@ export async function GET(request: NextRequest) {
     const reports = db.prepare(query).all(...params);
 
     return NextResponse.json({
-      reports: reports.map((r: any) => ({
+      reports: reports.map(({ raw_xml_gz, ...r }: any) => ({
         ...r,
         policy_published: JSON.parse(r.policy_published),
       })),
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { insertProcessingLog } from '@/lib/db/client';
+import { processFile } from '@/lib/services/report-ingest';
+import type { IngestResult } from '@/lib/types/ingest';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_FILES = 20;
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const files = formData.getAll('files').filter((f): f is File => typeof f !== 'string');
+
+    if (files.length === 0) {
+      return NextResponse.json(
+        { error: 'No files uploaded. Use multipart field "files".' },
+        { status: 400 }
+      );
+    }
+
+    if (files.length > MAX_FILES) {
+      return NextResponse.json(
+        { error: `Too many files (max ${MAX_FILES})` },
+        { status: 400 }
+      );
+    }
+
+    const results: Array<{ file: string; results: IngestResult[] }> = [];
+
+    for (const file of files) {
+      let fileResults: IngestResult[];
+
+      if (file.size > MAX_FILE_SIZE) {
+        const error = `File exceeds maximum size of ${MAX_FILE_SIZE / 1024 / 1024}MB`;
+        fileResults = [{ name: file.name, kind: null, status: 'invalid', report_id: null, error }];
+
+        insertProcessingLog({
+          email_uid: file.name,
+          source: 'upload',
+          subject: file.name,
+          from_address: 'upload',
+          attachment_count: 1,
+          report_name: file.name,
+          status: 'FAILED',
+          error_message: error,
+        });
+      } else {
+        const content = Buffer.from(await file.arrayBuffer());
+        fileResults = await processFile(content, file.name, 'upload', file.type || undefined);
+      }
+
+      results.push({ file: file.name, results: fileResults });
+    }
+
+    const all = results.flatMap((r) => r.results);
+
+    return NextResponse.json({
+      files: results,
+      summary: {
+        inserted: all.filter((r) => r.status === 'inserted').length,
+        duplicate: all.filter((r) => r.status === 'duplicate').length,
+        invalid: all.filter((r) => r.status === 'invalid').length,
+      },
+    });
+  } catch (error) {
+    console.error('Error uploading reports:', error);
+    return NextResponse.json(
+      { error: 'Failed to process upload' },
+      { status: 500 }
+    );
+  }
+}
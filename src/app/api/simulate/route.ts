@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateSimulationInput, simulatePolicy } from '@/lib/services/policy-simulator';
+
+const SIMULATION_PARAMS = ['domain', 'from', 'to', 'p', 'sp', 'pct', 'adkim', 'aspf'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    // Empty parameters fall back to the defaults
+    const query: Record<string, string> = {};
+    for (const name of SIMULATION_PARAMS) {
+      const value = searchParams.get(name);
+      if (value) {
+        query[name] = value;
+      }
+    }
+
+    const validation = validateSimulationInput(query);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid simulation request', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(simulatePolicy(validation.data));
+  } catch (error) {
+    console.error('Error simulating policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to simulate policy' },
+      { status: 500 }
+    );
+  }
+}
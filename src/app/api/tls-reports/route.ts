@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/db/client';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const period = searchParams.get('period') || '30d';
+    const limit = parseInt(searchParams.get('limit') || '20');
+    const domain = searchParams.get('domain');
+
+    const db = getDatabase();
+
+    // Calculate date range
+    const daysBack = period === '7d' ? 7 : period === '30d' ? 30 : 90;
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - daysBack);
+    const startTimestamp = Math.floor(startDate.getTime() / 1000);
+
+    const domainFilter = domain ? ' AND p.policy_domain = ?' : '';
+    const params: any[] = domain ? [startTimestamp, domain] : [startTimestamp];
+
+    // Session totals per policy domain and policy type
+    const summary = db.prepare(`
+      SELECT
+        p.policy_domain,
+        p.policy_type,
+        SUM(p.successful_session_count) as successful_sessions,
+        SUM(p.failure_session_count) as failed_sessions,
+        COUNT(DISTINCT t.id) as report_count
+      FROM tls_report_policies p
+      JOIN tls_reports t ON p.tls_report_id = t.id
+      WHERE t.date_begin >= ?${domainFilter}
+      GROUP BY p.policy_domain, p.policy_type
+      ORDER BY failed_sessions DESC
+    `).all(...params);
+
+    // Failure details per receiving MX
+    const failuresByMx = db.prepare(`
+      SELECT
+        p.policy_domain,
+        f.receiving_mx_hostname,
+        f.result_type,
+        SUM(f.failed_session_count) as failed_sessions
+      FROM tls_report_failures f
+      JOIN tls_report_policies p ON f.policy_id = p.id
+      JOIN tls_reports t ON p.tls_report_id = t.id
+      WHERE t.date_begin >= ?${domainFilter}
+      GROUP BY p.policy_domain, f.receiving_mx_hostname, f.result_type
+      ORDER BY failed_sessions DESC
+      LIMIT 20
+    `).all(...params);
+
+    // Most recent reports
+    const reports = db.prepare(`
+      SELECT
+        t.id,
+        t.report_id,
+        t.org_name,
+        t.contact_info,
+        t.date_begin,
+        t.date_end,
+        t.created_at,
+        SUM(p.successful_session_count) as successful_sessions,
+        SUM(p.failure_session_count) as failed_sessions
+      FROM tls_reports t
+      LEFT JOIN tls_report_policies p ON p.tls_report_id = t.id
+      WHERE t.date_begin >= ?${domainFilter}
+      GROUP BY t.id
+      ORDER BY t.date_begin DESC
+      LIMIT ?
+    `).all(...params, limit);
+
+    return NextResponse.json({
+      summary,
+      failures_by_mx: failuresByMx,
+      reports,
+    });
+  } catch (error) {
+    console.error('Error fetching TLS reports:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch TLS reports' },
+      { status: 500 }
+    );
+  }
+}
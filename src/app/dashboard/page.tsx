@@ -5,21 +5,78 @@ import { KPICard } from '@/components/dashboard/KPICard';
 import { ThreatAlerts } from '@/components/dashboard/ThreatAlerts';
 import { RecommendationsList } from '@/components/dashboard/RecommendationsList';
 import { ThreatDistribution } from '@/components/dashboard/ThreatDistribution';
+import { RecentReports } from '@/components/dashboard/RecentReports';
+import { PolicyOverrides } from '@/components/dashboard/PolicyOverrides';
+import { FailureReportsList } from '@/components/dashboard/FailureReportsList';
+import { TlsReportsPanel } from '@/components/dashboard/TlsReportsPanel';
+import { ReportUpload } from '@/components/dashboard/ReportUpload';
+import { TopThreatSources } from '@/components/dashboard/TopThreatSources';
+import { SenderServices } from '@/components/dashboard/SenderServices';
+import { UnknownSenders } from '@/components/dashboard/UnknownSenders';
+import { DnsPosturePanel } from '@/components/dashboard/DnsPosturePanel';
+import { PolicyHistoryPanel } from '@/components/dashboard/PolicyHistoryPanel';
 
 interface KPIData {
   total_messages: number;
   total_reports: number;
   compliance_rate: number;
+  alignment: {
+    dkim_pass: number;
+    spf_pass: number;
+  };
   threats: {
     low: number;
     medium: number;
     high: number;
     critical: number;
   };
+  overridden: {
+    total: number;
+    by_reason: Array<{
+      type: string;
+      total: number;
+    }>;
+  };
   top_threat_sources: Array<{
     source_ip: string;
     total: number;
     country: string | null;
+    city: string | null;
+    asn: number | null;
+    as_org: string | null;
+    ptr: string | null;
+    ptr_confirmed: boolean;
+  }>;
+  top_threat_networks: Array<{
+    asn: number | null;
+    as_org: string | null;
+    total: number;
+    ip_count: number;
+  }>;
+  sender_authorization: {
+    authorized: number;
+    unknown: number;
+    unregistered: number;
+    unknown_dmarc_pass: number;
+    unknown_dmarc_fail: number;
+  };
+  unknown_sources: Array<{
+    source_ip: string;
+    total: number;
+    dmarc_pass: number;
+    dmarc_fail: number;
+    header_from: string;
+    sender_service_name: string | null;
+    ptr: string | null;
+  }>;
+  sender_services: Array<{
+    sender_service: string | null;
+    name: string | null;
+    total: number;
+    passed: number;
+    failed: number;
+    dkim_failed: number;
+    spf_failed: number;
   }>;
   critical_alerts: Array<any>;
 }
@@ -29,6 +86,11 @@ export default function DashboardPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [period, setPeriod] = useState('30d');
+  const [recentReports, setRecentReports] = useState<Array<any>>([]);
+  const [failureReports, setFailureReports] = useState<Array<any>>([]);
+  const [tlsData, setTlsData] = useState<{ summary: Array<any>; failures_by_mx: Array<any> } | null>(null);
+  const [dnsPosture, setDnsPosture] = useState<{ domains: string[]; checks: Array<any> } | null>(null);
+  const [policyHistory, setPolicyHistory] = useState<{ domains: Array<any>; events: Array<any> } | null>(null);
 
   useEffect(() => {
     async function fetchKPIs() {
@@ -46,9 +108,69 @@ export default function DashboardPage() {
       }
     }
 
+    async function fetchTlsReports() {
+      try {
+        const response = await fetch(`/api/tls-reports?period=${period}`);
+        if (!response.ok) return;
+        setTlsData(await response.json());
+      } catch (err) {
+        // TLS reports are optional, the KPI error state covers failures
+      }
+    }
+
     fetchKPIs();
+    fetchTlsReports();
   }, [period]);
 
+  async function fetchRecentReports() {
+    try {
+      const response = await fetch('/api/reports?limit=10');
+      if (!response.ok) return;
+      const data = await response.json();
+      setRecentReports(data.reports);
+    } catch (err) {
+      // Recent reports are optional, the KPI error state covers failures
+    }
+  }
+
+  async function fetchDnsPosture() {
+    try {
+      const response = await fetch('/api/dns-posture');
+      if (!response.ok) return;
+      setDnsPosture(await response.json());
+    } catch (err) {
+      // DNS checks are optional, the KPI error state covers failures
+    }
+  }
+
+  async function fetchPolicyHistory() {
+    try {
+      const response = await fetch('/api/policy-history?limit=10');
+      if (!response.ok) return;
+      setPolicyHistory(await response.json());
+    } catch (err) {
+      // Policy history is optional, the KPI error state covers failures
+    }
+  }
+
+  useEffect(() => {
+    async function fetchFailureReports() {
+      try {
+        const response = await fetch('/api/failure-reports?limit=10');
+        if (!response.ok) return;
+        const data = await response.json();
+        setFailureReports(data.failure_reports);
+      } catch (err) {
+        // Failure reports are optional, the KPI error state covers failures
+      }
+    }
+
+    fetchRecentReports();
+    fetchFailureReports();
+    fetchDnsPosture();
+    fetchPolicyHistory();
+  }, []);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 p-8">
@@ -127,7 +249,9 @@ export default function DashboardPage() {
             title="Compliance-Rate"
             value={`${kpiData.compliance_rate.toFixed(1)}%`}
             variant={complianceVariant}
-            subtitle="DKIM & SPF Pass"
+            subtitle={kpiData.total_messages > 0
+              ? `DKIM ${((kpiData.alignment.dkim_pass / kpiData.total_messages) * 100).toFixed(0)}% · SPF ${((kpiData.alignment.spf_pass / kpiData.total_messages) * 100).toFixed(0)}% aligned`
+              : 'DKIM oder SPF aligned'}
           />
           <KPICard
             title="Bedrohungen"
@@ -162,45 +286,71 @@ export default function DashboardPage() {
           </div>
         )}
 
+        {/* Recent Reports, Upload & Policy Overrides */}
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+          <div className="lg:col-span-2">
+            <RecentReports reports={recentReports} />
+          </div>
+          <div className="lg:col-span-1 space-y-6">
+            <ReportUpload onUploaded={fetchRecentReports} />
+            <PolicyOverrides overridden={kpiData.overridden} totalMessages={kpiData.total_messages} />
+          </div>
+        </div>
+
+        {/* DNS Posture */}
+        {dnsPosture && (
+          <div className="mb-8">
+            <DnsPosturePanel
+              domains={dnsPosture.domains}
+              checks={dnsPosture.checks}
+              onChecked={() => {
+                fetchDnsPosture();
+                fetchPolicyHistory();
+              }}
+            />
+          </div>
+        )}
+
+        {/* Policy History */}
+        {policyHistory && policyHistory.domains.length > 0 && (
+          <div className="mb-8">
+            <PolicyHistoryPanel domains={policyHistory.domains} events={policyHistory.events} />
+          </div>
+        )}
+
+        {/* TLS Reports */}
+        {tlsData && (
+          <div className="mb-8">
+            <TlsReportsPanel summary={tlsData.summary} failuresByMx={tlsData.failures_by_mx} />
+          </div>
+        )}
+
+        {/* Failure Reports */}
+        <div className="mb-8">
+          <FailureReportsList failureReports={failureReports} />
+        </div>
+
+        {/* Unknown Senders */}
+        <div className="mb-8">
+          <UnknownSenders
+            authorization={kpiData.sender_authorization}
+            sources={kpiData.unknown_sources}
+          />
+        </div>
+
+        {/* Sender Services */}
+        {kpiData.sender_services.length > 0 && (
+          <div className="mb-8">
+            <SenderServices services={kpiData.sender_services} />
+          </div>
+        )}
+
         {/* Top Threat Sources */}
         {kpiData.top_threat_sources.length > 0 && (
-          <div className="rounded-lg border border-gray-200 bg-white p-6">
-            <h2 className="text-lg font-semibold text-gray-900 mb-4">
-              Top Bedrohungsquellen
-            </h2>
-            <div className="overflow-x-auto">
-              <table className="min-w-full divide-y divide-gray-200">
-                <thead>
-                  <tr>
-                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      IP-Adresse
-                    </th>
-                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Anzahl
-                    </th>
-                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Land
-                    </th>
-                  </tr>
-                </thead>
-                <tbody className="divide-y divide-gray-200">
-                  {kpiData.top_threat_sources.map((source, idx) => (
-                    <tr key={idx} className="hover:bg-gray-50">
-                      <td className="px-4 py-3 text-sm font-mono text-gray-900">
-                        {source.source_ip}
-                      </td>
-                      <td className="px-4 py-3 text-sm text-gray-900">
-                        {source.total.toLocaleString('de-DE')}
-                      </td>
-                      <td className="px-4 py-3 text-sm text-gray-500">
-                        {source.country || 'Unbekannt'}
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
-          </div>
+          <TopThreatSources
+            sources={kpiData.top_threat_sources}
+            networks={kpiData.top_threat_networks}
+          />
         )}
       </div>
     </div>
@@ -0,0 +1,120 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { PolicyEventList } from '@/components/dashboard/PolicyHistoryPanel';
+
+interface PolicyHistory {
+  domain: string;
+  timeline: Array<{
+    policy_key: string;
+    policy: {
+      p: string;
+      sp: string;
+      np: string | null;
+      pct: number;
+      adkim: string;
+      aspf: string;
+      testing: string | null;
+    };
+    first_seen: number;
+    last_seen: number;
+    reporters: string[];
+    observations: number;
+  }>;
+  events: Array<any>;
+}
+
+const POLICY_STYLES: Record<string, string> = {
+  none: 'border-gray-300 bg-gray-50',
+  quarantine: 'border-yellow-300 bg-yellow-50',
+  reject: 'border-green-300 bg-green-50',
+};
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleDateString('de-DE');
+}
+
+export default function PolicyHistoryPage({ params }: { params: { domain: string } }) {
+  const domain = decodeURIComponent(params.domain);
+  const [data, setData] = useState<PolicyHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchHistory() {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/policy-history?domain=${encodeURIComponent(domain)}`);
+        if (!response.ok) throw new Error('Failed to fetch policy history');
+        setData(await response.json());
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchHistory();
+  }, [domain]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+            ← Zurück zum Dashboard
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-gray-900">Policy-Verlauf: {domain}</h1>
+        </div>
+
+        {loading && <div className="text-gray-600">Lade Daten...</div>}
+
+        {error && (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-4">
+            <p className="text-sm text-red-800">Fehler beim Laden: {error}</p>
+          </div>
+        )}
+
+        {data && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 rounded-lg border border-gray-200 bg-white p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Zeitleiste</h2>
+              {data.timeline.length === 0 ? (
+                <p className="text-sm text-gray-500">Noch keine Policy beobachtet.</p>
+              ) : (
+                <ol className="relative border-l border-gray-200 ml-2">
+                  {[...data.timeline].reverse().map((period, idx) => (
+                    <li key={idx} className="mb-6 ml-4">
+                      <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-blue-500" />
+                      <p className="text-xs text-gray-500">
+                        {formatDate(period.first_seen)} – {formatDate(period.last_seen)} · {period.observations} Beobachtung(en)
+                      </p>
+                      <div className={`mt-1 rounded-lg border p-3 ${POLICY_STYLES[period.policy.p] || POLICY_STYLES.none}`}>
+                        <p className="font-mono text-sm text-gray-900">{period.policy_key}</p>
+                        {(period.policy.np || period.policy.testing) && (
+                          <p className="font-mono text-xs text-gray-600">
+                            {[period.policy.np && `np=${period.policy.np}`, period.policy.testing && `t=${period.policy.testing}`]
+                              .filter(Boolean)
+                              .join(' ')}
+                          </p>
+                        )}
+                        <p className="mt-1 text-xs text-gray-600">{period.reporters.join(', ')}</p>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+
+            <div className="rounded-lg border border-gray-200 bg-white p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Änderungen und Abweichungen</h2>
+              <PolicyEventList events={data.events} />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
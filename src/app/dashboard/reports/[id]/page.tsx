@@ -0,0 +1,143 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { RecordsTable } from '@/components/dashboard/RecordsTable';
+import { RecommendationsList } from '@/components/dashboard/RecommendationsList';
+
+interface ReportDetail {
+  report: {
+    id: number;
+    report_id: string;
+    org_name: string;
+    email: string;
+    domain: string;
+    date_begin: number;
+    date_end: number;
+    schema_version: string;
+    source_account: string | null;
+    policy_published: Record<string, string | number | null>;
+  };
+  records: Array<any>;
+  analysis: {
+    threat_level: string;
+    compliance_status: string;
+    compliance_score: number;
+    summary: string;
+    recommendations: string[];
+  } | null;
+}
+
+export default function ReportDetailPage({ params }: { params: { id: string } }) {
+  const [data, setData] = useState<ReportDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchReport() {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/reports/${params.id}`);
+        if (!response.ok) throw new Error('Failed to fetch report');
+        setData(await response.json());
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchReport();
+  }, [params.id]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-7xl mx-auto">
+          <h1 className="text-3xl font-bold text-gray-900 mb-8">DMARC Report</h1>
+          <div className="text-gray-600">Lade Daten...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-7xl mx-auto">
+          <h1 className="text-3xl font-bold text-gray-900 mb-8">DMARC Report</h1>
+          <div className="rounded-lg border border-red-200 bg-red-50 p-4">
+            <p className="text-sm text-red-800">Fehler beim Laden: {error}</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const { report, records, analysis } = data;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+            ← Zurück zum Dashboard
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-gray-900">{report.domain}</h1>
+          <p className="text-sm text-gray-600">
+            {report.org_name} · Report-ID {report.report_id} · {report.schema_version === 'dmarcbis' ? 'DMARCbis' : 'RFC 7489'} ·{' '}
+            {new Date(report.date_begin * 1000).toLocaleDateString('de-DE')} -{' '}
+            {new Date(report.date_end * 1000).toLocaleDateString('de-DE')}
+            {report.source_account && <> · Postfach {report.source_account}</>}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+          <div className="rounded-lg border border-gray-200 bg-white p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Veröffentlichte Policy</h2>
+            <dl className="space-y-2">
+              {Object.entries(report.policy_published)
+                .filter(([, value]) => value !== null)
+                .map(([key, value]) => (
+                  <div key={key} className="flex justify-between text-sm">
+                    <dt className="text-gray-600">{key}</dt>
+                    <dd className="font-mono text-gray-900">{String(value)}</dd>
+                  </div>
+                ))}
+            </dl>
+          </div>
+
+          <div className="lg:col-span-2 rounded-lg border border-gray-200 bg-white p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Analyse</h2>
+            {analysis ? (
+              <div className="space-y-2 text-sm">
+                <p>
+                  <span className="text-gray-600">Bedrohungsstufe:</span>{' '}
+                  <span className="font-medium text-gray-900">{analysis.threat_level}</span>
+                </p>
+                <p>
+                  <span className="text-gray-600">Compliance:</span>{' '}
+                  <span className="font-medium text-gray-900">
+                    {analysis.compliance_status} ({analysis.compliance_score}%)
+                  </span>
+                </p>
+                <p className="text-gray-700">{analysis.summary}</p>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">Noch nicht analysiert.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="mb-8">
+          <RecordsTable records={records} />
+        </div>
+
+        {analysis && analysis.recommendations.length > 0 && (
+          <RecommendationsList recommendations={analysis.recommendations} domain={report.domain} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  AuthorizedSenderForm,
+  AuthorizedSenderValues,
+} from '@/components/dashboard/AuthorizedSenderForm';
+
+interface AuthorizedSender {
+  id: number;
+  domain: string;
+  cidr: string | null;
+  sender_service: string | null;
+  dkim_domain: string | null;
+  dkim_selector: string | null;
+  description: string | null;
+  owner: string | null;
+}
+
+interface RegistryData {
+  authorized_senders: AuthorizedSender[];
+  services: Array<{ id: string; name: string }>;
+}
+
+/**
+ * Turn form values into the API body (empty fields are not set)
+ */
+function toRequestBody(values: AuthorizedSenderValues) {
+  return Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [key, value.trim() || null])
+  );
+}
+
+function toFormValues(sender: AuthorizedSender): AuthorizedSenderValues {
+  return {
+    domain: sender.domain,
+    cidr: sender.cidr || '',
+    sender_service: sender.sender_service || '',
+    dkim_domain: sender.dkim_domain || '',
+    dkim_selector: sender.dkim_selector || '',
+    description: sender.description || '',
+    owner: sender.owner || '',
+  };
+}
+
+async function sendRequest(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.details ? data.details.join('; ') : data.error || 'Request failed');
+  }
+
+  return data;
+}
+
+export default function AuthorizedSendersPage() {
+  const [data, setData] = useState<RegistryData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  async function fetchRegistry() {
+    try {
+      const response = await fetch('/api/authorized-senders');
+      if (!response.ok) throw new Error('Failed to fetch authorized senders');
+      setData(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchRegistry();
+  }, []);
+
+  async function createSender(values: AuthorizedSenderValues) {
+    await sendRequest('/api/authorized-senders', 'POST', toRequestBody(values));
+    await fetchRegistry();
+  }
+
+  async function updateSender(id: number, values: AuthorizedSenderValues) {
+    await sendRequest(`/api/authorized-senders/${id}`, 'PUT', toRequestBody(values));
+    setEditingId(null);
+    await fetchRegistry();
+  }
+
+  async function deleteSender(sender: AuthorizedSender) {
+    if (!confirm(`Eintrag für ${sender.domain} löschen?`)) return;
+
+    try {
+      await sendRequest(`/api/authorized-senders/${sender.id}`, 'DELETE');
+      await fetchRegistry();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  }
+
+  const services = data?.services || [];
+  const serviceName = (id: string | null) => services.find((s) => s.id === id)?.name || id;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+            ← Zurück zum Dashboard
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-gray-900">Autorisierte Absender</h1>
+          <p className="text-sm text-gray-600">
+            IP-Bereiche, Versanddienste und DKIM-Schlüssel, die für eine Domain (inkl. Subdomains) senden dürfen.
+            Records werden beim Speichern neu zugeordnet.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 rounded-lg border border-red-200 bg-red-50 p-4">
+            <p className="text-sm text-red-800">Fehler: {error}</p>
+          </div>
+        )}
+
+        <div className="mb-8 rounded-lg border border-gray-200 bg-white p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Neuer Eintrag</h2>
+          <AuthorizedSenderForm services={services} submitLabel="Hinzufügen" onSubmit={createSender} />
+        </div>
+
+        <div className="rounded-lg border border-gray-200 bg-white p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Register</h2>
+          {loading ? (
+            <p className="text-sm text-gray-600">Lade Daten...</p>
+          ) : !data || data.authorized_senders.length === 0 ? (
+            <p className="text-sm text-gray-500">Noch keine autorisierten Absender eingetragen.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {data.authorized_senders.map((sender) => (
+                <li key={sender.id} className="py-4">
+                  {editingId === sender.id ? (
+                    <AuthorizedSenderForm
+                      initial={toFormValues(sender)}
+                      services={services}
+                      submitLabel="Speichern"
+                      onSubmit={(values) => updateSender(sender.id, values)}
+                      onCancel={() => setEditingId(null)}
+                    />
+                  ) : (
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="text-sm">
+                        <p className="font-medium text-gray-900">
+                          {sender.domain}
+                          {sender.description && <span className="font-normal text-gray-600"> · {sender.description}</span>}
+                        </p>
+                        <p className="mt-1 space-x-3 text-gray-600">
+                          {sender.cidr && <span className="font-mono">{sender.cidr}</span>}
+                          {sender.sender_service && <span>{serviceName(sender.sender_service)}</span>}
+                          {sender.dkim_domain && (
+                            <span className="font-mono">
+                              d={sender.dkim_domain}{sender.dkim_selector && ` s=${sender.dkim_selector}`}
+                            </span>
+                          )}
+                        </p>
+                        {sender.owner && <p className="mt-1 text-xs text-gray-500">Verantwortlich: {sender.owner}</p>}
+                      </div>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => setEditingId(sender.id)}
+                          className="px-3 py-1 rounded-lg text-xs font-medium bg-white text-gray-700 border border-gray-300 hover:bg-gray-50"
+                        >
+                          Bearbeiten
+                        </button>
+                        <button
+                          onClick={() => deleteSender(sender)}
+                          className="px-3 py-1 rounded-lg text-xs font-medium bg-white text-red-700 border border-red-300 hover:bg-red-50"
+                        >
+                          Löschen
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
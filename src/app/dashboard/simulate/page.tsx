@@ -0,0 +1,325 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+
+interface SimulationCounts {
+  messages: number;
+  pass: number;
+  fail: number;
+  none: number;
+  quarantine: number;
+  reject: number;
+}
+
+interface SimulationResult {
+  domain: string;
+  from: number;
+  to: number;
+  policy: { p: string; sp: string; pct: number; adkim: string; aspf: string };
+  records: number;
+  totals: SimulationCounts;
+  by_authorization: Record<'authorized' | 'unknown' | 'unregistered', SimulationCounts>;
+  current_dispositions: Record<string, number>;
+  sources: Array<{
+    source_ip: string;
+    ptr: string | null;
+    sender_service_name: string | null;
+    authorization: 'authorized' | 'unknown' | 'unregistered';
+    header_from: string[];
+    counts: SimulationCounts;
+  }>;
+}
+
+const AUTHORIZATION_LABELS = {
+  authorized: 'Autorisiert',
+  unknown: 'Unbekannt',
+  unregistered: 'Ohne Registereintrag',
+};
+
+const AUTHORIZATION_STYLES = {
+  authorized: 'bg-green-100 text-green-800',
+  unknown: 'bg-red-100 text-red-800',
+  unregistered: 'bg-gray-100 text-gray-700',
+};
+
+const DISPOSITIONS = ['none', 'quarantine', 'reject'];
+
+function formatNumber(value: number): string {
+  return value.toLocaleString('de-DE');
+}
+
+function formatShare(value: number, total: number): string {
+  return total > 0 ? `${((value / total) * 100).toFixed(1)}%` : '–';
+}
+
+export default function PolicySimulatorPage() {
+  const [form, setForm] = useState({
+    domain: '',
+    from: '',
+    to: '',
+    p: 'reject',
+    sp: '',
+    pct: '100',
+    adkim: 'r',
+    aspf: 'r',
+  });
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The policy history links here with ?domain=
+  useEffect(() => {
+    const domain = new URLSearchParams(window.location.search).get('domain');
+    if (domain) {
+      setForm((current) => ({ ...current, domain }));
+    }
+  }, []);
+
+  function updateField(field: keyof typeof form, value: string) {
+    setForm((current) => ({ ...current, [field]: value }));
+  }
+
+  async function runSimulation(event: React.FormEvent) {
+    event.preventDefault();
+
+    try {
+      setLoading(true);
+      const params = new URLSearchParams(Object.entries(form).filter(([, value]) => value !== ''));
+      const response = await fetch(`/api/simulate?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error([data.error, ...(data.details || [])].join(': '));
+      }
+
+      setResult(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const inputClass = 'mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm';
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+            ← Zurück zum Dashboard
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-gray-900">Policy-Simulator</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Was wäre mit den gemeldeten Nachrichten passiert, wenn diese Policy veröffentlicht gewesen wäre?
+          </p>
+        </div>
+
+        <form onSubmit={runSimulation} className="mb-8 rounded-lg border border-gray-200 bg-white p-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <label className="text-sm text-gray-700 md:col-span-2">
+              Domain
+              <input
+                type="text"
+                required
+                value={form.domain}
+                onChange={(e) => updateField('domain', e.target.value)}
+                placeholder="example.com"
+                className={inputClass}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Von
+              <input type="date" value={form.from} onChange={(e) => updateField('from', e.target.value)} className={inputClass} />
+            </label>
+            <label className="text-sm text-gray-700">
+              Bis
+              <input type="date" value={form.to} onChange={(e) => updateField('to', e.target.value)} className={inputClass} />
+            </label>
+
+            <label className="text-sm text-gray-700">
+              p=
+              <select value={form.p} onChange={(e) => updateField('p', e.target.value)} className={inputClass}>
+                {DISPOSITIONS.map((value) => <option key={value} value={value}>{value}</option>)}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              sp=
+              <select value={form.sp} onChange={(e) => updateField('sp', e.target.value)} className={inputClass}>
+                <option value="">wie p=</option>
+                {DISPOSITIONS.map((value) => <option key={value} value={value}>{value}</option>)}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              pct=
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={form.pct}
+                onChange={(e) => updateField('pct', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <div className="grid grid-cols-2 gap-4">
+              <label className="text-sm text-gray-700">
+                adkim=
+                <select value={form.adkim} onChange={(e) => updateField('adkim', e.target.value)} className={inputClass}>
+                  <option value="r">r</option>
+                  <option value="s">s</option>
+                </select>
+              </label>
+              <label className="text-sm text-gray-700">
+                aspf=
+                <select value={form.aspf} onChange={(e) => updateField('aspf', e.target.value)} className={inputClass}>
+                  <option value="r">r</option>
+                  <option value="s">s</option>
+                </select>
+              </label>
+            </div>
+          </div>
+
+          <div className="mt-4 flex items-center gap-4">
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {loading ? 'Simuliere...' : 'Simulieren'}
+            </button>
+            <span className="text-xs text-gray-500">Ohne Zeitraum werden die letzten 30 Tage ausgewertet.</span>
+          </div>
+        </form>
+
+        {error && (
+          <div className="mb-8 rounded-lg border border-red-200 bg-red-50 p-4">
+            <p className="text-sm text-red-800">Fehler bei der Simulation: {error}</p>
+          </div>
+        )}
+
+        {result && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+              {[
+                { title: 'Nachrichten', value: result.totals.messages, style: 'text-gray-900' },
+                { title: 'DMARC bestanden', value: result.totals.pass, style: 'text-green-700' },
+                { title: 'Quarantäne', value: result.totals.quarantine, style: 'text-yellow-700' },
+                { title: 'Abgelehnt', value: result.totals.reject, style: 'text-red-700' },
+              ].map((card) => (
+                <div key={card.title} className="rounded-lg border border-gray-200 bg-white p-6">
+                  <p className="text-sm font-medium text-gray-600">{card.title}</p>
+                  <p className={`mt-2 text-3xl font-bold ${card.style}`}>{formatNumber(card.value)}</p>
+                  <p className="mt-1 text-xs text-gray-500">{formatShare(card.value, result.totals.messages)}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2 rounded-lg border border-gray-200 bg-white p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">Nach Absender-Autorisierung</h2>
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                      <th className="py-2">Absender</th>
+                      <th className="py-2 text-right">Nachrichten</th>
+                      <th className="py-2 text-right">Bestanden</th>
+                      <th className="py-2 text-right">Quarantäne</th>
+                      <th className="py-2 text-right">Abgelehnt</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {(Object.keys(AUTHORIZATION_LABELS) as Array<keyof typeof AUTHORIZATION_LABELS>).map((group) => {
+                      const counts = result.by_authorization[group];
+                      return (
+                        <tr key={group}>
+                          <td className="py-2">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${AUTHORIZATION_STYLES[group]}`}>
+                              {AUTHORIZATION_LABELS[group]}
+                            </span>
+                          </td>
+                          <td className="py-2 text-right">{formatNumber(counts.messages)}</td>
+                          <td className="py-2 text-right">{formatNumber(counts.pass)}</td>
+                          <td className="py-2 text-right">{formatNumber(counts.quarantine)}</td>
+                          <td className="py-2 text-right">{formatNumber(counts.reject)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {result.by_authorization.authorized.quarantine + result.by_authorization.authorized.reject > 0 && (
+                  <p className="mt-4 text-sm text-red-700">
+                    Autorisierte Absender wären betroffen – vor dem Verschärfen DKIM/SPF-Alignment dieser Quellen korrigieren.
+                  </p>
+                )}
+              </div>
+
+              <div className="rounded-lg border border-gray-200 bg-white p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-1">Simulierte Policy</h2>
+                <p className="font-mono text-sm text-gray-900">
+                  p={result.policy.p} sp={result.policy.sp} pct={result.policy.pct} adkim={result.policy.adkim} aspf={result.policy.aspf}
+                </p>
+                <p className="mt-1 text-xs text-gray-500">
+                  {new Date(result.from * 1000).toLocaleDateString('de-DE')} – {new Date(result.to * 1000).toLocaleDateString('de-DE')} ·{' '}
+                  {formatNumber(result.records)} Records
+                </p>
+
+                <h3 className="mt-4 text-sm font-medium text-gray-600 mb-2">Tatsächlich angewendet (laut Reports)</h3>
+                <ul className="text-sm text-gray-700">
+                  {Object.entries(result.current_dispositions).map(([disposition, total]) => (
+                    <li key={disposition} className="flex justify-between">
+                      <span>{disposition}</span>
+                      <span>{formatNumber(total)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+
+            <div className="rounded-lg border border-gray-200 bg-white p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Betroffene Quellen</h2>
+              {result.sources.length === 0 ? (
+                <p className="text-sm text-gray-500">Keine Nachricht würde unter Quarantäne gestellt oder abgelehnt.</p>
+              ) : (
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                      <th className="py-2">Quelle</th>
+                      <th className="py-2">Dienst</th>
+                      <th className="py-2">Header From</th>
+                      <th className="py-2">Absender</th>
+                      <th className="py-2 text-right">Nachrichten</th>
+                      <th className="py-2 text-right">Quarantäne</th>
+                      <th className="py-2 text-right">Abgelehnt</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {result.sources.map((source) => (
+                      <tr key={`${source.source_ip}-${source.authorization}`}>
+                        <td className="py-2">
+                          <p className="font-mono text-gray-900">{source.source_ip}</p>
+                          {source.ptr && <p className="text-xs text-gray-500">{source.ptr}</p>}
+                        </td>
+                        <td className="py-2 text-gray-700">{source.sender_service_name || '–'}</td>
+                        <td className="py-2 text-gray-700">{source.header_from.join(', ')}</td>
+                        <td className="py-2">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${AUTHORIZATION_STYLES[source.authorization]}`}>
+                            {AUTHORIZATION_LABELS[source.authorization]}
+                          </span>
+                        </td>
+                        <td className="py-2 text-right">{formatNumber(source.counts.messages)}</td>
+                        <td className="py-2 text-right">{formatNumber(source.counts.quarantine)}</td>
+                        <td className="py-2 text-right">{formatNumber(source.counts.reject)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+
+export interface AuthorizedSenderValues {
+  domain: string;
+  cidr: string;
+  sender_service: string;
+  dkim_domain: string;
+  dkim_selector: string;
+  description: string;
+  owner: string;
+}
+
+interface AuthorizedSenderFormProps {
+  initial?: AuthorizedSenderValues;
+  services: Array<{ id: string; name: string }>;
+  submitLabel: string;
+  onSubmit: (values: AuthorizedSenderValues) => Promise<void>;
+  onCancel?: () => void;
+}
+
+export const EMPTY_AUTHORIZED_SENDER: AuthorizedSenderValues = {
+  domain: '',
+  cidr: '',
+  sender_service: '',
+  dkim_domain: '',
+  dkim_selector: '',
+  description: '',
+  owner: '',
+};
+
+const inputClass = 'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none';
+const labelClass = 'block text-xs font-medium text-gray-600 mb-1';
+
+export function AuthorizedSenderForm({ initial, services, submitLabel, onSubmit, onCancel }: AuthorizedSenderFormProps) {
+  const [values, setValues] = useState<AuthorizedSenderValues>(initial || EMPTY_AUTHORIZED_SENDER);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const field = (name: keyof AuthorizedSenderValues) => ({
+    value: values[name],
+    onChange: (e: { target: { value: string } }) => setValues({ ...values, [name]: e.target.value }),
+  });
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setError(null);
+      await onSubmit(values);
+      if (!initial) setValues(EMPTY_AUTHORIZED_SENDER);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className={labelClass}>Domain *</label>
+          <input className={inputClass} placeholder="example.com" required {...field('domain')} />
+        </div>
+        <div>
+          <label className={labelClass}>IP-Bereich (CIDR)</label>
+          <input className={`${inputClass} font-mono`} placeholder="192.0.2.0/24" {...field('cidr')} />
+        </div>
+        <div>
+          <label className={labelClass}>Versanddienst</label>
+          <select className={inputClass} {...field('sender_service')}>
+            <option value="">–</option>
+            {services.map((service) => (
+              <option key={service.id} value={service.id}>{service.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>DKIM-Domain (d=)</label>
+          <input className={inputClass} placeholder="example.com" {...field('dkim_domain')} />
+        </div>
+        <div>
+          <label className={labelClass}>DKIM-Selector</label>
+          <input className={inputClass} placeholder="selector1" {...field('dkim_selector')} />
+        </div>
+        <div>
+          <label className={labelClass}>Verantwortlich</label>
+          <input className={inputClass} placeholder="IT-Betrieb" {...field('owner')} />
+        </div>
+      </div>
+      <div>
+        <label className={labelClass}>Beschreibung</label>
+        <input className={inputClass} placeholder="Mailserver Rechenzentrum" {...field('description')} />
+      </div>
+      <p className="text-xs text-gray-500">
+        Alle angegebenen Kriterien müssen zutreffen; mindestens IP-Bereich, Versanddienst oder DKIM-Domain ist erforderlich.
+        DKIM zählt nur bei gültiger Signatur.
+      </p>
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-3">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Speichere...' : submitLabel}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-white text-gray-700 border border-gray-300 hover:bg-gray-50"
+          >
+            Abbrechen
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+
+interface DnsPostureCheck {
+  domain: string;
+  status: 'ok' | 'warning' | 'critical';
+  dmarc_record: string | null;
+  spf_record: string | null;
+  spf_lookups: number | null;
+  dkim_keys: Array<{
+    selector: string;
+    record: string | null;
+    key_bits: number | null;
+  }>;
+  mta_sts_record: string | null;
+  tls_rpt_record: string | null;
+  findings: Array<{
+    check: string;
+    severity: 'critical' | 'warning' | 'info';
+    message: string;
+  }>;
+  checked_at: string;
+}
+
+interface DnsPosturePanelProps {
+  domains: string[];
+  checks: DnsPostureCheck[];
+  onChecked?: () => void;
+}
+
+const STATUS_STYLES = {
+  ok: 'bg-green-100 text-green-800',
+  warning: 'bg-yellow-100 text-yellow-800',
+  critical: 'bg-red-100 text-red-800',
+};
+
+const STATUS_LABELS = {
+  ok: 'OK',
+  warning: 'Warnung',
+  critical: 'Kritisch',
+};
+
+const SEVERITY_STYLES = {
+  critical: 'text-red-700',
+  warning: 'text-yellow-700',
+  info: 'text-gray-500',
+};
+
+const CHECK_LABELS: Record<string, string> = {
+  dmarc: 'DMARC',
+  spf: 'SPF',
+  dkim: 'DKIM',
+  mta_sts: 'MTA-STS',
+  tls_rpt: 'TLS-RPT',
+};
+
+function RecordState({ label, present }: { label: string; present: boolean }) {
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs font-medium ${present ? 'bg-green-50 text-green-700' : 'bg-gray-100 text-gray-500'}`}>
+      {label}
+    </span>
+  );
+}
+
+export function DnsPosturePanel({ domains, checks, onChecked }: DnsPosturePanelProps) {
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function runChecks() {
+    try {
+      setChecking(true);
+      setError(null);
+      const response = await fetch('/api/dns-posture', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'DNS check failed');
+      onChecked?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setChecking(false);
+    }
+  }
+
+  const unchecked = domains.filter((domain) => !checks.some((check) => check.domain === domain));
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-lg font-semibold text-gray-900">DNS-Konfiguration</h2>
+        <button
+          onClick={runChecks}
+          disabled={checking}
+          className="px-3 py-1 rounded-lg text-xs font-medium bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+        >
+          {checking ? 'Prüfe...' : 'Jetzt prüfen'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Live-Abfrage von DMARC, SPF, DKIM, MTA-STS und TLS-RPT – wird täglich wiederholt
+      </p>
+
+      {error && <p className="mb-4 text-sm text-red-700">Fehler: {error}</p>}
+
+      {checks.length === 0 ? (
+        <p className="text-sm text-gray-500">Noch keine DNS-Prüfung durchgeführt.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {checks.map((check) => {
+            const findings = check.findings.filter((finding) => finding.severity !== 'info');
+
+            return (
+              <li key={check.domain} className="py-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900">{check.domain}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[check.status]}`}>
+                      {STATUS_LABELS[check.status]}
+                    </span>
+                  </div>
+                  <span className="text-xs text-gray-500">
+                    {new Date(`${check.checked_at.replace(' ', 'T')}Z`).toLocaleString('de-DE')}
+                  </span>
+                </div>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  <RecordState label="DMARC" present={check.dmarc_record !== null} />
+                  <RecordState
+                    label={check.spf_lookups !== null ? `SPF (${check.spf_lookups}/10 Lookups)` : 'SPF'}
+                    present={check.spf_record !== null}
+                  />
+                  {check.dkim_keys.map((key) => (
+                    <RecordState
+                      key={key.selector}
+                      label={`DKIM ${key.selector}${key.key_bits ? ` (${key.key_bits} Bit)` : ''}`}
+                      present={key.record !== null}
+                    />
+                  ))}
+                  <RecordState label="MTA-STS" present={check.mta_sts_record !== null} />
+                  <RecordState label="TLS-RPT" present={check.tls_rpt_record !== null} />
+                </div>
+                {check.dmarc_record && (
+                  <p className="mt-2 font-mono text-xs text-gray-600 break-all">{check.dmarc_record}</p>
+                )}
+                {findings.length > 0 && (
+                  <ul className="mt-2 space-y-1">
+                    {findings.map((finding, idx) => (
+                      <li key={idx} className={`text-sm ${SEVERITY_STYLES[finding.severity]}`}>
+                        <span className="font-medium">{CHECK_LABELS[finding.check] || finding.check}:</span> {finding.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {unchecked.length > 0 && (
+        <p className="mt-4 text-xs text-gray-500">Noch nicht geprüft: {unchecked.join(', ')}</p>
+      )}
+    </div>
+  );
+}
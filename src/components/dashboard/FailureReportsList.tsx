@@ -0,0 +1,87 @@
+interface FailureReportsListProps {
+  failureReports: Array<{
+    id: number;
+    reporter: string;
+    reported_domain: string | null;
+    source_ip: string | null;
+    auth_failure: string | null;
+    delivery_result: string | null;
+    original_from: string | null;
+    original_subject: string | null;
+    arrival_timestamp: number | null;
+  }>;
+}
+
+export function FailureReportsList({ failureReports }: FailureReportsListProps) {
+  if (failureReports.length === 0) {
+    return (
+      <div className="rounded-lg border border-gray-200 bg-white p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Failure-Reports</h2>
+        <p className="text-sm text-gray-500">Keine Failure-Reports vorhanden.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Failure-Reports</h2>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead>
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                #
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Eingang
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Domain
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                IP-Adresse
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Fehler
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Original-Nachricht
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {failureReports.map((report) => (
+              <tr key={report.id} id={`failure-report-${report.id}`} className="hover:bg-gray-50">
+                <td className="px-4 py-3 text-sm text-gray-500">{report.id}</td>
+                <td className="px-4 py-3 text-sm text-gray-700">
+                  {report.arrival_timestamp
+                    ? new Date(report.arrival_timestamp * 1000).toLocaleString('de-DE')
+                    : 'Unbekannt'}
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-900">
+                  {report.reported_domain || 'Unbekannt'}
+                  <p className="text-xs text-gray-500">{report.reporter}</p>
+                </td>
+                <td className="px-4 py-3 text-sm font-mono text-gray-900">
+                  {report.source_ip || '-'}
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-700">
+                  {report.auth_failure || '-'}
+                  {report.delivery_result && (
+                    <p className="text-xs text-gray-500">{report.delivery_result}</p>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-700">
+                  {report.original_subject || '-'}
+                  {report.original_from && (
+                    <p className="text-xs text-gray-500">{report.original_from}</p>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import Link from 'next/link';
+
+interface PolicyEventItem {
+  id: number;
+  domain: string;
+  type: string;
+  severity: 'critical' | 'warning' | 'info';
+  message: string;
+  observed_at: number;
+}
+
+interface PolicyHistoryPanelProps {
+  domains: Array<{
+    domain: string;
+    policy_key: string;
+    reporter: string;
+    observed_at: number;
+  }>;
+  events: PolicyEventItem[];
+}
+
+const POLICY_EVENT_STYLES = {
+  critical: 'bg-red-100 text-red-800',
+  warning: 'bg-yellow-100 text-yellow-800',
+  info: 'bg-gray-100 text-gray-700',
+};
+
+const POLICY_EVENT_LABELS: Record<string, string> = {
+  policy_changed: 'Geändert',
+  reporter_disagreement: 'Abweichung',
+};
+
+export function PolicyEventList({ events }: { events: PolicyEventItem[] }) {
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">Keine Änderungen oder Abweichungen erkannt.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200">
+      {events.map((event) => (
+        <li key={event.id} className="py-2 text-sm">
+          <div className="flex items-center gap-2">
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${POLICY_EVENT_STYLES[event.severity]}`}>
+              {POLICY_EVENT_LABELS[event.type] || event.type}
+            </span>
+            <span className="font-medium text-gray-900">{event.domain}</span>
+            <span className="text-xs text-gray-500">
+              {new Date(event.observed_at * 1000).toLocaleDateString('de-DE')}
+            </span>
+          </div>
+          <p className="mt-1 text-gray-700">{event.message}</p>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function PolicyHistoryPanel({ domains, events }: PolicyHistoryPanelProps) {
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">Veröffentlichte Policy</h2>
+      <p className="text-xs text-gray-500 mb-4">
+        Zuletzt gesehene Policy je Domain laut Reports und DNS-Prüfung, mit erkannten Änderungen und Abweichungen zwischen Reportern
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ul className="divide-y divide-gray-200">
+          {domains.map((item) => (
+            <li key={item.domain} className="py-2">
+              <div className="flex items-center justify-between">
+                <Link href={`/dashboard/policy/${encodeURIComponent(item.domain)}`} className="text-sm font-medium text-blue-600 hover:underline">
+                  {item.domain}
+                </Link>
+                <Link href={`/dashboard/simulate?domain=${encodeURIComponent(item.domain)}`} className="text-xs text-blue-600 hover:underline">
+                  Verschärfung simulieren
+                </Link>
+              </div>
+              <p className="font-mono text-xs text-gray-700">{item.policy_key}</p>
+              <p className="text-xs text-gray-500">
+                {item.reporter} · {new Date(item.observed_at * 1000).toLocaleDateString('de-DE')}
+              </p>
+            </li>
+          ))}
+        </ul>
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-600 mb-2">Letzte Ereignisse</h3>
+          <PolicyEventList events={events.slice(0, 5)} />
+        </div>
+      </div>
+    </div>
+  );
+}
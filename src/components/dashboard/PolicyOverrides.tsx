@@ -0,0 +1,49 @@
+interface PolicyOverridesProps {
+  overridden: {
+    total: number;
+    by_reason: Array<{
+      type: string;
+      total: number;
+    }>;
+  };
+  totalMessages: number;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  forwarded: 'Weitergeleitet',
+  sampled_out: 'Ausgesampelt (pct)',
+  trusted_forwarder: 'Vertrauenswürdiger Forwarder',
+  mailing_list: 'Mailingliste',
+  local_policy: 'Lokale Policy',
+  other: 'Sonstige',
+};
+
+export function PolicyOverrides({ overridden, totalMessages }: PolicyOverridesProps) {
+  if (overridden.total === 0) {
+    return (
+      <div className="rounded-lg border border-gray-200 bg-white p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Policy-Overrides</h2>
+        <p className="text-sm text-gray-500">Keine Policy-Overrides durch Empfänger.</p>
+      </div>
+    );
+  }
+
+  const share = totalMessages > 0 ? (overridden.total / totalMessages) * 100 : 0;
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">Policy-Overrides</h2>
+      <p className="text-xs text-gray-500 mb-4">
+        {overridden.total.toLocaleString('de-DE')} Nachrichten ({share.toFixed(1)}%) mit abweichender Disposition
+      </p>
+      <ul className="space-y-2">
+        {overridden.by_reason.map((reason) => (
+          <li key={reason.type} className="flex items-center justify-between text-sm">
+            <span className="text-gray-700">{REASON_LABELS[reason.type] || reason.type}</span>
+            <span className="font-medium text-gray-900">{reason.total.toLocaleString('de-DE')}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import Link from 'next/link';
+
+interface RecentReportsProps {
+  reports: Array<{
+    id: number;
+    domain: string;
+    org_name: string;
+    date_begin: number;
+    date_end: number;
+    record_count: number;
+    threat_level: string | null;
+  }>;
+}
+
+export function RecentReports({ reports }: RecentReportsProps) {
+  if (reports.length === 0) {
+    return (
+      <div className="rounded-lg border border-gray-200 bg-white p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Neueste Reports</h2>
+        <p className="text-sm text-gray-500">Keine Reports vorhanden.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Neueste Reports</h2>
+      <ul className="divide-y divide-gray-200">
+        {reports.map((report) => (
+          <li key={report.id}>
+            <Link
+              href={`/dashboard/reports/${report.id}`}
+              className="flex items-center justify-between py-3 hover:bg-gray-50"
+            >
+              <div>
+                <p className="text-sm font-medium text-gray-900">{report.domain}</p>
+                <p className="text-xs text-gray-600">
+                  {report.org_name} · {new Date(report.date_begin * 1000).toLocaleDateString('de-DE')}
+                  {' - '}
+                  {new Date(report.date_end * 1000).toLocaleDateString('de-DE')}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="text-sm text-gray-900">{report.record_count} Datensätze</p>
+                <p className="text-xs text-gray-500">{report.threat_level || 'Nicht analysiert'}</p>
+              </div>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
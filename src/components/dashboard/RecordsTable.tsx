@@ -0,0 +1,197 @@
+import { formatLocation, formatAsn, formatHostname } from '@/lib/utils/geo';
+
+interface AuthResult {
+  id: number;
+  auth_type: string;
+  domain: string;
+  selector: string | null;
+  result: string;
+  human_result: string | null;
+  scope: string | null;
+  aligned: number | null;
+}
+
+interface PolicyReason {
+  id: number;
+  type: string;
+  comment: string | null;
+}
+
+interface RecordsTableProps {
+  records: Array<{
+    id: number;
+    source_ip: string;
+    count: number;
+    disposition: string;
+    dkim: string;
+    spf: string;
+    header_from: string;
+    envelope_from: string | null;
+    country: string | null;
+    city: string | null;
+    asn: number | null;
+    as_org: string | null;
+    ptr: string | null;
+    ptr_confirmed: boolean;
+    sender_service_name: string | null;
+    authorization: string | null;
+    dmarc_pass: number | null;
+    auth_results: AuthResult[];
+    policy_reasons: PolicyReason[];
+  }>;
+}
+
+function resultStyle(result: string): string {
+  if (result === 'pass') return 'bg-green-100 text-green-800';
+  if (result === 'fail' || result === 'permerror') return 'bg-red-100 text-red-800';
+  return 'bg-gray-100 text-gray-700';
+}
+
+function AuthResultBadge({ authResult }: { authResult: AuthResult }) {
+  const label = authResult.auth_type === 'dkim'
+    ? `${authResult.domain}${authResult.selector ? ` (s=${authResult.selector})` : ''}`
+    : `${authResult.domain}${authResult.scope ? ` (${authResult.scope})` : ''}`;
+
+  return (
+    <div className="flex items-center gap-2" title={authResult.human_result || undefined}>
+      <span className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${resultStyle(authResult.result)}`}>
+        {authResult.result}
+      </span>
+      <span className="text-xs font-mono text-gray-700">{label}</span>
+      {authResult.aligned !== null && (
+        <span className={`text-xs ${authResult.aligned ? 'text-green-700' : 'text-gray-500'}`}>
+          {authResult.aligned ? 'aligned' : 'nicht aligned'}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export function RecordsTable({ records }: RecordsTableProps) {
+  if (records.length === 0) {
+    return (
+      <div className="rounded-lg border border-gray-200 bg-white p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Datensätze</h2>
+        <p className="text-sm text-gray-500">Keine Datensätze vorhanden.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Datensätze</h2>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead>
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                IP-Adresse
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Anzahl
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Disposition
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Override
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Header From
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                DKIM-Signaturen
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                SPF
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {records.map((record) => {
+              const dkimResults = record.auth_results.filter((a) => a.auth_type === 'dkim');
+              const spfResults = record.auth_results.filter((a) => a.auth_type === 'spf');
+
+              return (
+                <tr key={record.id} className="hover:bg-gray-50 align-top">
+                  <td className="px-4 py-3 text-sm font-mono text-gray-900">
+                    {record.source_ip}
+                    {record.ptr && (
+                      <div className="text-xs text-gray-500">
+                        {formatHostname(record.ptr, record.ptr_confirmed)}
+                      </div>
+                    )}
+                    {record.country && (
+                      <div className="font-sans text-xs text-gray-500">
+                        {formatLocation(record.country, record.city)}
+                      </div>
+                    )}
+                    {record.asn !== null && (
+                      <div className="font-sans text-xs text-gray-500">
+                        {formatAsn(record.asn, record.as_org)}
+                      </div>
+                    )}
+                    {record.authorization && (
+                      <span className={`mt-1 mr-1 inline-flex items-center rounded-full px-2 py-0.5 font-sans text-xs font-medium ${
+                        record.authorization === 'authorized' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                      }`}>
+                        {record.authorization === 'authorized' ? 'Autorisiert' : 'Unbekannt'}
+                      </span>
+                    )}
+                    {record.sender_service_name && (
+                      <span className="mt-1 inline-flex items-center rounded-full bg-blue-100 px-2 py-0.5 font-sans text-xs font-medium text-blue-800">
+                        {record.sender_service_name}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-900">
+                    {record.count.toLocaleString('de-DE')}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700">
+                    {record.disposition}
+                    {record.dmarc_pass !== null && (
+                      <div>
+                        <span className={`mt-1 inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${
+                          record.dmarc_pass ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                        }`}>
+                          DMARC {record.dmarc_pass ? 'pass' : 'fail'}
+                        </span>
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 space-y-1">
+                    {record.policy_reasons.length > 0
+                      ? record.policy_reasons.map((reason) => (
+                          <div key={reason.id} className="text-xs">
+                            <span className="inline-flex items-center rounded-full bg-blue-100 px-2 py-0.5 font-medium text-blue-800">
+                              {reason.type}
+                            </span>
+                            {reason.comment && (
+                              <span className="ml-2 text-gray-600">{reason.comment}</span>
+                            )}
+                          </div>
+                        ))
+                      : <span className="text-xs text-gray-500">-</span>}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700">
+                    {record.header_from}
+                  </td>
+                  <td className="px-4 py-3 space-y-1">
+                    {dkimResults.length > 0
+                      ? dkimResults.map((a) => <AuthResultBadge key={a.id} authResult={a} />)
+                      : <span className="text-xs text-gray-500">Keine Signatur</span>}
+                  </td>
+                  <td className="px-4 py-3 space-y-1">
+                    {spfResults.length > 0
+                      ? spfResults.map((a) => <AuthResultBadge key={a.id} authResult={a} />)
+                      : <span className="text-xs text-gray-500">Kein Ergebnis</span>}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
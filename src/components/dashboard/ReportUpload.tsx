@@ -0,0 +1,120 @@
+import { useRef, useState } from 'react';
+
+interface UploadResult {
+  file: string;
+  results: Array<{
+    name: string;
+    status: 'inserted' | 'duplicate' | 'invalid';
+    error: string | null;
+  }>;
+}
+
+interface ReportUploadProps {
+  onUploaded?: () => void;
+}
+
+const STATUS_STYLES = {
+  inserted: 'bg-green-100 text-green-800',
+  duplicate: 'bg-gray-100 text-gray-700',
+  invalid: 'bg-red-100 text-red-800',
+};
+
+const STATUS_LABELS = {
+  inserted: 'Importiert',
+  duplicate: 'Duplikat',
+  invalid: 'Ungültig',
+};
+
+export function ReportUpload({ onUploaded }: ReportUploadProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [uploadResults, setUploadResults] = useState<UploadResult[]>([]);
+
+  async function uploadFiles(files: FileList | null) {
+    if (!files || files.length === 0) return;
+
+    const formData = new FormData();
+    Array.from(files).forEach((file) => formData.append('files', file));
+
+    try {
+      setUploading(true);
+      setError(null);
+      const response = await fetch('/api/reports/upload', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Upload failed');
+      setUploadResults(data.files);
+      onUploaded?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Reports hochladen</h2>
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          uploadFiles(e.dataTransfer.files);
+        }}
+        onClick={() => inputRef.current?.click()}
+        className={`flex cursor-pointer flex-col items-center justify-center rounded-lg border-2 border-dashed p-8 text-center transition-colors ${
+          dragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:bg-gray-50'
+        }`}
+      >
+        <p className="text-sm text-gray-700">
+          {uploading ? 'Lade hoch...' : 'Dateien hierher ziehen oder klicken'}
+        </p>
+        <p className="mt-1 text-xs text-gray-500">XML, GZ, ZIP oder EML (max. 10MB pro Datei)</p>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept=".xml,.gz,.zip,.eml,.json"
+          className="hidden"
+          onChange={(e) => {
+            uploadFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-200 bg-red-50 p-3">
+          <p className="text-sm text-red-800">Fehler beim Hochladen: {error}</p>
+        </div>
+      )}
+
+      {uploadResults.length > 0 && (
+        <ul className="mt-4 space-y-2">
+          {uploadResults.flatMap((upload) =>
+            upload.results.map((result, idx) => (
+              <li key={`${upload.file}-${idx}`} className="flex items-start justify-between gap-4 text-sm">
+                <div>
+                  <p className="font-mono text-gray-900">{result.name}</p>
+                  {result.error && <p className="text-xs text-gray-500">{result.error}</p>}
+                </div>
+                <span className={`inline-flex flex-shrink-0 items-center rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[result.status]}`}>
+                  {STATUS_LABELS[result.status]}
+                </span>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
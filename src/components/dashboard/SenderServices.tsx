@@ -0,0 +1,68 @@
+interface SenderServicesProps {
+  services: Array<{
+    sender_service: string | null;
+    name: string | null;
+    total: number;
+    passed: number;
+    failed: number;
+    dkim_failed: number;
+    spf_failed: number;
+  }>;
+}
+
+const headerClass = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+function rateStyle(rate: number): string {
+  if (rate >= 95) return 'text-green-700';
+  if (rate >= 80) return 'text-yellow-700';
+  return 'text-red-700';
+}
+
+export function SenderServices({ services }: SenderServicesProps) {
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">Versanddienste</h2>
+      <p className="text-xs text-gray-500 mb-4">
+        Compliance je erkanntem Dienst (ESP) – Fehler bei bekannten Diensten deuten meist auf fehlendes DKIM-Setup hin
+      </p>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead>
+            <tr>
+              <th className={headerClass}>Dienst</th>
+              <th className={headerClass}>Nachrichten</th>
+              <th className={headerClass}>Compliance</th>
+              <th className={headerClass}>DKIM-Fehler</th>
+              <th className={headerClass}>SPF-Fehler</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {services.map((service) => {
+              const rate = service.total > 0 ? (service.passed / service.total) * 100 : 0;
+
+              return (
+                <tr key={service.sender_service ?? 'unknown'} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-sm text-gray-900">
+                    {service.name || <span className="text-gray-500">Nicht zugeordnet</span>}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-900">
+                    {service.total.toLocaleString('de-DE')}
+                  </td>
+                  <td className={`px-4 py-3 text-sm font-medium ${rateStyle(rate)}`}>
+                    {rate.toFixed(1)}%
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700">
+                    {service.dkim_failed.toLocaleString('de-DE')}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700">
+                    {service.spf_failed.toLocaleString('de-DE')}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
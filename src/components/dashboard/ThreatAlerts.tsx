@@ -3,6 +3,7 @@ interface Threat {
   severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
   description: string;
   source_ips: string[];
+  failure_report_ids?: number[];
 }
 
 interface ThreatAlertsProps {
@@ -64,6 +65,19 @@ export function ThreatAlerts({ alerts }: ThreatAlertsProps) {
                 <div key={idx} className="text-sm">
                   <span className="font-medium text-gray-900">{threat.type}:</span>{' '}
                   <span className="text-gray-700">{threat.description}</span>
+                  {threat.failure_report_ids && threat.failure_report_ids.length > 0 && (
+                    <p className="text-xs text-gray-500">
+                      Failure-Reports:{' '}
+                      {threat.failure_report_ids.map((id, i) => (
+                        <span key={id}>
+                          {i > 0 && ', '}
+                          <a href={`#failure-report-${id}`} className="text-blue-600 hover:underline">
+                            #{id}
+                          </a>
+                        </span>
+                      ))}
+                    </p>
+                  )}
                 </div>
               ))}
               {alert.threats_detected.length > 2 && (
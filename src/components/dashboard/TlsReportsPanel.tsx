@@ -0,0 +1,83 @@
+interface TlsReportsPanelProps {
+  summary: Array<{
+    policy_domain: string;
+    policy_type: string;
+    successful_sessions: number;
+    failed_sessions: number;
+    report_count: number;
+  }>;
+  failuresByMx: Array<{
+    policy_domain: string;
+    receiving_mx_hostname: string | null;
+    result_type: string;
+    failed_sessions: number;
+  }>;
+}
+
+export function TlsReportsPanel({ summary, failuresByMx }: TlsReportsPanelProps) {
+  if (summary.length === 0) {
+    return (
+      <div className="rounded-lg border border-gray-200 bg-white p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Transportverschlüsselung (TLS-RPT)</h2>
+        <p className="text-sm text-gray-500">Keine TLS-Reports im Zeitraum.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Transportverschlüsselung (TLS-RPT)</h2>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          {summary.map((item) => {
+            const total = item.successful_sessions + item.failed_sessions;
+            const successRate = total > 0 ? (item.successful_sessions / total) * 100 : 0;
+            return (
+              <div key={`${item.policy_domain}-${item.policy_type}`}>
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-sm font-medium text-gray-900">
+                    {item.policy_domain}{' '}
+                    <span className="text-xs text-gray-500">({item.policy_type})</span>
+                  </span>
+                  <span className="text-sm text-gray-600">{successRate.toFixed(1)}%</span>
+                </div>
+                <div className="w-full bg-red-200 rounded-full h-2">
+                  <div
+                    className="bg-green-500 h-2 rounded-full transition-all"
+                    style={{ width: `${successRate}%` }}
+                  />
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  {item.successful_sessions.toLocaleString('de-DE')} erfolgreich ·{' '}
+                  {item.failed_sessions.toLocaleString('de-DE')} fehlgeschlagen ·{' '}
+                  {item.report_count} Reports
+                </p>
+              </div>
+            );
+          })}
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-600 mb-2">Fehler nach MX</h3>
+          {failuresByMx.length === 0 ? (
+            <p className="text-sm text-gray-500">Keine fehlgeschlagenen Sessions.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {failuresByMx.map((failure, idx) => (
+                <li key={idx} className="flex items-center justify-between py-2 text-sm">
+                  <div>
+                    <p className="font-mono text-gray-900">{failure.receiving_mx_hostname || 'Unbekannt'}</p>
+                    <p className="text-xs text-gray-500">{failure.result_type}</p>
+                  </div>
+                  <span className="font-medium text-red-700">
+                    {failure.failed_sessions.toLocaleString('de-DE')}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
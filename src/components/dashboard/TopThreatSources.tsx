@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { formatLocation, formatAsn, formatHostname } from '@/lib/utils/geo';
+
+interface TopThreatSourcesProps {
+  sources: Array<{
+    source_ip: string;
+    total: number;
+    country: string | null;
+    city: string | null;
+    asn: number | null;
+    as_org: string | null;
+    ptr: string | null;
+    ptr_confirmed: boolean;
+  }>;
+  networks: Array<{
+    asn: number | null;
+    as_org: string | null;
+    total: number;
+    ip_count: number;
+  }>;
+}
+
+const headerClass = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+export function TopThreatSources({ sources, networks }: TopThreatSourcesProps) {
+  const [groupBy, setGroupBy] = useState<'ip' | 'asn'>('ip');
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">
+          Top Bedrohungsquellen
+        </h2>
+        <div className="flex gap-2">
+          {(['ip', 'asn'] as const).map((g) => (
+            <button
+              key={g}
+              onClick={() => setGroupBy(g)}
+              className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${
+                groupBy === g
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {g === 'ip' ? 'Nach IP' : 'Nach Netzwerk (ASN)'}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        {groupBy === 'ip' ? (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr>
+                <th className={headerClass}>IP-Adresse</th>
+                <th className={headerClass}>Anzahl</th>
+                <th className={headerClass}>Land</th>
+                <th className={headerClass}>Netzwerk</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {sources.map((source, idx) => (
+                <tr key={idx} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-sm font-mono text-gray-900">
+                    {source.source_ip}
+                    {source.ptr && (
+                      <div className="text-xs text-gray-500">
+                        {formatHostname(source.ptr, source.ptr_confirmed)}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-900">
+                    {source.total.toLocaleString('de-DE')}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-500">
+                    {formatLocation(source.country, source.city) || 'Unbekannt'}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-500">
+                    {formatAsn(source.asn, source.as_org) || 'Unbekannt'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr>
+                <th className={headerClass}>Netzwerk</th>
+                <th className={headerClass}>Anzahl</th>
+                <th className={headerClass}>IP-Adressen</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {networks.map((network, idx) => (
+                <tr key={idx} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-sm text-gray-900">
+                    {formatAsn(network.asn, network.as_org) || 'Unbekannt'}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-900">
+                    {network.total.toLocaleString('de-DE')}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-500">
+                    {network.ip_count.toLocaleString('de-DE')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
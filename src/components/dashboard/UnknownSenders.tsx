@@ -0,0 +1,94 @@
+import Link from 'next/link';
+
+interface UnknownSendersProps {
+  authorization: {
+    authorized: number;
+    unknown: number;
+    unregistered: number;
+    unknown_dmarc_pass: number;
+    unknown_dmarc_fail: number;
+  };
+  sources: Array<{
+    source_ip: string;
+    total: number;
+    dmarc_pass: number;
+    dmarc_fail: number;
+    header_from: string;
+    sender_service_name: string | null;
+    ptr: string | null;
+  }>;
+}
+
+const headerClass = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+export function UnknownSenders({ authorization, sources }: UnknownSendersProps) {
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-lg font-semibold text-gray-900">Unbekannte Absender</h2>
+        <Link href="/dashboard/settings/authorized-senders" className="text-sm text-blue-600 hover:underline">
+          Autorisierte Absender verwalten
+        </Link>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Quellen, die nicht im Register ihrer Domain stehen – auch wenn sie DMARC bestehen
+      </p>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
+        <div className="rounded-lg bg-green-50 p-3">
+          <p className="text-xs text-green-700">Autorisiert</p>
+          <p className="text-lg font-semibold text-green-900">{authorization.authorized.toLocaleString('de-DE')}</p>
+        </div>
+        <div className="rounded-lg bg-yellow-50 p-3">
+          <p className="text-xs text-yellow-700">Unbekannt, DMARC bestanden</p>
+          <p className="text-lg font-semibold text-yellow-900">{authorization.unknown_dmarc_pass.toLocaleString('de-DE')}</p>
+        </div>
+        <div className="rounded-lg bg-red-50 p-3">
+          <p className="text-xs text-red-700">Unbekannt, DMARC fehlgeschlagen</p>
+          <p className="text-lg font-semibold text-red-900">{authorization.unknown_dmarc_fail.toLocaleString('de-DE')}</p>
+        </div>
+        <div className="rounded-lg bg-gray-50 p-3">
+          <p className="text-xs text-gray-600">Domains ohne Register</p>
+          <p className="text-lg font-semibold text-gray-900">{authorization.unregistered.toLocaleString('de-DE')}</p>
+        </div>
+      </div>
+
+      {sources.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr>
+                <th className={headerClass}>IP-Adresse</th>
+                <th className={headerClass}>Header From</th>
+                <th className={headerClass}>Nachrichten</th>
+                <th className={headerClass}>DMARC bestanden</th>
+                <th className={headerClass}>DMARC fehlgeschlagen</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {sources.map((source) => (
+                <tr
+                  key={source.source_ip}
+                  className={source.dmarc_pass > 0 ? 'bg-yellow-50 hover:bg-yellow-100' : 'hover:bg-gray-50'}
+                >
+                  <td className="px-4 py-3 text-sm font-mono text-gray-900">
+                    {source.source_ip}
+                    {(source.ptr || source.sender_service_name) && (
+                      <div className="font-sans text-xs text-gray-500">
+                        {[source.sender_service_name, source.ptr].filter(Boolean).join(' · ')}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{source.header_from}</td>
+                  <td className="px-4 py-3 text-sm text-gray-900">{source.total.toLocaleString('de-DE')}</td>
+                  <td className="px-4 py-3 text-sm text-yellow-800">{source.dmarc_pass.toLocaleString('de-DE')}</td>
+                  <td className="px-4 py-3 text-sm text-red-700">{source.dmarc_fail.toLocaleString('de-DE')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,9 +9,30 @@ import fs from 'fs';
 import type {
   DmarcReport,
   DmarcRecord,
+  DmarcAuthResult,
+  DmarcPolicyReason,
+  DmarcRecordWithDetails,
+  DmarcRecordInput,
+  DmarcRecordSenderRow,
+  DmarcRecordAuthorizationRow,
+  DmarcRecordAlignmentRow,
+  DmarcRecordSimulationRow,
+  DmarcReportFilter,
+  DmarcFailureReport,
+  TlsReport,
+  TlsReportPolicy,
+  TlsReportFailure,
+  TlsReportPolicyInput,
   AiAnalysis,
   Notification,
   ProcessingLog,
+  RejectedReport,
+  ImapSyncState,
+  IpIntel,
+  AuthorizedSender,
+  DnsCheck,
+  PolicyObservation,
+  PolicyEvent,
 } from './schema';
 
 // Singleton database instance
@@ -65,8 +86,10 @@ export function insertDmarcReport(report: Omit<DmarcReport, 'id' | 'created_at'
   const db = getDatabase();
   const stmt = db.prepare(`
     INSERT INTO dmarc_reports (
-      report_id, org_name, email, date_begin, date_end, domain, policy_published, raw_xml
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      report_id, org_name, email, date_begin, date_end, domain, policy_published, raw_xml, raw_xml_gz,
+      schema_version, generator, np, testing, discovery_method, source_account, content_hash, import_status,
+      import_heartbeat_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   const info = stmt.run(
@@ -77,12 +100,53 @@ export function insertDmarcReport(report: Omit<DmarcReport, 'id' | 'created_at'
     report.date_end,
     report.domain,
     report.policy_published,
-    report.raw_xml
+    report.raw_xml,
+    report.raw_xml_gz,
+    report.schema_version,
+    report.generator,
+    report.np,
+    report.testing,
+    report.discovery_method,
+    report.source_account,
+    report.content_hash,
+    report.import_status,
+    report.import_heartbeat_at
   );
 
   return info.lastInsertRowid as number;
 }
 
+/**
+ * Finish a streamed import: store hash and raw payload, then make the report visible for analysis
+ */
+export function completeDmarcReportImport(
+  id: number,
+  contentHash: string,
+  raw: { raw_xml: string; raw_xml_gz: Buffer | null }
+): void {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    UPDATE dmarc_reports
+    SET content_hash = ?, raw_xml = ?, raw_xml_gz = ?, import_status = 'complete', import_heartbeat_at = NULL
+    WHERE id = ?
+  `);
+  stmt.run(contentHash, raw.raw_xml, raw.raw_xml_gz, id);
+}
+
+/**
+ * Record progress of a streamed import, so other processes do not take it for an abandoned one
+ */
+export function touchDmarcReportImport(id: number): void {
+  const db = getDatabase();
+  const stmt = db.prepare('UPDATE dmarc_reports SET import_heartbeat_at = ? WHERE id = ?');
+  stmt.run(Math.floor(Date.now() / 1000), id);
+}
+
+export function deleteDmarcReport(id: number): void {
+  const db = getDatabase();
+  db.prepare('DELETE FROM dmarc_reports WHERE id = ?').run(id);
+}
+
 export function getDmarcReport(id: number): DmarcReport | undefined {
   const db = getDatabase();
   const stmt = db.prepare('SELECT * FROM dmarc_reports WHERE id = ?');
@@ -95,9 +159,185 @@ export function getDmarcReportByReportId(reportId: string): DmarcReport | undefi
   return stmt.get(reportId) as DmarcReport | undefined;
 }
 
+/**
+ * Look up a report by reporter and report ID (report IDs are only unique per reporting org)
+ */
+export function getDmarcReportByReporter(orgName: string, reportId: string): DmarcReport | undefined {
+  const db = getDatabase();
+  const stmt = db.prepare('SELECT * FROM dmarc_reports WHERE org_name = ? AND report_id = ?');
+  return stmt.get(orgName, reportId) as DmarcReport | undefined;
+}
+
+/**
+ * Insert records with their auth results and policy reasons (caller provides the transaction)
+ */
+function insertRecordInputs(reportId: number, records: DmarcRecordInput[]): void {
+  const db = getDatabase();
+
+  const recordStmt = db.prepare(`
+    INSERT INTO dmarc_records (
+      report_id, source_ip, count, disposition, dkim, spf, header_from,
+      envelope_from, dkim_domain, dkim_selector, spf_domain, country, city, sender_service,
+      authorized_sender_id, authorization, dkim_aligned_pass, spf_aligned_pass, dmarc_pass
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const authResultStmt = db.prepare(`
+    INSERT INTO dmarc_auth_results (
+      record_id, auth_type, domain, selector, result, human_result, scope, aligned
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const policyReasonStmt = db.prepare(`
+    INSERT INTO dmarc_policy_reasons (record_id, type, comment) VALUES (?, ?, ?)
+  `);
+
+  for (const { record, auth_results, policy_reasons } of records) {
+    const info = recordStmt.run(
+      reportId,
+      record.source_ip,
+      record.count,
+      record.disposition,
+      record.dkim,
+      record.spf,
+      record.header_from,
+      record.envelope_from,
+      record.dkim_domain,
+      record.dkim_selector,
+      record.spf_domain,
+      record.country,
+      record.city,
+      record.sender_service,
+      record.authorized_sender_id,
+      record.authorization,
+      record.dkim_aligned_pass,
+      record.spf_aligned_pass,
+      record.dmarc_pass
+    );
+    const recordId = info.lastInsertRowid as number;
+
+    for (const authResult of auth_results) {
+      authResultStmt.run(
+        recordId,
+        authResult.auth_type,
+        authResult.domain,
+        authResult.selector,
+        authResult.result,
+        authResult.human_result,
+        authResult.scope,
+        authResult.aligned
+      );
+    }
+
+    for (const reason of policy_reasons) {
+      policyReasonStmt.run(recordId, reason.type, reason.comment);
+    }
+  }
+}
+
+/**
+ * Insert a report with all its records, auth results and policy reasons in one transaction
+ */
+export function insertDmarcReportWithRecords(
+  report: Omit<DmarcReport, 'id' | 'created_at' | 'processed'>,
+  records: DmarcRecordInput[]
+): number {
+  const db = getDatabase();
+
+  const insertAll = db.transaction(() => {
+    const reportId = insertDmarcReport(report);
+    insertRecordInputs(reportId, records);
+    return reportId;
+  });
+
+  return insertAll();
+}
+
+/**
+ * Insert one chunk of records for an existing report in one transaction
+ */
+export function insertDmarcRecordBatch(reportId: number, records: DmarcRecordInput[]): void {
+  const db = getDatabase();
+  db.transaction(() => insertRecordInputs(reportId, records))();
+}
+
+/**
+ * Replace every record of a report (auth results and policy reasons cascade)
+ * and update the header fields derived by the parser, in one transaction
+ */
+export function replaceDmarcReportRecords(
+  id: number,
+  report: Pick<DmarcReport, 'policy_published' | 'schema_version' | 'generator' | 'np' | 'testing' | 'discovery_method' | 'content_hash'>,
+  records: DmarcRecordInput[]
+): void {
+  const db = getDatabase();
+
+  const replaceAll = db.transaction(() => {
+    db.prepare('DELETE FROM dmarc_records WHERE report_id = ?').run(id);
+    insertRecordInputs(id, records);
+    db.prepare(`
+      UPDATE dmarc_reports
+      SET policy_published = ?, schema_version = ?, generator = ?, np = ?, testing = ?,
+          discovery_method = ?, content_hash = ?
+      WHERE id = ?
+    `).run(
+      report.policy_published,
+      report.schema_version,
+      report.generator,
+      report.np,
+      report.testing,
+      report.discovery_method,
+      report.content_hash,
+      id
+    );
+  });
+
+  replaceAll();
+}
+
+/**
+ * Get the IDs of stored reports matching a filter, oldest first.
+ * Only IDs are returned so callers can load the (possibly large) raw XML one report at a time.
+ */
+export function findDmarcReportIds(filter: DmarcReportFilter): number[] {
+  const db = getDatabase();
+  const conditions = ["import_status = 'complete'"];
+  const params: Array<string | number> = [];
+
+  if (filter.ids) {
+    if (filter.ids.length === 0) {
+      return [];
+    }
+    conditions.push(`id IN (${filter.ids.map(() => '?').join(', ')})`);
+    params.push(...filter.ids);
+  }
+  if (filter.domain) {
+    conditions.push('domain = ?');
+    params.push(filter.domain);
+  }
+  if (filter.from !== undefined) {
+    conditions.push('date_begin >= ?');
+    params.push(filter.from);
+  }
+  if (filter.to !== undefined) {
+    conditions.push('date_begin <= ?');
+    params.push(filter.to);
+  }
+
+  const stmt = db.prepare(`SELECT id FROM dmarc_reports WHERE ${conditions.join(' AND ')} ORDER BY date_begin ASC, id ASC`);
+  return (stmt.all(...params) as Array<{ id: number }>).map((row) => row.id);
+}
+
+/**
+ * Get the distinct (lowercased) domains of stored reports
+ */
+export function getReportDomains(): string[] {
+  const db = getDatabase();
+  const stmt = db.prepare('SELECT DISTINCT LOWER(domain) as domain FROM dmarc_reports ORDER BY 1');
+  return (stmt.all() as Array<{ domain: string }>).map((row) => row.domain);
+}
+
 export function getUnprocessedReports(): DmarcReport[] {
   const db = getDatabase();
-  const stmt = db.prepare('SELECT * FROM dmarc_reports WHERE processed = 0 ORDER BY created_at ASC');
+  const stmt = db.prepare("SELECT * FROM dmarc_reports WHERE processed = 0 AND import_status = 'complete' ORDER BY created_at ASC");
   return stmt.all() as DmarcReport[];
 }
 
@@ -107,6 +347,15 @@ export function markReportProcessed(id: number): void {
   stmt.run(id);
 }
 
+/**
+ * Queue a report for another AI analysis run
+ */
+export function markReportUnprocessed(id: number): void {
+  const db = getDatabase();
+  const stmt = db.prepare('UPDATE dmarc_reports SET processed = 0 WHERE id = ?');
+  stmt.run(id);
+}
+
 /**
  * DMARC Records Operations
  */
@@ -116,8 +365,9 @@ export function insertDmarcRecord(record: Omit<DmarcRecord, 'id' | 'created_at'>
   const stmt = db.prepare(`
     INSERT INTO dmarc_records (
       report_id, source_ip, count, disposition, dkim, spf, header_from,
-      envelope_from, dkim_domain, dkim_selector, spf_domain, country
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      envelope_from, dkim_domain, dkim_selector, spf_domain, country, city, sender_service,
+      authorized_sender_id, authorization, dkim_aligned_pass, spf_aligned_pass, dmarc_pass
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   const info = stmt.run(
@@ -132,7 +382,14 @@ export function insertDmarcRecord(record: Omit<DmarcRecord, 'id' | 'created_at'>
     record.dkim_domain,
     record.dkim_selector,
     record.spf_domain,
-    record.country
+    record.country,
+    record.city,
+    record.sender_service,
+    record.authorized_sender_id,
+    record.authorization,
+    record.dkim_aligned_pass,
+    record.spf_aligned_pass,
+    record.dmarc_pass
   );
 
   return info.lastInsertRowid as number;
@@ -144,6 +401,476 @@ export function getDmarcRecordsByReportId(reportId: number): DmarcRecord[] {
   return stmt.all(reportId) as DmarcRecord[];
 }
 
+/**
+ * Get the distinct source IPs of stored records (only records without a country unless all is set)
+ */
+export function getRecordSourceIps(all: boolean = false): string[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`SELECT DISTINCT source_ip FROM dmarc_records ${all ? '' : 'WHERE country IS NULL'} ORDER BY source_ip`);
+  return (stmt.all() as Array<{ source_ip: string }>).map((row) => row.source_ip);
+}
+
+/**
+ * Get the distinct DKIM selectors reported for signatures of a d= domain
+ */
+export function getRecordDkimSelectors(dkimDomain: string): string[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT DISTINCT LOWER(dkim_selector) as selector FROM dmarc_records
+    WHERE LOWER(dkim_domain) = ? AND dkim_selector IS NOT NULL AND dkim_selector != ''
+    ORDER BY 1
+  `);
+  return (stmt.all(dkimDomain.toLowerCase()) as Array<{ selector: string }>).map((row) => row.selector);
+}
+
+/**
+ * Set country and city on every record of the given source IPs, in one transaction.
+ * Returns the number of updated records.
+ */
+export function updateRecordLocations(
+  locations: Array<{ source_ip: string; country: string | null; city: string | null }>,
+  all: boolean = false
+): number {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    UPDATE dmarc_records SET country = ?, city = ?
+    WHERE source_ip = ? ${all ? '' : 'AND country IS NULL'}
+  `);
+
+  const updateAll = db.transaction(() => {
+    let changes = 0;
+    for (const location of locations) {
+      changes += stmt.run(location.country, location.city, location.source_ip).changes;
+    }
+    return changes;
+  });
+
+  return updateAll();
+}
+
+/**
+ * Get what is needed to classify the sender of stored records (of one report, or all records)
+ */
+export function getRecordSenderFingerprints(reportId?: number): DmarcRecordSenderRow[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT
+      dr.id, dr.source_ip, dr.envelope_from, ii.ptr,
+      (SELECT GROUP_CONCAT(domain) FROM dmarc_auth_results WHERE record_id = dr.id AND auth_type = 'dkim') as dkim_domains,
+      (SELECT GROUP_CONCAT(domain) FROM dmarc_auth_results WHERE record_id = dr.id AND auth_type = 'spf') as spf_domains
+    FROM dmarc_records dr
+    LEFT JOIN ip_intel ii ON ii.ip = dr.source_ip
+    ${reportId === undefined ? '' : 'WHERE dr.report_id = ?'}
+  `);
+  return (reportId === undefined ? stmt.all() : stmt.all(reportId)) as DmarcRecordSenderRow[];
+}
+
+/**
+ * Set the sender service of records, in one transaction. Returns the number of changed records.
+ */
+export function updateRecordSenderServices(updates: Array<{ id: number; sender_service: string | null }>): number {
+  const db = getDatabase();
+  const stmt = db.prepare('UPDATE dmarc_records SET sender_service = ? WHERE id = ? AND sender_service IS NOT ?');
+
+  const updateAll = db.transaction(() => {
+    let changes = 0;
+    for (const update of updates) {
+      changes += stmt.run(update.sender_service, update.id, update.sender_service).changes;
+    }
+    return changes;
+  });
+
+  return updateAll();
+}
+
+/**
+ * Get what is needed to match stored records against the authorized senders
+ * (only records whose header From is the domain or one of its subdomains, if given)
+ */
+export function getRecordAuthorizationRows(filter: { domain?: string; reportId?: number } = {}): DmarcRecordAuthorizationRow[] {
+  const db = getDatabase();
+  const conditions: string[] = [];
+  const params: Array<string | number> = [];
+
+  if (filter.domain) {
+    // No LIKE, _ is a wildcard there
+    const domain = filter.domain.toLowerCase();
+    conditions.push('(LOWER(dr.header_from) = ? OR substr(LOWER(dr.header_from), -length(?)) = ?)');
+    params.push(domain, `.${domain}`, `.${domain}`);
+  }
+  if (filter.reportId !== undefined) {
+    conditions.push('dr.report_id = ?');
+    params.push(filter.reportId);
+  }
+
+  const stmt = db.prepare(`
+    SELECT
+      dr.id, dr.source_ip, dr.header_from, dr.sender_service,
+      (SELECT json_group_array(json_object('domain', domain, 'selector', selector))
+        FROM dmarc_auth_results INDEXED BY idx_dmarc_auth_results_record -- the type/result index scans every pass
+        WHERE record_id = dr.id AND auth_type = 'dkim' AND result = 'pass') as dkim_passes
+    FROM dmarc_records dr
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+  `);
+  return stmt.all(...params) as DmarcRecordAuthorizationRow[];
+}
+
+/**
+ * Set the authorization of records, in one transaction. Returns the number of changed records.
+ */
+export function updateRecordAuthorizations(
+  updates: Array<{ id: number; authorized_sender_id: number | null; authorization: string | null }>
+): number {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    UPDATE dmarc_records SET authorized_sender_id = ?, authorization = ?
+    WHERE id = ? AND (authorized_sender_id IS NOT ? OR authorization IS NOT ?)
+  `);
+
+  const updateAll = db.transaction(() => {
+    let changes = 0;
+    for (const u of updates) {
+      changes += stmt.run(u.authorized_sender_id, u.authorization, u.id, u.authorized_sender_id, u.authorization).changes;
+    }
+    return changes;
+  });
+
+  return updateAll();
+}
+
+/**
+ * Get what is needed to evaluate the alignment of stored records
+ * (only records without a result if unevaluatedOnly is set, only those of a report if given)
+ */
+export function getRecordAlignmentRows(filter: { unevaluatedOnly?: boolean; reportId?: number } = {}): DmarcRecordAlignmentRow[] {
+  const db = getDatabase();
+  const conditions: string[] = [];
+  const params: number[] = [];
+
+  if (filter.unevaluatedOnly) {
+    conditions.push('dr.dmarc_pass IS NULL');
+  }
+  if (filter.reportId !== undefined) {
+    conditions.push('dr.report_id = ?');
+    params.push(filter.reportId);
+  }
+
+  const stmt = db.prepare(`
+    SELECT
+      dr.id, dr.header_from, dr.dkim, dr.spf, r.policy_published,
+      (SELECT json_group_array(json_object('id', id, 'auth_type', auth_type, 'domain', domain, 'scope', scope, 'result', result))
+        FROM dmarc_auth_results INDEXED BY idx_dmarc_auth_results_record -- the type/result index scans every pass
+        WHERE record_id = dr.id) as auth_results
+    FROM dmarc_records dr
+    JOIN dmarc_reports r ON dr.report_id = r.id
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+  `);
+  return stmt.all(...params) as DmarcRecordAlignmentRow[];
+}
+
+/**
+ * Set the alignment results of records and their auth results, in one transaction.
+ * Returns the number of changed records.
+ */
+export function updateRecordAlignments(
+  updates: Array<{
+    id: number;
+    dkim_aligned_pass: number;
+    spf_aligned_pass: number;
+    dmarc_pass: number;
+    auth_results: Array<{ id: number; aligned: number }>;
+  }>
+): number {
+  const db = getDatabase();
+  const recordStmt = db.prepare(`
+    UPDATE dmarc_records SET dkim_aligned_pass = ?, spf_aligned_pass = ?, dmarc_pass = ?
+    WHERE id = ? AND (dkim_aligned_pass IS NOT ? OR spf_aligned_pass IS NOT ? OR dmarc_pass IS NOT ?)
+  `);
+  const authResultStmt = db.prepare('UPDATE dmarc_auth_results SET aligned = ? WHERE id = ? AND aligned IS NOT ?');
+
+  const updateAll = db.transaction(() => {
+    let changes = 0;
+    for (const u of updates) {
+      changes += recordStmt.run(
+        u.dkim_aligned_pass, u.spf_aligned_pass, u.dmarc_pass,
+        u.id, u.dkim_aligned_pass, u.spf_aligned_pass, u.dmarc_pass
+      ).changes;
+      for (const authResult of u.auth_results) {
+        authResultStmt.run(authResult.aligned, authResult.id, authResult.aligned);
+      }
+    }
+    return changes;
+  });
+
+  return updateAll();
+}
+
+/**
+ * Get the records of complete reports whose header From is the domain or one of its subdomains,
+ * with their auth results, for simulating a policy (report period starting within from/to)
+ */
+export function getRecordSimulationRows(domain: string, from: number, to: number): DmarcRecordSimulationRow[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT
+      dr.id, dr.source_ip, dr.count, dr.disposition, dr.dkim, dr.spf, dr.header_from,
+      dr.sender_service, dr.authorization, ii.ptr,
+      (SELECT json_group_array(json_object('auth_type', auth_type, 'domain', domain, 'scope', scope, 'result', result))
+        FROM dmarc_auth_results WHERE record_id = dr.id) as auth_results
+    FROM dmarc_records dr
+    JOIN dmarc_reports r ON dr.report_id = r.id
+    LEFT JOIN ip_intel ii ON ii.ip = dr.source_ip
+    WHERE r.import_status = 'complete'
+      AND r.date_begin >= ? AND r.date_begin <= ?
+      AND (LOWER(dr.header_from) = ? OR substr(LOWER(dr.header_from), -length(?)) = ?) -- no LIKE, _ is a wildcard there
+  `);
+  const suffix = `.${domain.toLowerCase()}`;
+  return stmt.all(from, to, domain.toLowerCase(), suffix, suffix) as DmarcRecordSimulationRow[];
+}
+
+/**
+ * DMARC Auth Results Operations
+ */
+
+export function getAuthResultsByReportId(reportId: number): DmarcAuthResult[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT ar.*
+    FROM dmarc_auth_results ar
+    JOIN dmarc_records dr ON ar.record_id = dr.id
+    WHERE dr.report_id = ?
+    ORDER BY ar.record_id, ar.auth_type, ar.id
+  `);
+  return stmt.all(reportId) as DmarcAuthResult[];
+}
+
+/**
+ * DMARC Policy Override Reasons Operations
+ */
+
+export function getPolicyReasonsByReportId(reportId: number): DmarcPolicyReason[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT pr.*
+    FROM dmarc_policy_reasons pr
+    JOIN dmarc_records dr ON pr.record_id = dr.id
+    WHERE dr.report_id = ?
+    ORDER BY pr.record_id, pr.id
+  `);
+  return stmt.all(reportId) as DmarcPolicyReason[];
+}
+
+/**
+ * Group child rows by their record_id
+ */
+function groupByRecordId<T extends { record_id: number }>(rows: T[]): Map<number, T[]> {
+  const grouped = new Map<number, T[]>();
+  for (const row of rows) {
+    const list = grouped.get(row.record_id) || [];
+    list.push(row);
+    grouped.set(row.record_id, list);
+  }
+  return grouped;
+}
+
+export function getDmarcRecordsWithDetails(reportId: number): DmarcRecordWithDetails[] {
+  const records = getDmarcRecordsByReportId(reportId);
+  const authResults = groupByRecordId(getAuthResultsByReportId(reportId));
+  const policyReasons = groupByRecordId(getPolicyReasonsByReportId(reportId));
+  const ipIntel = new Map(getIpIntelByReportId(reportId).map((intel) => [intel.ip, intel]));
+
+  return records.map((record) => {
+    const intel = ipIntel.get(record.source_ip);
+
+    return {
+      ...record,
+      asn: intel?.asn ?? null,
+      as_org: intel?.as_org ?? null,
+      ptr: intel?.ptr ?? null,
+      ptr_confirmed: intel?.ptr_confirmed === 1,
+      auth_results: authResults.get(record.id) || [],
+      policy_reasons: policyReasons.get(record.id) || [],
+    };
+  });
+}
+
+/**
+ * DMARC Failure Reports Operations
+ */
+
+export function insertDmarcFailureReport(report: Omit<DmarcFailureReport, 'id' | 'created_at'>): number {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO dmarc_failure_reports (
+      email_message_id, reporter, feedback_type, user_agent, auth_failure, delivery_result,
+      identity_alignment, source_ip, reported_domain, original_mail_from, original_rcpt_to,
+      arrival_date, arrival_timestamp, reporting_mta, dkim_domain, dkim_identity, dkim_selector,
+      authentication_results, original_from, original_subject, original_headers, raw_report
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const info = stmt.run(
+    report.email_message_id,
+    report.reporter,
+    report.feedback_type,
+    report.user_agent,
+    report.auth_failure,
+    report.delivery_result,
+    report.identity_alignment,
+    report.source_ip,
+    report.reported_domain,
+    report.original_mail_from,
+    report.original_rcpt_to,
+    report.arrival_date,
+    report.arrival_timestamp,
+    report.reporting_mta,
+    report.dkim_domain,
+    report.dkim_identity,
+    report.dkim_selector,
+    report.authentication_results,
+    report.original_from,
+    report.original_subject,
+    report.original_headers,
+    report.raw_report
+  );
+
+  return info.lastInsertRowid as number;
+}
+
+export function getDmarcFailureReport(id: number): DmarcFailureReport | undefined {
+  const db = getDatabase();
+  const stmt = db.prepare('SELECT * FROM dmarc_failure_reports WHERE id = ?');
+  return stmt.get(id) as DmarcFailureReport | undefined;
+}
+
+export function getFailureReportByMessageId(messageId: string): DmarcFailureReport | undefined {
+  const db = getDatabase();
+  const stmt = db.prepare('SELECT * FROM dmarc_failure_reports WHERE email_message_id = ?');
+  return stmt.get(messageId) as DmarcFailureReport | undefined;
+}
+
+/**
+ * Failure reports for a domain that arrived within an aggregate report's date range
+ */
+export function getFailureReportsForDomain(
+  domain: string,
+  dateBegin: number,
+  dateEnd: number,
+  limit: number = 20
+): DmarcFailureReport[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT * FROM dmarc_failure_reports
+    WHERE reported_domain = ?
+      AND arrival_timestamp BETWEEN ? AND ?
+    ORDER BY arrival_timestamp DESC
+    LIMIT ?
+  `);
+  return stmt.all(domain, dateBegin, dateEnd, limit) as DmarcFailureReport[];
+}
+
+/**
+ * TLS Reports Operations
+ */
+
+export function insertTlsReport(report: Omit<TlsReport, 'id' | 'created_at'>): number {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO tls_reports (
+      report_id, org_name, contact_info, date_begin, date_end, raw_json
+    ) VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  const info = stmt.run(
+    report.report_id,
+    report.org_name,
+    report.contact_info,
+    report.date_begin,
+    report.date_end,
+    report.raw_json
+  );
+
+  return info.lastInsertRowid as number;
+}
+
+export function getTlsReportByReporter(orgName: string, reportId: string): TlsReport | undefined {
+  const db = getDatabase();
+  const stmt = db.prepare('SELECT * FROM tls_reports WHERE org_name = ? AND report_id = ?');
+  return stmt.get(orgName, reportId) as TlsReport | undefined;
+}
+
+export function insertTlsReportPolicy(policy: Omit<TlsReportPolicy, 'id'>): number {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO tls_report_policies (
+      tls_report_id, policy_type, policy_domain, policy_string, mx_host,
+      successful_session_count, failure_session_count
+    ) VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const info = stmt.run(
+    policy.tls_report_id,
+    policy.policy_type,
+    policy.policy_domain,
+    policy.policy_string,
+    policy.mx_host,
+    policy.successful_session_count,
+    policy.failure_session_count
+  );
+
+  return info.lastInsertRowid as number;
+}
+
+export function insertTlsReportFailure(failure: Omit<TlsReportFailure, 'id'>): number {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO tls_report_failures (
+      policy_id, result_type, sending_mta_ip, receiving_mx_hostname, receiving_mx_helo,
+      receiving_ip, failed_session_count, additional_information, failure_reason_code
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const info = stmt.run(
+    failure.policy_id,
+    failure.result_type,
+    failure.sending_mta_ip,
+    failure.receiving_mx_hostname,
+    failure.receiving_mx_helo,
+    failure.receiving_ip,
+    failure.failed_session_count,
+    failure.additional_information,
+    failure.failure_reason_code
+  );
+
+  return info.lastInsertRowid as number;
+}
+
+/**
+ * Insert a TLS report with all its policies and failure details in one transaction
+ */
+export function insertTlsReportWithPolicies(
+  report: Omit<TlsReport, 'id' | 'created_at'>,
+  policies: TlsReportPolicyInput[]
+): number {
+  const db = getDatabase();
+
+  const insertAll = db.transaction(() => {
+    const tlsReportId = insertTlsReport(report);
+
+    for (const { policy, failures } of policies) {
+      const policyId = insertTlsReportPolicy({ ...policy, tls_report_id: tlsReportId });
+
+      for (const failure of failures) {
+        insertTlsReportFailure({ ...failure, policy_id: policyId });
+      }
+    }
+
+    return tlsReportId;
+  });
+
+  return insertAll();
+}
+
 /**
  * AI Analysis Operations
  */
@@ -155,9 +882,21 @@ export function insertAiAnalysis(analysis: Omit<AiAnalysis, 'id' | 'analyzed_at'
       report_id, compliance_status, compliance_score, threats_detected,
       threat_level, trends, recommendations, summary, model_version
     ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(report_id) DO UPDATE SET
+      compliance_status = excluded.compliance_status,
+      compliance_score = excluded.compliance_score,
+      threats_detected = excluded.threats_detected,
+      threat_level = excluded.threat_level,
+      trends = excluded.trends,
+      recommendations = excluded.recommendations,
+      summary = excluded.summary,
+      model_version = excluded.model_version,
+      analyzed_at = datetime('now')
+    RETURNING id
   `);
 
-  const info = stmt.run(
+  // A re-analysis replaces the previous result (and keeps its notifications)
+  const row = stmt.get(
     analysis.report_id,
     analysis.compliance_status,
     analysis.compliance_score,
@@ -167,9 +906,9 @@ export function insertAiAnalysis(analysis: Omit<AiAnalysis, 'id' | 'analyzed_at'
     analysis.recommendations,
     analysis.summary,
     analysis.model_version
-  );
+  ) as { id: number };
 
-  return info.lastInsertRowid as number;
+  return row.id;
 }
 
 export function getAiAnalysisByReportId(reportId: number): AiAnalysis | undefined {
@@ -226,15 +965,17 @@ export function insertProcessingLog(log: Omit<ProcessingLog, 'id' | 'processed_a
   const db = getDatabase();
   const stmt = db.prepare(`
     INSERT INTO processing_log (
-      email_uid, subject, from_address, attachment_count, status, error_message
-    ) VALUES (?, ?, ?, ?, ?, ?)
+      email_uid, source, subject, from_address, attachment_count, report_name, status, error_message
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   const info = stmt.run(
     log.email_uid,
+    log.source,
     log.subject,
     log.from_address,
     log.attachment_count,
+    log.report_name,
     log.status,
     log.error_message
   );
@@ -247,3 +988,476 @@ export function getRecentProcessingLogs(limit: number = 50): ProcessingLog[] {
   const stmt = db.prepare('SELECT * FROM processing_log ORDER BY processed_at DESC LIMIT ?');
   return stmt.all(limit) as ProcessingLog[];
 }
+
+/**
+ * Rejected Report (Quarantine) Operations
+ */
+
+export function insertRejectedReport(
+  report: Omit<RejectedReport, 'id' | 'status' | 'accepted_report_id' | 'created_at' | 'updated_at'>
+): number {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO rejected_reports (
+      kind, reason, errors, raw_payload, raw_payload_gz, org_name, report_id, domain, source_account
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const info = stmt.run(
+    report.kind,
+    report.reason,
+    report.errors,
+    report.raw_payload,
+    report.raw_payload_gz,
+    report.org_name,
+    report.report_id,
+    report.domain,
+    report.source_account
+  );
+
+  return info.lastInsertRowid as number;
+}
+
+export function getRejectedReport(id: number): RejectedReport | undefined {
+  const db = getDatabase();
+  const stmt = db.prepare('SELECT * FROM rejected_reports WHERE id = ?');
+  return stmt.get(id) as RejectedReport | undefined;
+}
+
+export function updateRejectedReportErrors(id: number, reason: string, errors: string): void {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    UPDATE rejected_reports SET reason = ?, errors = ?, updated_at = datetime('now') WHERE id = ?
+  `);
+  stmt.run(reason, errors, id);
+}
+
+export function markRejectedReportAccepted(id: number, acceptedReportId: number): void {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    UPDATE rejected_reports
+    SET status = 'accepted', accepted_report_id = ?, updated_at = datetime('now')
+    WHERE id = ?
+  `);
+  stmt.run(acceptedReportId, id);
+}
+
+/**
+ * IMAP Sync State Operations
+ */
+
+export function getImapSyncState(account: string, folder: string): ImapSyncState | undefined {
+  const db = getDatabase();
+  const stmt = db.prepare('SELECT * FROM imap_sync_state WHERE account = ? AND folder = ?');
+  return stmt.get(account, folder) as ImapSyncState | undefined;
+}
+
+export function saveImapSyncState(account: string, folder: string, uidValidity: number, lastUid: number): void {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO imap_sync_state (account, folder, uid_validity, last_uid, updated_at)
+    VALUES (?, ?, ?, ?, datetime('now'))
+    ON CONFLICT(account, folder) DO UPDATE SET
+      uid_validity = excluded.uid_validity,
+      last_uid = excluded.last_uid,
+      updated_at = excluded.updated_at
+  `);
+
+  stmt.run(account, folder, uidValidity, lastUid);
+}
+
+/**
+ * IP Intel Operations
+ */
+
+export function getIpIntel(ip: string): IpIntel | undefined {
+  const db = getDatabase();
+  const stmt = db.prepare('SELECT * FROM ip_intel WHERE ip = ?');
+  return stmt.get(ip) as IpIntel | undefined;
+}
+
+export function getIpIntelByReportId(reportId: number): IpIntel[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT ii.*
+    FROM ip_intel ii
+    WHERE ii.ip IN (SELECT source_ip FROM dmarc_records WHERE report_id = ?)
+  `);
+  return stmt.all(reportId) as IpIntel[];
+}
+
+/**
+ * Insert or refresh the ASN data of IPs, in one transaction
+ */
+export function saveIpIntelAsn(entries: Array<Pick<IpIntel, 'ip' | 'asn' | 'as_org'>>): void {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO ip_intel (ip, asn, as_org, updated_at)
+    VALUES (?, ?, ?, datetime('now'))
+    ON CONFLICT(ip) DO UPDATE SET
+      asn = excluded.asn,
+      as_org = excluded.as_org,
+      updated_at = excluded.updated_at
+  `);
+
+  db.transaction(() => {
+    for (const entry of entries) {
+      stmt.run(entry.ip, entry.asn, entry.as_org);
+    }
+  })();
+}
+
+/**
+ * Insert or refresh the reverse DNS data of IPs, in one transaction.
+ * ttl is the number of seconds until the entry expires.
+ */
+export function saveIpIntelPtr(entries: Array<{ ip: string; ptr: string | null; confirmed: boolean; ttl: number }>): void {
+  const db = getDatabase();
+  // New rows get no ASN timestamp, so a later ASN lookup is not skipped
+  const stmt = db.prepare(`
+    INSERT INTO ip_intel (ip, updated_at, ptr, ptr_confirmed, ptr_expires_at)
+    VALUES (?, NULL, ?, ?, datetime('now', ?))
+    ON CONFLICT(ip) DO UPDATE SET
+      ptr = excluded.ptr,
+      ptr_confirmed = excluded.ptr_confirmed,
+      ptr_expires_at = excluded.ptr_expires_at
+  `);
+
+  db.transaction(() => {
+    for (const entry of entries) {
+      stmt.run(entry.ip, entry.ptr, entry.confirmed ? 1 : 0, `+${Math.round(entry.ttl)} seconds`);
+    }
+  })();
+}
+
+/**
+ * Authorized Senders Operations
+ */
+
+export function getAuthorizedSenders(domain?: string): AuthorizedSender[] {
+  const db = getDatabase();
+
+  if (domain) {
+    const stmt = db.prepare('SELECT * FROM authorized_senders WHERE domain = ? ORDER BY id');
+    return stmt.all(domain) as AuthorizedSender[];
+  }
+
+  const stmt = db.prepare('SELECT * FROM authorized_senders ORDER BY domain, id');
+  return stmt.all() as AuthorizedSender[];
+}
+
+export function getAuthorizedSender(id: number): AuthorizedSender | undefined {
+  const db = getDatabase();
+  const stmt = db.prepare('SELECT * FROM authorized_senders WHERE id = ?');
+  return stmt.get(id) as AuthorizedSender | undefined;
+}
+
+export function insertAuthorizedSender(sender: Omit<AuthorizedSender, 'id' | 'created_at' | 'updated_at'>): number {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO authorized_senders (
+      domain, cidr, sender_service, dkim_domain, dkim_selector, description, owner
+    ) VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const info = stmt.run(
+    sender.domain,
+    sender.cidr,
+    sender.sender_service,
+    sender.dkim_domain,
+    sender.dkim_selector,
+    sender.description,
+    sender.owner
+  );
+
+  return info.lastInsertRowid as number;
+}
+
+export function updateAuthorizedSender(id: number, sender: Omit<AuthorizedSender, 'id' | 'created_at' | 'updated_at'>): void {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    UPDATE authorized_senders SET
+      domain = ?, cidr = ?, sender_service = ?, dkim_domain = ?, dkim_selector = ?,
+      description = ?, owner = ?, updated_at = datetime('now')
+    WHERE id = ?
+  `);
+
+  stmt.run(
+    sender.domain,
+    sender.cidr,
+    sender.sender_service,
+    sender.dkim_domain,
+    sender.dkim_selector,
+    sender.description,
+    sender.owner,
+    id
+  );
+}
+
+export function deleteAuthorizedSender(id: number): void {
+  const db = getDatabase();
+  const stmt = db.prepare('DELETE FROM authorized_senders WHERE id = ?');
+  stmt.run(id);
+}
+
+/**
+ * DNS Checks Operations
+ */
+
+export function insertDnsCheck(check: Omit<DnsCheck, 'id' | 'checked_at'>): number {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO dns_checks (
+      domain, resolver, status, dmarc_record, spf_record, spf_lookups,
+      dkim_keys, mta_sts_record, tls_rpt_record, findings
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const info = stmt.run(
+    check.domain,
+    check.resolver,
+    check.status,
+    check.dmarc_record,
+    check.spf_record,
+    check.spf_lookups,
+    check.dkim_keys,
+    check.mta_sts_record,
+    check.tls_rpt_record,
+    check.findings
+  );
+
+  return info.lastInsertRowid as number;
+}
+
+/**
+ * Get the most recent check of every domain
+ */
+export function getLatestDnsChecks(): DnsCheck[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT * FROM dns_checks
+    WHERE id IN (SELECT MAX(id) FROM dns_checks GROUP BY domain)
+    ORDER BY domain
+  `);
+  return stmt.all() as DnsCheck[];
+}
+
+/**
+ * Get the checks of a domain, newest first
+ */
+export function getDnsCheckHistory(domain: string, limit: number = 30): DnsCheck[] {
+  const db = getDatabase();
+  const stmt = db.prepare('SELECT * FROM dns_checks WHERE domain = ? ORDER BY id DESC LIMIT ?');
+  return stmt.all(domain, limit) as DnsCheck[];
+}
+
+/**
+ * Policy History Operations
+ */
+
+/**
+ * Get stored reports that have no policy observation yet, oldest first
+ */
+export function getReportsWithoutPolicyObservation(): Array<
+  Pick<DmarcReport, 'id' | 'org_name' | 'domain' | 'date_begin' | 'date_end' | 'policy_published'>
+> {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT r.id, r.org_name, r.domain, r.date_begin, r.date_end, r.policy_published
+    FROM dmarc_reports r
+    LEFT JOIN policy_observations po ON po.report_id = r.id
+    WHERE po.id IS NULL AND r.import_status = 'complete'
+    ORDER BY r.date_begin ASC, r.id ASC
+  `);
+  return stmt.all() as Array<Pick<DmarcReport, 'id' | 'org_name' | 'domain' | 'date_begin' | 'date_end' | 'policy_published'>>;
+}
+
+export function insertPolicyObservation(observation: Omit<PolicyObservation, 'id' | 'created_at'>): number {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO policy_observations (
+      domain, source, reporter, report_id, dns_check_id, observed_begin, observed_end,
+      p, sp, np, pct, adkim, aspf, testing, policy_key
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const info = stmt.run(
+    observation.domain,
+    observation.source,
+    observation.reporter,
+    observation.report_id,
+    observation.dns_check_id,
+    observation.observed_begin,
+    observation.observed_end,
+    observation.p,
+    observation.sp,
+    observation.np,
+    observation.pct,
+    observation.adkim,
+    observation.aspf,
+    observation.testing,
+    observation.policy_key
+  );
+
+  return info.lastInsertRowid as number;
+}
+
+/**
+ * Get the observation of the same reporter right before the given one
+ */
+export function getPreviousPolicyObservation(observation: PolicyObservation): PolicyObservation | undefined {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT * FROM policy_observations
+    WHERE domain = ? AND reporter = ? AND (observed_begin < ? OR (observed_begin = ? AND id < ?))
+    ORDER BY observed_begin DESC, id DESC
+    LIMIT 1
+  `);
+  return stmt.get(
+    observation.domain,
+    observation.reporter,
+    observation.observed_begin,
+    observation.observed_begin,
+    observation.id
+  ) as PolicyObservation | undefined;
+}
+
+/**
+ * Get the observations of other reporters whose period overlaps the given one, newest first
+ */
+export function getOverlappingPolicyObservations(observation: PolicyObservation): PolicyObservation[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT * FROM policy_observations
+    WHERE domain = ? AND reporter != ? AND observed_begin <= ? AND observed_end >= ? AND id != ?
+    ORDER BY observed_begin DESC, id DESC
+  `);
+  return stmt.all(
+    observation.domain,
+    observation.reporter,
+    observation.observed_end,
+    observation.observed_begin,
+    observation.id
+  ) as PolicyObservation[];
+}
+
+/**
+ * Get the observations of a domain, oldest first (only those starting at or after from, if given)
+ */
+export function getPolicyObservations(domain: string, from?: number): PolicyObservation[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT * FROM policy_observations
+    WHERE domain = ? AND observed_begin >= ?
+    ORDER BY observed_begin ASC, id ASC
+  `);
+  return stmt.all(domain, from ?? 0) as PolicyObservation[];
+}
+
+/**
+ * Get the most recent observation of every domain
+ */
+export function getLatestPolicyObservations(): PolicyObservation[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT po.* FROM policy_observations po
+    WHERE po.id = (
+      SELECT id FROM policy_observations
+      WHERE domain = po.domain
+      ORDER BY observed_begin DESC, id DESC
+      LIMIT 1
+    )
+    ORDER BY po.domain
+  `);
+  return stmt.all() as PolicyObservation[];
+}
+
+export function insertPolicyEvent(event: Omit<PolicyEvent, 'id' | 'notified_at' | 'detected_at'>): number {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO policy_events (
+      domain, type, severity, message, previous_policy, current_policy, reporters,
+      observation_id, observed_at, notify
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const info = stmt.run(
+    event.domain,
+    event.type,
+    event.severity,
+    event.message,
+    event.previous_policy,
+    event.current_policy,
+    event.reporters,
+    event.observation_id,
+    event.observed_at,
+    event.notify
+  );
+
+  return info.lastInsertRowid as number;
+}
+
+/**
+ * Check whether an event of the type between the two policies (in either order for disagreements)
+ * was detected for observations within the window around observedAt
+ */
+export function hasSimilarPolicyEvent(
+  event: Pick<PolicyEvent, 'domain' | 'type' | 'previous_policy' | 'current_policy' | 'observed_at'>,
+  windowSeconds: number
+): boolean {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT 1 FROM policy_events
+    WHERE domain = ? AND type = ? AND observed_at BETWEEN ? AND ?
+      AND ((previous_policy IS ? AND current_policy = ?)
+        OR (type = 'reporter_disagreement' AND previous_policy = ? AND current_policy IS ?))
+    LIMIT 1
+  `);
+  return stmt.get(
+    event.domain,
+    event.type,
+    event.observed_at - windowSeconds,
+    event.observed_at + windowSeconds,
+    event.previous_policy,
+    event.current_policy,
+    event.current_policy,
+    event.previous_policy
+  ) !== undefined;
+}
+
+/**
+ * Get policy events, newest first (of one domain, if given)
+ */
+export function getPolicyEvents(domain?: string, limit: number = 50): PolicyEvent[] {
+  const db = getDatabase();
+
+  if (domain) {
+    const stmt = db.prepare('SELECT * FROM policy_events WHERE domain = ? ORDER BY observed_at DESC, id DESC LIMIT ?');
+    return stmt.all(domain, limit) as PolicyEvent[];
+  }
+
+  const stmt = db.prepare('SELECT * FROM policy_events ORDER BY observed_at DESC, id DESC LIMIT ?');
+  return stmt.all(limit) as PolicyEvent[];
+}
+
+/**
+ * Get events that still have to be sent as notification, oldest first
+ */
+export function getPendingPolicyEvents(): PolicyEvent[] {
+  const db = getDatabase();
+  const stmt = db.prepare('SELECT * FROM policy_events WHERE notify = 1 AND notified_at IS NULL ORDER BY observed_at ASC, id ASC');
+  return stmt.all() as PolicyEvent[];
+}
+
+export function markPolicyEventsNotified(ids: number[]): void {
+  const db = getDatabase();
+  const stmt = db.prepare("UPDATE policy_events SET notified_at = datetime('now') WHERE id = ?");
+
+  const markAll = db.transaction(() => {
+    for (const id of ids) {
+      stmt.run(id);
+    }
+  });
+
+  markAll();
+}
@@ -12,7 +12,17 @@ export interface DmarcReport {
   date_end: number;
   domain: string;
   policy_published: string; // JSON string
-  raw_xml: string;
+  raw_xml: string; // empty when the payload is stored compressed in raw_xml_gz
+  raw_xml_gz: Buffer | null; // gzip-compressed payload of large reports
+  schema_version: string; // 'rfc7489' | 'dmarcbis'
+  generator: string | null;
+  np: string | null;
+  testing: string | null;
+  discovery_method: string | null;
+  source_account: string | null; // IMAP account the report was received on
+  content_hash: string | null; // SHA-256 of the normalized report, to detect changed re-sends
+  import_status: string; // 'importing' while records of a streamed report are written, then 'complete'
+  import_heartbeat_at: number | null; // Unix time of the last progress of a streamed import
   created_at: string;
   processed: number; // SQLite uses 0/1 for boolean
 }
@@ -30,10 +40,148 @@ export interface DmarcRecord {
   dkim_domain: string | null;
   dkim_selector: string | null;
   spf_domain: string | null;
-  country: string | null;
+  country: string | null; // ISO country code from the GeoIP database
+  city: string | null;
+  sender_service: string | null; // id of the recognized email service provider (sender catalog)
+  authorized_sender_id: number | null; // matching authorized_senders entry
+  authorization: string | null; // 'authorized' | 'unknown', null if the domain has no registry entries
+  dkim_aligned_pass: number | null; // 1 if a DKIM signature aligned with header_from passed, null if not evaluated yet
+  spf_aligned_pass: number | null; // 1 if an SPF check aligned with header_from passed
+  dmarc_pass: number | null; // 1 if either aligned mechanism passed
   created_at: string;
 }
 
+export interface DmarcAuthResult {
+  id: number;
+  record_id: number;
+  auth_type: string; // 'dkim' | 'spf'
+  domain: string;
+  selector: string | null;
+  result: string;
+  human_result: string | null;
+  scope: string | null;
+  aligned: number | null; // 1 if the domain is aligned with header_from under the published adkim/aspf
+  created_at: string;
+}
+
+export interface DmarcPolicyReason {
+  id: number;
+  record_id: number;
+  type: string; // forwarded | sampled_out | trusted_forwarder | mailing_list | local_policy | other
+  comment: string | null;
+  created_at: string;
+}
+
+export interface DmarcRecordWithDetails extends DmarcRecord {
+  asn: number | null; // from ip_intel
+  as_org: string | null;
+  ptr: string | null;
+  ptr_confirmed: boolean;
+  auth_results: DmarcAuthResult[];
+  policy_reasons: DmarcPolicyReason[];
+}
+
+/**
+ * A record with its auth results and policy reasons, as inserted together with its report
+ */
+export interface DmarcRecordInput {
+  record: Omit<DmarcRecord, 'id' | 'report_id' | 'created_at'>;
+  auth_results: Array<Omit<DmarcAuthResult, 'id' | 'record_id' | 'created_at'>>;
+  policy_reasons: Array<Omit<DmarcPolicyReason, 'id' | 'record_id' | 'created_at'>>;
+}
+
+/**
+ * Sender signals of a stored record, for (re)classifying its sender service
+ */
+export interface DmarcRecordSenderRow {
+  id: number;
+  source_ip: string;
+  envelope_from: string | null;
+  ptr: string | null; // from ip_intel
+  dkim_domains: string | null; // comma-separated d= domains of all DKIM results
+  spf_domains: string | null; // comma-separated domains of all SPF results
+}
+
+/**
+ * Selection of stored aggregate reports (all given criteria must match)
+ */
+export interface DmarcReportFilter {
+  ids?: number[];
+  domain?: string;
+  from?: number; // report period starts at or after (Unix timestamp)
+  to?: number; // report period starts at or before (Unix timestamp)
+}
+
+export interface DmarcFailureReport {
+  id: number;
+  email_message_id: string | null;
+  reporter: string;
+  feedback_type: string;
+  user_agent: string | null;
+  auth_failure: string | null;
+  delivery_result: string | null;
+  identity_alignment: string | null;
+  source_ip: string | null;
+  reported_domain: string | null;
+  original_mail_from: string | null;
+  original_rcpt_to: string | null;
+  arrival_date: string | null;
+  arrival_timestamp: number | null;
+  reporting_mta: string | null;
+  dkim_domain: string | null;
+  dkim_identity: string | null;
+  dkim_selector: string | null;
+  authentication_results: string | null;
+  original_from: string | null;
+  original_subject: string | null;
+  original_headers: string | null;
+  raw_report: string;
+  created_at: string;
+}
+
+export interface TlsReport {
+  id: number;
+  report_id: string;
+  org_name: string;
+  contact_info: string | null;
+  date_begin: number;
+  date_end: number;
+  raw_json: string;
+  created_at: string;
+}
+
+export interface TlsReportPolicy {
+  id: number;
+  tls_report_id: number;
+  policy_type: string; // 'sts' | 'tlsa' | 'no-policy-found'
+  policy_domain: string;
+  policy_string: string | null; // JSON string
+  mx_host: string | null; // JSON string
+  successful_session_count: number;
+  failure_session_count: number;
+}
+
+export interface TlsReportFailure {
+  id: number;
+  policy_id: number;
+  result_type: string;
+  sending_mta_ip: string | null;
+  receiving_mx_hostname: string | null;
+  receiving_mx_helo: string | null;
+  receiving_ip: string | null;
+  failed_session_count: number;
+  additional_information: string | null;
+  failure_reason_code: string | null;
+}
+
+/**
+ * A TLS-RPT policy with its failure details, as inserted together with its report
+ */
+export interface TlsReportPolicyInput {
+  policy: Omit<TlsReportPolicy, 'id' | 'tls_report_id'>;
+  failures: Array<Omit<TlsReportFailure, 'id' | 'policy_id'>>;
+}
+
 export interface AiAnalysis {
   id: number;
   report_id: number;
@@ -61,14 +209,171 @@ export interface Notification {
 export interface ProcessingLog {
   id: number;
   email_uid: string;
+  source: string; // 'imap' | 'maildir' | 'directory' | 'upload' | ...
   subject: string;
   from_address: string;
   attachment_count: number;
+  report_name: string | null; // attachment / archive entry the row refers to
   status: string;
   error_message: string | null;
   processed_at: string;
 }
 
+export interface RejectedReport {
+  id: number;
+  kind: string; // 'dmarc-aggregate'
+  reason: string; // 'malformed' | 'validation' | 'unowned-domain'
+  errors: string; // JSON array of error messages
+  raw_payload: string; // empty when the payload is stored compressed in raw_payload_gz
+  raw_payload_gz: Buffer | null; // gzip-compressed payload of streamed reports
+  org_name: string | null;
+  report_id: string | null;
+  domain: string | null;
+  source_account: string | null;
+  status: string; // 'quarantined' | 'accepted'
+  accepted_report_id: number | null; // dmarc_reports.id after a successful resubmit
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ImapSyncState {
+  account: string;
+  folder: string;
+  uid_validity: number;
+  last_uid: number; // highest UID that was fully processed
+  updated_at: string;
+}
+
+/**
+ * Cached enrichment data per source IP
+ */
+export interface IpIntel {
+  ip: string;
+  asn: number | null; // autonomous system number
+  as_org: string | null; // organization owning the AS
+  updated_at: string | null; // last ASN lookup, null if only the PTR was looked up
+  ptr: string | null; // reverse DNS hostname (the forward-confirmed one if any)
+  ptr_confirmed: number; // 1 if the hostname resolves back to the IP (FCrDNS)
+  ptr_expires_at: string | null; // PTR entry is looked up again after this time
+}
+
+/**
+ * A sender that is allowed to send for a domain (and its subdomains).
+ * Every criterion that is set must match; at least one is required.
+ */
+export interface AuthorizedSender {
+  id: number;
+  domain: string;
+  cidr: string | null; // IP range ("192.0.2.0/24") or single IP
+  sender_service: string | null; // id from the sender catalog
+  dkim_domain: string | null; // d= domain of a passing DKIM signature
+  dkim_selector: string | null; // selector of that signature (only with dkim_domain)
+  description: string | null;
+  owner: string | null; // responsible team or person
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Sender signals of a stored record, for matching it against the authorized senders
+ */
+export interface DmarcRecordAuthorizationRow {
+  id: number;
+  source_ip: string;
+  header_from: string;
+  sender_service: string | null;
+  dkim_passes: string; // JSON array of {domain, selector} of passing DKIM signatures
+}
+
+/**
+ * A stored record with what is needed to evaluate its alignment under the policy its report published
+ */
+export interface DmarcRecordAlignmentRow {
+  id: number;
+  header_from: string;
+  dkim: string; // policy_evaluated results, used for mechanisms without auth results
+  spf: string;
+  policy_published: string; // JSON of the report
+  auth_results: string; // JSON array of {id, auth_type, domain, scope, result}
+}
+
+/**
+ * A stored record with what the policy simulator needs to evaluate it against a candidate policy
+ */
+export interface DmarcRecordSimulationRow {
+  id: number;
+  source_ip: string;
+  count: number;
+  disposition: string;
+  dkim: string; // policy_evaluated results under the published policy
+  spf: string;
+  header_from: string;
+  sender_service: string | null;
+  authorization: string | null;
+  ptr: string | null; // from ip_intel
+  auth_results: string; // JSON array of {auth_type, domain, scope, result}
+}
+
+/**
+ * Result of a live DNS posture check of a monitored domain, one row per check run
+ */
+export interface DnsCheck {
+  id: number;
+  domain: string;
+  resolver: string; // name of the DNS resolver that answered
+  status: string; // 'ok' | 'warning' | 'critical' (most severe finding)
+  dmarc_record: string | null; // _dmarc TXT record
+  spf_record: string | null;
+  spf_lookups: number | null; // DNS lookups needed to evaluate SPF (limit 10)
+  dkim_keys: string; // JSON array of DkimKeyCheck
+  mta_sts_record: string | null; // _mta-sts TXT record
+  tls_rpt_record: string | null; // _smtp._tls TXT record
+  findings: string; // JSON array of DnsFinding
+  checked_at: string;
+}
+
+/**
+ * A DMARC policy as seen by one reporter (or our own DNS check), normalized with the RFC defaults
+ */
+export interface PolicyObservation {
+  id: number;
+  domain: string;
+  source: string; // 'report' | 'dns'
+  reporter: string; // org_name of the report, 'DNS' for DNS checks
+  report_id: number | null;
+  dns_check_id: number | null;
+  observed_begin: number; // Unix timestamp, report period or time of the DNS check
+  observed_end: number;
+  p: string;
+  sp: string; // defaults to p
+  np: string | null; // DMARCbis, not echoed by every reporter
+  pct: number; // defaults to 100
+  adkim: string; // 'r' | 's', defaults to 'r'
+  aspf: string;
+  testing: string | null;
+  policy_key: string; // compared fields, e.g. "p=reject sp=reject pct=100 adkim=s aspf=r"
+  created_at: string;
+}
+
+/**
+ * Detected policy change or disagreement between reporters
+ */
+export interface PolicyEvent {
+  id: number;
+  domain: string;
+  type: string; // 'policy_changed' | 'reporter_disagreement'
+  severity: string; // 'critical' | 'warning' | 'info'
+  message: string;
+  previous_policy: string | null; // policy_key before the change / of the other reporters
+  current_policy: string;
+  reporters: string; // JSON array of involved reporters
+  observation_id: number | null;
+  observed_at: number; // Unix timestamp of the observation that triggered the event
+  notify: number; // 1 if the event is sent as notification
+  notified_at: string | null;
+  detected_at: string;
+}
+
 /**
  * SQL schema creation statements
  */
@@ -76,7 +381,7 @@ export const SQL_SCHEMA = {
   dmarc_reports: `
     CREATE TABLE IF NOT EXISTS dmarc_reports (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
-      report_id TEXT UNIQUE NOT NULL,
+      report_id TEXT NOT NULL,
       org_name TEXT NOT NULL,
       email TEXT NOT NULL,
       date_begin INTEGER NOT NULL,
@@ -84,8 +389,19 @@ export const SQL_SCHEMA = {
       domain TEXT NOT NULL,
       policy_published TEXT NOT NULL,
       raw_xml TEXT NOT NULL,
+      raw_xml_gz BLOB,
+      schema_version TEXT NOT NULL DEFAULT 'rfc7489',
+      generator TEXT,
+      np TEXT,
+      testing TEXT,
+      discovery_method TEXT,
+      source_account TEXT,
+      content_hash TEXT,
+      import_status TEXT NOT NULL DEFAULT 'complete',
+      import_heartbeat_at INTEGER,
       created_at TEXT DEFAULT (datetime('now')),
-      processed INTEGER DEFAULT 0
+      processed INTEGER DEFAULT 0,
+      UNIQUE (org_name, report_id)
     )`,
 
   dmarc_reports_indexes: [
@@ -109,6 +425,13 @@ export const SQL_SCHEMA = {
       dkim_selector TEXT,
       spf_domain TEXT,
       country TEXT,
+      city TEXT,
+      sender_service TEXT,
+      authorized_sender_id INTEGER,
+      authorization TEXT,
+      dkim_aligned_pass INTEGER,
+      spf_aligned_pass INTEGER,
+      dmarc_pass INTEGER,
       created_at TEXT DEFAULT (datetime('now')),
       FOREIGN KEY (report_id) REFERENCES dmarc_reports(id) ON DELETE CASCADE
     )`,
@@ -119,6 +442,130 @@ export const SQL_SCHEMA = {
     'CREATE INDEX IF NOT EXISTS idx_dmarc_records_disposition ON dmarc_records(disposition)',
   ],
 
+  dmarc_auth_results: `
+    CREATE TABLE IF NOT EXISTS dmarc_auth_results (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      record_id INTEGER NOT NULL,
+      auth_type TEXT NOT NULL,
+      domain TEXT NOT NULL,
+      selector TEXT,
+      result TEXT NOT NULL,
+      human_result TEXT,
+      scope TEXT,
+      aligned INTEGER,
+      created_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (record_id) REFERENCES dmarc_records(id) ON DELETE CASCADE
+    )`,
+
+  dmarc_auth_results_indexes: [
+    'CREATE INDEX IF NOT EXISTS idx_dmarc_auth_results_record ON dmarc_auth_results(record_id)',
+    'CREATE INDEX IF NOT EXISTS idx_dmarc_auth_results_type_result ON dmarc_auth_results(auth_type, result)',
+  ],
+
+  dmarc_policy_reasons: `
+    CREATE TABLE IF NOT EXISTS dmarc_policy_reasons (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      record_id INTEGER NOT NULL,
+      type TEXT NOT NULL,
+      comment TEXT,
+      created_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (record_id) REFERENCES dmarc_records(id) ON DELETE CASCADE
+    )`,
+
+  dmarc_policy_reasons_indexes: [
+    'CREATE INDEX IF NOT EXISTS idx_dmarc_policy_reasons_record ON dmarc_policy_reasons(record_id)',
+    'CREATE INDEX IF NOT EXISTS idx_dmarc_policy_reasons_type ON dmarc_policy_reasons(type)',
+  ],
+
+  dmarc_failure_reports: `
+    CREATE TABLE IF NOT EXISTS dmarc_failure_reports (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      email_message_id TEXT UNIQUE,
+      reporter TEXT NOT NULL,
+      feedback_type TEXT NOT NULL,
+      user_agent TEXT,
+      auth_failure TEXT,
+      delivery_result TEXT,
+      identity_alignment TEXT,
+      source_ip TEXT,
+      reported_domain TEXT,
+      original_mail_from TEXT,
+      original_rcpt_to TEXT,
+      arrival_date TEXT,
+      arrival_timestamp INTEGER,
+      reporting_mta TEXT,
+      dkim_domain TEXT,
+      dkim_identity TEXT,
+      dkim_selector TEXT,
+      authentication_results TEXT,
+      original_from TEXT,
+      original_subject TEXT,
+      original_headers TEXT,
+      raw_report TEXT NOT NULL,
+      created_at TEXT DEFAULT (datetime('now'))
+    )`,
+
+  dmarc_failure_reports_indexes: [
+    'CREATE INDEX IF NOT EXISTS idx_dmarc_failure_reports_domain ON dmarc_failure_reports(reported_domain)',
+    'CREATE INDEX IF NOT EXISTS idx_dmarc_failure_reports_ip ON dmarc_failure_reports(source_ip)',
+    'CREATE INDEX IF NOT EXISTS idx_dmarc_failure_reports_arrival ON dmarc_failure_reports(arrival_timestamp)',
+  ],
+
+  tls_reports: `
+    CREATE TABLE IF NOT EXISTS tls_reports (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      report_id TEXT NOT NULL,
+      org_name TEXT NOT NULL,
+      contact_info TEXT,
+      date_begin INTEGER NOT NULL,
+      date_end INTEGER NOT NULL,
+      raw_json TEXT NOT NULL,
+      created_at TEXT DEFAULT (datetime('now')),
+      UNIQUE (org_name, report_id)
+    )`,
+
+  tls_reports_indexes: [
+    'CREATE INDEX IF NOT EXISTS idx_tls_reports_date_range ON tls_reports(date_begin, date_end)',
+  ],
+
+  tls_report_policies: `
+    CREATE TABLE IF NOT EXISTS tls_report_policies (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      tls_report_id INTEGER NOT NULL,
+      policy_type TEXT NOT NULL,
+      policy_domain TEXT NOT NULL,
+      policy_string TEXT,
+      mx_host TEXT,
+      successful_session_count INTEGER NOT NULL DEFAULT 0,
+      failure_session_count INTEGER NOT NULL DEFAULT 0,
+      FOREIGN KEY (tls_report_id) REFERENCES tls_reports(id) ON DELETE CASCADE
+    )`,
+
+  tls_report_policies_indexes: [
+    'CREATE INDEX IF NOT EXISTS idx_tls_report_policies_report ON tls_report_policies(tls_report_id)',
+    'CREATE INDEX IF NOT EXISTS idx_tls_report_policies_domain ON tls_report_policies(policy_domain)',
+  ],
+
+  tls_report_failures: `
+    CREATE TABLE IF NOT EXISTS tls_report_failures (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      policy_id INTEGER NOT NULL,
+      result_type TEXT NOT NULL,
+      sending_mta_ip TEXT,
+      receiving_mx_hostname TEXT,
+      receiving_mx_helo TEXT,
+      receiving_ip TEXT,
+      failed_session_count INTEGER NOT NULL DEFAULT 0,
+      additional_information TEXT,
+      failure_reason_code TEXT,
+      FOREIGN KEY (policy_id) REFERENCES tls_report_policies(id) ON DELETE CASCADE
+    )`,
+
+  tls_report_failures_indexes: [
+    'CREATE INDEX IF NOT EXISTS idx_tls_report_failures_policy ON tls_report_failures(policy_id)',
+    'CREATE INDEX IF NOT EXISTS idx_tls_report_failures_mx ON tls_report_failures(receiving_mx_hostname)',
+  ],
+
   ai_analysis: `
     CREATE TABLE IF NOT EXISTS ai_analysis (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -161,9 +608,11 @@ export const SQL_SCHEMA = {
     CREATE TABLE IF NOT EXISTS processing_log (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       email_uid TEXT NOT NULL,
+      source TEXT NOT NULL DEFAULT 'imap',
       subject TEXT NOT NULL,
       from_address TEXT NOT NULL,
       attachment_count INTEGER NOT NULL,
+      report_name TEXT,
       status TEXT NOT NULL,
       error_message TEXT,
       processed_at TEXT DEFAULT (datetime('now'))
@@ -173,4 +622,173 @@ export const SQL_SCHEMA = {
     'CREATE INDEX IF NOT EXISTS idx_processing_log_status ON processing_log(status)',
     'CREATE INDEX IF NOT EXISTS idx_processing_log_date ON processing_log(processed_at)',
   ],
+
+  rejected_reports: `
+    CREATE TABLE IF NOT EXISTS rejected_reports (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      kind TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      errors TEXT NOT NULL,
+      raw_payload TEXT NOT NULL,
+      raw_payload_gz BLOB,
+      org_name TEXT,
+      report_id TEXT,
+      domain TEXT,
+      source_account TEXT,
+      status TEXT NOT NULL DEFAULT 'quarantined',
+      accepted_report_id INTEGER,
+      created_at TEXT DEFAULT (datetime('now')),
+      updated_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (accepted_report_id) REFERENCES dmarc_reports(id) ON DELETE SET NULL
+    )`,
+
+  rejected_reports_indexes: [
+    'CREATE INDEX IF NOT EXISTS idx_rejected_reports_status ON rejected_reports(status)',
+    'CREATE INDEX IF NOT EXISTS idx_rejected_reports_created ON rejected_reports(created_at)',
+  ],
+
+  imap_sync_state: `
+    CREATE TABLE IF NOT EXISTS imap_sync_state (
+      account TEXT NOT NULL,
+      folder TEXT NOT NULL,
+      uid_validity INTEGER NOT NULL,
+      last_uid INTEGER NOT NULL DEFAULT 0,
+      updated_at TEXT DEFAULT (datetime('now')),
+      PRIMARY KEY (account, folder)
+    )`,
+
+  ip_intel: `
+    CREATE TABLE IF NOT EXISTS ip_intel (
+      ip TEXT PRIMARY KEY,
+      asn INTEGER,
+      as_org TEXT,
+      updated_at TEXT DEFAULT (datetime('now')),
+      ptr TEXT,
+      ptr_confirmed INTEGER NOT NULL DEFAULT 0,
+      ptr_expires_at TEXT
+    )`,
+
+  ip_intel_indexes: [
+    'CREATE INDEX IF NOT EXISTS idx_ip_intel_asn ON ip_intel(asn)',
+  ],
+
+  authorized_senders: `
+    CREATE TABLE IF NOT EXISTS authorized_senders (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      domain TEXT NOT NULL,
+      cidr TEXT,
+      sender_service TEXT,
+      dkim_domain TEXT,
+      dkim_selector TEXT,
+      description TEXT,
+      owner TEXT,
+      created_at TEXT DEFAULT (datetime('now')),
+      updated_at TEXT DEFAULT (datetime('now'))
+    )`,
+
+  authorized_senders_indexes: [
+    'CREATE INDEX IF NOT EXISTS idx_authorized_senders_domain ON authorized_senders(domain)',
+  ],
+
+  dns_checks: `
+    CREATE TABLE IF NOT EXISTS dns_checks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      domain TEXT NOT NULL,
+      resolver TEXT NOT NULL,
+      status TEXT NOT NULL,
+      dmarc_record TEXT,
+      spf_record TEXT,
+      spf_lookups INTEGER,
+      dkim_keys TEXT NOT NULL DEFAULT '[]',
+      mta_sts_record TEXT,
+      tls_rpt_record TEXT,
+      findings TEXT NOT NULL DEFAULT '[]',
+      checked_at TEXT DEFAULT (datetime('now'))
+    )`,
+
+  dns_checks_indexes: [
+    'CREATE INDEX IF NOT EXISTS idx_dns_checks_domain ON dns_checks(domain, checked_at)',
+  ],
+
+  policy_observations: `
+    CREATE TABLE IF NOT EXISTS policy_observations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      domain TEXT NOT NULL,
+      source TEXT NOT NULL,
+      reporter TEXT NOT NULL,
+      report_id INTEGER UNIQUE,
+      dns_check_id INTEGER UNIQUE,
+      observed_begin INTEGER NOT NULL,
+      observed_end INTEGER NOT NULL,
+      p TEXT NOT NULL,
+      sp TEXT NOT NULL,
+      np TEXT,
+      pct INTEGER NOT NULL,
+      adkim TEXT NOT NULL,
+      aspf TEXT NOT NULL,
+      testing TEXT,
+      policy_key TEXT NOT NULL,
+      created_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (report_id) REFERENCES dmarc_reports(id) ON DELETE CASCADE,
+      FOREIGN KEY (dns_check_id) REFERENCES dns_checks(id) ON DELETE CASCADE
+    )`,
+
+  policy_observations_indexes: [
+    'CREATE INDEX IF NOT EXISTS idx_policy_observations_domain ON policy_observations(domain, observed_begin)',
+    'CREATE INDEX IF NOT EXISTS idx_policy_observations_reporter ON policy_observations(domain, reporter, observed_begin)',
+  ],
+
+  policy_events: `
+    CREATE TABLE IF NOT EXISTS policy_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      domain TEXT NOT NULL,
+      type TEXT NOT NULL,
+      severity TEXT NOT NULL,
+      message TEXT NOT NULL,
+      previous_policy TEXT,
+      current_policy TEXT NOT NULL,
+      reporters TEXT NOT NULL DEFAULT '[]',
+      observation_id INTEGER,
+      observed_at INTEGER NOT NULL,
+      notify INTEGER NOT NULL DEFAULT 0,
+      notified_at TEXT,
+      detected_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (observation_id) REFERENCES policy_observations(id) ON DELETE SET NULL
+    )`,
+
+  policy_events_indexes: [
+    'CREATE INDEX IF NOT EXISTS idx_policy_events_domain ON policy_events(domain, observed_at)',
+    'CREATE INDEX IF NOT EXISTS idx_policy_events_pending ON policy_events(notify, notified_at)',
+  ],
 };
+
+/**
+ * Columns added after the initial schema.
+ * Applied by init-db to databases created before the column existed.
+ */
+export const SQL_MIGRATIONS: Array<{ table: string; column: string; definition: string }> = [
+  { table: 'dmarc_reports', column: 'schema_version', definition: "TEXT NOT NULL DEFAULT 'rfc7489'" },
+  { table: 'dmarc_reports', column: 'generator', definition: 'TEXT' },
+  { table: 'dmarc_reports', column: 'np', definition: 'TEXT' },
+  { table: 'dmarc_reports', column: 'testing', definition: 'TEXT' },
+  { table: 'dmarc_reports', column: 'discovery_method', definition: 'TEXT' },
+  { table: 'processing_log', column: 'report_name', definition: 'TEXT' },
+  { table: 'processing_log', column: 'source', definition: "TEXT NOT NULL DEFAULT 'imap'" },
+  { table: 'dmarc_reports', column: 'source_account', definition: 'TEXT' },
+  { table: 'dmarc_reports', column: 'content_hash', definition: 'TEXT' },
+  { table: 'dmarc_reports', column: 'raw_xml_gz', definition: 'BLOB' },
+  { table: 'dmarc_reports', column: 'import_status', definition: "TEXT NOT NULL DEFAULT 'complete'" },
+  { table: 'dmarc_records', column: 'city', definition: 'TEXT' },
+  { table: 'dmarc_records', column: 'sender_service', definition: 'TEXT' },
+  { table: 'dmarc_records', column: 'authorized_sender_id', definition: 'INTEGER' },
+  { table: 'dmarc_records', column: 'authorization', definition: 'TEXT' },
+  { table: 'ip_intel', column: 'ptr', definition: 'TEXT' },
+  { table: 'ip_intel', column: 'ptr_confirmed', definition: 'INTEGER NOT NULL DEFAULT 0' },
+  { table: 'ip_intel', column: 'ptr_expires_at', definition: 'TEXT' },
+  { table: 'dmarc_records', column: 'dkim_aligned_pass', definition: 'INTEGER' },
+  { table: 'dmarc_records', column: 'spf_aligned_pass', definition: 'INTEGER' },
+  { table: 'dmarc_records', column: 'dmarc_pass', definition: 'INTEGER' },
+  { table: 'dmarc_auth_results', column: 'aligned', definition: 'INTEGER' },
+  { table: 'rejected_reports', column: 'raw_payload_gz', definition: 'BLOB' },
+  { table: 'dmarc_reports', column: 'import_heartbeat_at', definition: 'INTEGER' },
+];
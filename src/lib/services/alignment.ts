@@ -0,0 +1,168 @@
+/**
+ * DMARC Identifier Alignment
+ * Alignment of DKIM and SPF domains with the header From domain (RFC 7489 3.1),
+ * with organizational domains from the Public Suffix List
+ */
+
+import { domainToASCII } from 'url';
+import { getRecordAlignmentRows, updateRecordAlignments } from '../db/client';
+import { getPublicSuffix } from './public-suffix';
+import { logger } from '../utils/logger';
+import type { DmarcRecordInput } from '../db/schema';
+
+export type AlignmentMode = 'r' | 's';
+
+export interface AlignmentModes {
+  adkim: AlignmentMode;
+  aspf: AlignmentMode;
+}
+
+/**
+ * Alignment of one record: per auth result whether its domain is aligned, and whether an
+ * aligned DKIM / SPF result passed
+ */
+export interface RecordAlignment {
+  aligned: boolean[]; // in the order of the given auth results
+  dkim_aligned_pass: boolean;
+  spf_aligned_pass: boolean;
+  dmarc_pass: boolean;
+}
+
+function normalizeDomain(domain: string): string {
+  const name = domain.trim().toLowerCase().replace(/\.$/, '');
+  return domainToASCII(name) || name;
+}
+
+/**
+ * Alignment mode of a published adkim= / aspf= value (relaxed unless strict)
+ */
+export function toAlignmentMode(value: unknown): AlignmentMode {
+  return String(value ?? '').trim().toLowerCase() === 's' ? 's' : 'r';
+}
+
+/**
+ * Organizational domain of a domain name: its public suffix plus one label.
+ * A public suffix itself is returned unchanged.
+ */
+export function getOrganizationalDomain(domain: string): string {
+  const name = normalizeDomain(domain);
+  const suffix = getPublicSuffix(name);
+
+  if (name === suffix) {
+    return name;
+  }
+
+  const labels = name.slice(0, -suffix.length - 1).split('.');
+  return `${labels[labels.length - 1]}.${suffix}`;
+}
+
+/**
+ * Is an authenticated domain aligned with the header From domain?
+ * Strict: the same domain; relaxed: the same organizational domain.
+ */
+export function isAligned(headerFrom: string, authDomain: string, mode: AlignmentMode): boolean {
+  const from = normalizeDomain(headerFrom);
+  const auth = normalizeDomain(authDomain);
+
+  if (!from || !auth) {
+    return false;
+  }
+
+  if (mode === 's') {
+    return from === auth;
+  }
+
+  return getOrganizationalDomain(from) === getOrganizationalDomain(auth);
+}
+
+/**
+ * SPF results for the HELO identity do not take part in DMARC, only MAIL FROM is aligned (RFC 7489 3.1.2)
+ */
+function isHeloResult(auth: { auth_type: string; scope?: string | null }): boolean {
+  return auth.auth_type === 'spf' && auth.scope?.trim().toLowerCase() === 'helo';
+}
+
+/**
+ * Evaluate the alignment of a record's auth results. A mechanism without any reported
+ * result falls back to the receiver's evaluation (policy_evaluated).
+ */
+export function evaluateAlignment(
+  headerFrom: string,
+  authResults: Array<{ auth_type: string; domain: string | null; scope?: string | null; result: string }>,
+  modes: AlignmentModes,
+  evaluated: { dkim: string; spf: string }
+): RecordAlignment {
+  const aligned = authResults.map((auth) => {
+    if (!auth.domain || (auth.auth_type !== 'dkim' && auth.auth_type !== 'spf') || isHeloResult(auth)) {
+      return false;
+    }
+    return isAligned(headerFrom, auth.domain, auth.auth_type === 'dkim' ? modes.adkim : modes.aspf);
+  });
+
+  const alignedPass = (type: 'dkim' | 'spf') => {
+    if (!authResults.some((auth) => auth.auth_type === type && !isHeloResult(auth))) {
+      return evaluated[type] === 'pass';
+    }
+    return authResults.some((auth, i) => auth.auth_type === type && auth.result === 'pass' && aligned[i]);
+  };
+
+  const dkimAlignedPass = alignedPass('dkim');
+  const spfAlignedPass = alignedPass('spf');
+
+  return {
+    aligned,
+    dkim_aligned_pass: dkimAlignedPass,
+    spf_aligned_pass: spfAlignedPass,
+    dmarc_pass: dkimAlignedPass || spfAlignedPass,
+  };
+}
+
+/**
+ * Set the alignment results of a parsed record and its auth results
+ */
+export function alignRecordInput(input: DmarcRecordInput, modes: AlignmentModes): void {
+  const alignment = evaluateAlignment(input.record.header_from, input.auth_results, modes, input.record);
+
+  input.auth_results.forEach((authResult, i) => {
+    authResult.aligned = alignment.aligned[i] ? 1 : 0;
+  });
+  input.record.dkim_aligned_pass = alignment.dkim_aligned_pass ? 1 : 0;
+  input.record.spf_aligned_pass = alignment.spf_aligned_pass ? 1 : 0;
+  input.record.dmarc_pass = alignment.dmarc_pass ? 1 : 0;
+}
+
+/**
+ * Evaluate the alignment of stored records under the policy their report published
+ * (only records that were not evaluated yet unless all is set, e.g. after a Public Suffix List update).
+ * Returns the number of evaluated and changed records.
+ */
+export function evaluateStoredAlignment(options: { all?: boolean; reportId?: number } = {}): { records: number; changed: number } {
+  const rows = getRecordAlignmentRows({ unevaluatedOnly: !options.all, reportId: options.reportId });
+
+  const updates = rows.map((row) => {
+    const policy = JSON.parse(row.policy_published);
+    const authResults: Array<{ id: number; auth_type: string; domain: string; scope: string | null; result: string }> = JSON.parse(row.auth_results);
+    const alignment = evaluateAlignment(
+      row.header_from,
+      authResults,
+      { adkim: toAlignmentMode(policy.adkim), aspf: toAlignmentMode(policy.aspf) },
+      { dkim: row.dkim, spf: row.spf }
+    );
+
+    return {
+      id: row.id,
+      dkim_aligned_pass: alignment.dkim_aligned_pass ? 1 : 0,
+      spf_aligned_pass: alignment.spf_aligned_pass ? 1 : 0,
+      dmarc_pass: alignment.dmarc_pass ? 1 : 0,
+      auth_results: authResults.map((auth, i) => ({ id: auth.id, aligned: alignment.aligned[i] ? 1 : 0 })),
+    };
+  });
+
+  const changed = updateRecordAlignments(updates);
+
+  if (rows.length > 0) {
+    logger.info(`Alignment: ${rows.length} record(s) evaluated, ${changed} changed`);
+  }
+
+  return { records: rows.length, changed };
+}
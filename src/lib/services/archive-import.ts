@@ -0,0 +1,213 @@
+/**
+ * Archive Import Service
+ * Bulk-imports historical report emails from mbox files and folders of .eml files
+ */
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { simpleParser } from 'mailparser';
+import { processParsedEmail } from './report-ingest';
+import { insertProcessingLog, markReportProcessed } from '../db/client';
+import { logger } from '../utils/logger';
+
+export type ArchiveFileType = 'mbox' | 'eml';
+
+export interface ArchiveFile {
+  path: string;
+  type: ArchiveFileType;
+}
+
+export interface ArchiveImportOptions {
+  markProcessed?: boolean; // mark inserted reports as analyzed, so the scheduler does not analyze them
+}
+
+export interface ArchiveImportSummary {
+  files: number;
+  messages: number;
+  inserted: number;
+  duplicate: number;
+  invalid: number;
+  skipped: number; // messages without attachments
+  failed: number; // messages that could not be read
+}
+
+const PROGRESS_INTERVAL = 100; // messages
+
+/**
+ * Detect whether a file is an mbox (starts with a "From " line) or a single .eml message
+ */
+function detectArchiveFileType(filePath: string): ArchiveFileType | null {
+  const fd = fs.openSync(filePath, 'r');
+  const head = Buffer.alloc(5);
+  const bytesRead = fs.readSync(fd, head, 0, 5, 0);
+  fs.closeSync(fd);
+
+  if (bytesRead === 5 && head.toString('latin1') === 'From ') {
+    return 'mbox';
+  }
+
+  const lowerName = filePath.toLowerCase();
+  if (lowerName.endsWith('.eml')) return 'eml';
+  if (lowerName.endsWith('.mbox') || lowerName.endsWith('.mbx')) return 'mbox';
+
+  return null;
+}
+
+/**
+ * Collect mbox and .eml files from files and (recursively) directories, in name order
+ */
+export function findArchiveFiles(paths: string[]): ArchiveFile[] {
+  const files: ArchiveFile[] = [];
+
+  const visit = (entryPath: string) => {
+    const stat = fs.statSync(entryPath);
+
+    if (stat.isDirectory()) {
+      for (const name of fs.readdirSync(entryPath).sort()) {
+        if (!name.startsWith('.')) {
+          visit(path.join(entryPath, name));
+        }
+      }
+      return;
+    }
+
+    if (!stat.isFile() || stat.size === 0) {
+      return;
+    }
+
+    const type = detectArchiveFileType(entryPath);
+    if (type) {
+      files.push({ path: entryPath, type });
+    } else {
+      logger.warn(`Skipping ${entryPath}: neither mbox nor .eml`);
+    }
+  };
+
+  for (const entryPath of paths) {
+    visit(entryPath);
+  }
+
+  return files;
+}
+
+/**
+ * Read the messages of an mbox file one at a time.
+ * Messages start at a "From " line after a blank line; ">From " escapes (mboxrd) are undone.
+ */
+export async function* readMbox(filePath: string): AsyncGenerator<Buffer> {
+  // latin1 maps every byte to one character, so message bytes survive unchanged
+  const lines = readline.createInterface({
+    input: fs.createReadStream(filePath, { encoding: 'latin1' }),
+    crlfDelay: Infinity,
+  });
+
+  let message: string[] | null = null;
+  let previousBlank = true;
+
+  for await (const line of lines) {
+    if (previousBlank && line.startsWith('From ')) {
+      if (message) {
+        yield Buffer.from(message.join('\n'), 'latin1');
+      }
+      message = [];
+      previousBlank = false;
+      continue;
+    }
+
+    if (message) {
+      message.push(/^>+From /.test(line) ? line.slice(1) : line);
+    }
+    previousBlank = line === '';
+  }
+
+  if (message) {
+    yield Buffer.from(message.join('\n'), 'latin1');
+  }
+}
+
+/**
+ * Iterate the messages of an archive file
+ */
+async function* readArchiveFile(file: ArchiveFile): AsyncGenerator<Buffer> {
+  if (file.type === 'eml') {
+    yield fs.readFileSync(file.path);
+    return;
+  }
+
+  yield* readMbox(file.path);
+}
+
+/**
+ * Import every message of the given mbox files and .eml folders through the regular
+ * attachment extraction and parsing. Already stored reports are counted as duplicates.
+ */
+export async function importArchives(
+  paths: string[],
+  options: ArchiveImportOptions = {}
+): Promise<ArchiveImportSummary> {
+  const files = findArchiveFiles(paths);
+  const summary: ArchiveImportSummary = {
+    files: files.length,
+    messages: 0,
+    inserted: 0,
+    duplicate: 0,
+    invalid: 0,
+    skipped: 0,
+    failed: 0,
+  };
+
+  logger.info(`Found ${files.length} archive file(s)`);
+
+  for (const [fileIndex, file] of files.entries()) {
+    logger.info(`[${fileIndex + 1}/${files.length}] Importing ${file.path} (${file.type})`);
+
+    let messageIndex = 0;
+
+    for await (const content of readArchiveFile(file)) {
+      messageIndex++;
+      summary.messages++;
+
+      const emailUid = file.type === 'eml' ? path.basename(file.path) : `${path.basename(file.path)}#${messageIndex}`;
+
+      try {
+        const parsed = await simpleParser(content);
+        const results = await processParsedEmail(parsed, emailUid, 'archive');
+
+        if (results.length === 0) {
+          summary.skipped++;
+        }
+
+        for (const result of results) {
+          summary[result.status]++;
+
+          if (options.markProcessed && result.status === 'inserted' && result.kind === 'dmarc-aggregate' && result.report_id !== null) {
+            markReportProcessed(result.report_id);
+          }
+        }
+      } catch (error) {
+        summary.failed++;
+        logger.error(`Error importing message ${emailUid}:`, error);
+        insertProcessingLog({
+          email_uid: emailUid,
+          source: 'archive',
+          subject: 'Unknown',
+          from_address: 'Unknown',
+          attachment_count: 0,
+          report_name: null,
+          status: 'FAILED',
+          error_message: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      if (summary.messages % PROGRESS_INTERVAL === 0) {
+        logger.info(
+          `Progress: ${summary.messages} messages, ${summary.inserted} inserted, ` +
+          `${summary.duplicate} duplicate, ${summary.invalid} invalid`
+        );
+      }
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,304 @@
+/**
+ * Attachment Extractor Service
+ * Detects report payloads by content and unpacks (nested) GZ/ZIP archives
+ */
+
+import AdmZip from 'adm-zip';
+import { Readable, Transform, PassThrough, pipeline } from 'stream';
+import { gunzipSync, inflateRawSync, createGunzip, createInflateRaw, constants } from 'zlib';
+import { STREAMING_THRESHOLD } from './dmarc-stream-parser';
+import { logger } from '../utils/logger';
+
+// Decompression bomb protection
+const MAX_NESTING_DEPTH = 3;
+const MAX_DECOMPRESSED_SIZE = 50 * 1024 * 1024; // per decompressed entry
+const MAX_TOTAL_DECOMPRESSED_SIZE = 200 * 1024 * 1024; // per attachment
+const MAX_COMPRESSION_RATIO = 100;
+const MAX_ARCHIVE_ENTRIES = 100;
+
+// Large DMARC reports are decompressed while they are parsed and never held in memory
+const MAX_STREAMED_SIZE = 1024 * 1024 * 1024; // per streamed report
+const PEEK_SIZE = 1024; // compressed bytes decompressed to sniff the content
+
+// ZIP compression methods that can be streamed
+const ZIP_STORED = 0;
+const ZIP_DEFLATED = 8;
+
+export type ReportFormat = 'dmarc-xml' | 'tlsrpt-json';
+
+type PayloadType = 'gzip' | 'zip' | 'xml' | 'json';
+
+export interface ExtractedReport {
+  name: string; // attachment name, with archive entry path for archive contents
+  format: ReportFormat;
+  content: Buffer | null; // UTF-8 payload without BOM; decoded by the parser so large reports can be streamed
+  stream: (() => Readable) | null; // decompresses a large archived DMARC report while it is read (content is null then)
+}
+
+export interface ExtractionResult {
+  reports: ExtractedReport[];
+  errors: Array<{ name: string; error: string }>;
+}
+
+const MIME_TYPES: Record<string, PayloadType> = {
+  'application/gzip': 'gzip',
+  'application/x-gzip': 'gzip',
+  'application/tlsrpt+gzip': 'gzip',
+  'application/zip': 'zip',
+  'application/x-zip-compressed': 'zip',
+  'application/xml': 'xml',
+  'text/xml': 'xml',
+  'application/json': 'json',
+  'application/tlsrpt+json': 'json',
+};
+
+/**
+ * Sniff the payload type from magic bytes, falling back to the MIME type and filename
+ */
+function detectPayloadType(content: Buffer, name: string, contentType?: string): PayloadType | null {
+  // GZIP: 1f 8b
+  if (content.length >= 2 && content[0] === 0x1f && content[1] === 0x8b) {
+    return 'gzip';
+  }
+
+  // ZIP: PK\x03\x04 (or PK\x05\x06 for an empty archive)
+  if (content.length >= 4 && content[0] === 0x50 && content[1] === 0x4b &&
+      ((content[2] === 0x03 && content[3] === 0x04) || (content[2] === 0x05 && content[3] === 0x06))) {
+    return 'zip';
+  }
+
+  // Text payloads: skip UTF-8 BOM and leading whitespace
+  const head = content.subarray(0, 512).toString('utf-8').replace(/^\uFEFF/, '').trimStart();
+  if (head.startsWith('<')) {
+    return 'xml';
+  }
+  if (head.startsWith('{')) {
+    return 'json';
+  }
+
+  const mimeType = contentType ? MIME_TYPES[contentType.toLowerCase()] : undefined;
+  if (mimeType) {
+    logger.debug(`Could not sniff ${name}, trusting MIME type ${contentType}`);
+    return mimeType;
+  }
+
+  const lowerName = name.toLowerCase();
+  if (lowerName.endsWith('.gz')) return 'gzip';
+  if (lowerName.endsWith('.zip')) return 'zip';
+
+  return null;
+}
+
+/**
+ * Check a decompressed size against the absolute and ratio limits
+ */
+function assertSizeLimits(name: string, compressedSize: number, decompressedSize: number): void {
+  if (decompressedSize > MAX_DECOMPRESSED_SIZE) {
+    throw new Error(`${name} exceeds maximum decompressed size (${decompressedSize} bytes)`);
+  }
+
+  if (compressedSize > 0 && decompressedSize / compressedSize > MAX_COMPRESSION_RATIO) {
+    throw new Error(`${name} exceeds maximum compression ratio (${Math.round(decompressedSize / compressedSize)}:1)`);
+  }
+}
+
+/**
+ * Decompress the beginning of a compressed payload to sniff its content
+ */
+function peekDecompressed(content: Buffer, inflate: typeof gunzipSync): Buffer {
+  try {
+    return inflate(content.subarray(0, PEEK_SIZE), { finishFlush: constants.Z_SYNC_FLUSH });
+  } catch {
+    return Buffer.alloc(0);
+  }
+}
+
+/**
+ * Fail a decompression stream once it exceeds the size limit
+ */
+function limitSize(name: string, maxSize: number): Transform {
+  let size = 0;
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      if (size > maxSize) {
+        callback(new Error(`${name} exceeds maximum decompressed size`));
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+}
+
+/**
+ * A large DMARC report that is decompressed from its archive while it is parsed.
+ * Compression ratio and size limits are checked on the fly.
+ */
+function streamedReport(name: string, compressed: Buffer, createDecompressor: () => Transform): ExtractedReport {
+  const maxSize = Math.min(MAX_STREAMED_SIZE, compressed.length * MAX_COMPRESSION_RATIO);
+
+  return {
+    name,
+    format: 'dmarc-xml',
+    content: null,
+    stream: () => {
+      const source = createDecompressor();
+      source.end(compressed);
+      // pipeline destroys the returned stream with the error of any stage
+      return pipeline(source, limitSize(name, maxSize), () => {});
+    },
+  };
+}
+
+/**
+ * Recursively unpack a payload and collect every report it contains
+ */
+function extractPayload(
+  content: Buffer,
+  name: string,
+  contentType: string | undefined,
+  depth: number,
+  result: ExtractionResult,
+  budget: { remaining: number }
+): void {
+  const payloadType = detectPayloadType(content, name, contentType);
+
+  if (payloadType === 'xml' || payloadType === 'json') {
+    const hasBom = content.length >= 3 && content[0] === 0xef && content[1] === 0xbb && content[2] === 0xbf;
+    result.reports.push({
+      name,
+      format: payloadType === 'xml' ? 'dmarc-xml' : 'tlsrpt-json',
+      content: hasBom ? content.subarray(3) : content,
+      stream: null,
+    });
+    return;
+  }
+
+  if (payloadType === null) {
+    // Unrelated top-level attachments (logos, signatures) are not errors
+    if (depth === 0) {
+      logger.warn(`Unknown attachment format: ${name}`);
+    } else {
+      result.errors.push({ name, error: 'Unknown attachment format' });
+    }
+    return;
+  }
+
+  if (depth >= MAX_NESTING_DEPTH) {
+    result.errors.push({ name, error: `Archive nesting deeper than ${MAX_NESTING_DEPTH} levels` });
+    return;
+  }
+
+  if (payloadType === 'gzip') {
+    logger.debug(`Extracting GZ payload: ${name}`);
+    const innerName = name.toLowerCase().endsWith('.gz') ? name.slice(0, -3) : name;
+
+    // The last four bytes declare the decompressed size (modulo 2^32), the limits are checked while streaming
+    const declaredSize = content.length >= 4 ? content.readUInt32LE(content.length - 4) : 0;
+    if (declaredSize > STREAMING_THRESHOLD && detectPayloadType(peekDecompressed(content, gunzipSync), innerName) === 'xml') {
+      result.reports.push(streamedReport(innerName, content, () => createGunzip()));
+      return;
+    }
+
+    const maxOutputLength = Math.min(MAX_DECOMPRESSED_SIZE, budget.remaining) + 1;
+
+    let decompressed: Buffer;
+    try {
+      decompressed = gunzipSync(content, { maxOutputLength });
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      const message = code === 'ERR_BUFFER_TOO_LARGE'
+        ? `${name} exceeds maximum decompressed size`
+        : `Invalid GZ data in ${name}: ${error instanceof Error ? error.message : String(error)}`;
+      result.errors.push({ name, error: message });
+      return;
+    }
+
+    try {
+      assertSizeLimits(name, content.length, decompressed.length);
+    } catch (error) {
+      result.errors.push({ name, error: (error as Error).message });
+      return;
+    }
+
+    budget.remaining -= decompressed.length;
+    extractPayload(decompressed, innerName, undefined, depth + 1, result, budget);
+    return;
+  }
+
+  logger.debug(`Extracting ZIP payload: ${name}`);
+
+  let entries: AdmZip.IZipEntry[];
+  try {
+    entries = new AdmZip(content).getEntries().filter((e) => !e.isDirectory);
+  } catch (error) {
+    result.errors.push({ name, error: `Invalid ZIP data in ${name}: ${error instanceof Error ? error.message : String(error)}` });
+    return;
+  }
+
+  if (entries.length === 0) {
+    logger.warn(`ZIP file ${name} is empty`);
+    result.errors.push({ name, error: 'ZIP archive is empty' });
+    return;
+  }
+
+  if (entries.length > MAX_ARCHIVE_ENTRIES) {
+    result.errors.push({ name, error: `ZIP archive has too many entries (${entries.length})` });
+    return;
+  }
+
+  for (const entry of entries) {
+    const entryName = `${name}/${entry.entryName}`;
+
+    try {
+      const streamable = entry.header.size > STREAMING_THRESHOLD && (entry.header.flags & 1) === 0 &&
+        (entry.header.method === ZIP_STORED || entry.header.method === ZIP_DEFLATED);
+
+      if (streamable) {
+        const compressed = entry.getCompressedData();
+        const head = entry.header.method === ZIP_STORED
+          ? compressed.subarray(0, PEEK_SIZE)
+          : peekDecompressed(compressed, inflateRawSync);
+
+        if (detectPayloadType(head, entryName) === 'xml') {
+          result.reports.push(streamedReport(entryName, compressed, entry.header.method === ZIP_STORED ? () => new PassThrough() : () => createInflateRaw()));
+          continue;
+        }
+      }
+
+      // Check the declared size before inflating, then the actual size
+      assertSizeLimits(entryName, entry.header.compressedSize, entry.header.size);
+      if (entry.header.size > budget.remaining) {
+        throw new Error(`${entryName} exceeds remaining decompression budget`);
+      }
+
+      const data = entry.getData();
+      assertSizeLimits(entryName, entry.header.compressedSize, data.length);
+      if (data.length > budget.remaining) {
+        throw new Error(`${entryName} exceeds remaining decompression budget`);
+      }
+
+      budget.remaining -= data.length;
+      extractPayload(data, entryName, undefined, depth + 1, result, budget);
+    } catch (error) {
+      result.errors.push({ name: entryName, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+}
+
+/**
+ * Extract every DMARC XML / TLS-RPT JSON report contained in an attachment
+ */
+export function extractReports(content: Buffer, name: string, contentType?: string): ExtractionResult {
+  const result: ExtractionResult = { reports: [], errors: [] };
+  const budget = { remaining: MAX_TOTAL_DECOMPRESSED_SIZE };
+
+  extractPayload(content, name || 'attachment', contentType, 0, result, budget);
+
+  for (const error of result.errors) {
+    logger.warn(`Could not extract ${error.name}: ${error.error}`);
+  }
+
+  return result;
+}
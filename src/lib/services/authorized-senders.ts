@@ -0,0 +1,285 @@
+/**
+ * Authorized Senders Service
+ * Registry of the IP ranges, sending services and DKIM keys allowed to send for our domains,
+ * and matching records against it
+ */
+
+import net from 'net';
+import { z } from 'zod';
+import { validateSchema, ValidationResult } from './report-validator';
+import { getSenderServices } from './sender-catalog';
+import {
+  getAuthorizedSenders,
+  getAuthorizedSender,
+  insertAuthorizedSender,
+  updateAuthorizedSender,
+  deleteAuthorizedSender,
+  getRecordAuthorizationRows,
+  updateRecordAuthorizations,
+} from '../db/client';
+import { logger } from '../utils/logger';
+import type { AuthorizedSender, DmarcRecordInput } from '../db/schema';
+
+export type AuthorizedSenderInput = Omit<AuthorizedSender, 'id' | 'created_at' | 'updated_at'>;
+
+export type SenderAuthorization = 'authorized' | 'unknown';
+
+/**
+ * What is known about a record's sender
+ */
+export interface AuthorizationFingerprint {
+  source_ip: string;
+  header_from: string;
+  sender_service: string | null;
+  dkim_passes: Array<{ domain: string; selector: string | null }>; // passing DKIM signatures
+}
+
+export interface AuthorizationMatch {
+  authorized_sender_id: number | null;
+  authorization: SenderAuthorization | null; // null if the domain has no registry entries
+}
+
+interface LoadedEntry {
+  sender: AuthorizedSender;
+  range: net.BlockList | null;
+}
+
+/**
+ * Parse "192.0.2.0/24", "2001:db8::/32" or a single IP address
+ */
+function parseCidr(cidr: string): { address: string; prefix: number; family: 'ipv4' | 'ipv6' } | null {
+  const [address, prefixText, ...rest] = cidr.split('/');
+  const version = net.isIP(address);
+
+  if (version === 0 || rest.length > 0) {
+    return null;
+  }
+
+  const maxPrefix = version === 4 ? 32 : 128;
+  const prefix = prefixText === undefined ? maxPrefix : Number(prefixText);
+
+  if (!/^\d*$/.test(prefixText ?? '') || !Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) {
+    return null;
+  }
+
+  return { address, prefix, family: version === 4 ? 'ipv4' : 'ipv6' };
+}
+
+const optionalText = z
+  .string()
+  .trim()
+  .max(500)
+  .nullish()
+  .transform((value) => value || null);
+
+const domainName = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .transform((value) => value.replace(/\.$/, ''))
+  .pipe(z.string().regex(/^[a-z0-9_-]+(\.[a-z0-9_-]+)+$/, 'must be a domain name'));
+
+const authorizedSenderSchema = z
+  .object({
+    domain: domainName,
+    cidr: optionalText.refine((value) => value === null || parseCidr(value) !== null, 'must be an IP address or CIDR range'),
+    sender_service: optionalText.refine(
+      (value) => value === null || getSenderServices().some((service) => service.id === value),
+      'must be a service id from the sender catalog'
+    ),
+    dkim_domain: domainName.nullish().transform((value) => value || null),
+    dkim_selector: optionalText,
+    description: optionalText,
+    owner: optionalText,
+  })
+  .refine(
+    (sender) => sender.cidr !== null || sender.sender_service !== null || sender.dkim_domain !== null,
+    'at least one of cidr, sender_service or dkim_domain is required'
+  )
+  .refine(
+    (sender) => sender.dkim_selector === null || sender.dkim_domain !== null,
+    { message: 'requires dkim_domain', path: ['dkim_selector'] }
+  );
+
+/**
+ * Validate an authorized sender from an API request
+ */
+export function validateAuthorizedSender(body: unknown): ValidationResult<AuthorizedSenderInput> {
+  return validateSchema(authorizedSenderSchema, body);
+}
+
+/**
+ * Check whether a domain equals or is a subdomain of another
+ */
+function isSameOrSubdomain(domain: string, parent: string): boolean {
+  return domain === parent || domain.endsWith(`.${parent}`);
+}
+
+/**
+ * Load the registry with prepared IP ranges
+ */
+function loadRegistry(): LoadedEntry[] {
+  return getAuthorizedSenders().map((sender) => {
+    const cidr = sender.cidr ? parseCidr(sender.cidr) : null;
+    let range: net.BlockList | null = null;
+
+    if (cidr) {
+      range = new net.BlockList();
+      range.addSubnet(cidr.address, cidr.prefix, cidr.family);
+    }
+
+    return { sender, range };
+  });
+}
+
+/**
+ * Check whether a registry entry covers a sender. Every criterion that is set must match.
+ */
+function entryMatches(entry: LoadedEntry, fingerprint: AuthorizationFingerprint): boolean {
+  const { sender, range } = entry;
+
+  if (sender.cidr) {
+    const family = net.isIPv6(fingerprint.source_ip) ? 'ipv6' : 'ipv4';
+    if (!range || net.isIP(fingerprint.source_ip) === 0 || !range.check(fingerprint.source_ip, family)) {
+      return false;
+    }
+  }
+
+  if (sender.sender_service && sender.sender_service !== fingerprint.sender_service) {
+    return false;
+  }
+
+  if (sender.dkim_domain) {
+    // Only verified signatures count, anyone can put our domain into a failing one
+    const signed = fingerprint.dkim_passes.some((signature) =>
+      signature.domain.toLowerCase() === sender.dkim_domain &&
+      (!sender.dkim_selector || signature.selector?.toLowerCase() === sender.dkim_selector.toLowerCase())
+    );
+    if (!signed) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Match a sender against the registry entries of its header From domain
+ */
+function matchFingerprint(registry: LoadedEntry[], fingerprint: AuthorizationFingerprint): AuthorizationMatch {
+  const headerFrom = fingerprint.header_from.toLowerCase().replace(/\.$/, '');
+  const entries = registry.filter((entry) => isSameOrSubdomain(headerFrom, entry.sender.domain));
+
+  if (entries.length === 0) {
+    return { authorized_sender_id: null, authorization: null };
+  }
+
+  const match = entries.find((entry) => entryMatches(entry, fingerprint));
+
+  return match
+    ? { authorized_sender_id: match.sender.id, authorization: 'authorized' }
+    : { authorized_sender_id: null, authorization: 'unknown' };
+}
+
+/**
+ * Create a matcher for parsed records that loads the registry once
+ */
+export function createAuthorizationMatcher(): (input: DmarcRecordInput) => AuthorizationMatch {
+  const registry = loadRegistry();
+
+  return (input) => matchFingerprint(registry, {
+    source_ip: input.record.source_ip,
+    header_from: input.record.header_from,
+    sender_service: input.record.sender_service,
+    dkim_passes: input.auth_results
+      .filter((result) => result.auth_type === 'dkim' && result.result === 'pass')
+      .map((result) => ({ domain: result.domain, selector: result.selector })),
+  });
+}
+
+/**
+ * Match stored records against the registry again, e.g. after it was edited
+ * (only records of a header From domain or a report, if given). Returns the number of changed records.
+ */
+export function rematchAuthorizedSenders(filter: { domain?: string; reportId?: number } = {}): { records: number; changed: number } {
+  const registry = loadRegistry();
+  const rows = getRecordAuthorizationRows(filter);
+
+  const updates = rows.map((row) => ({
+    id: row.id,
+    ...matchFingerprint(registry, {
+      source_ip: row.source_ip,
+      header_from: row.header_from,
+      sender_service: row.sender_service,
+      dkim_passes: JSON.parse(row.dkim_passes),
+    }),
+  }));
+
+  return { records: rows.length, changed: updateRecordAuthorizations(updates) };
+}
+
+/**
+ * Registry entries relevant for a report domain (the domain itself, its parents and subdomains)
+ */
+export function getAuthorizedSendersForDomain(domain: string): AuthorizedSender[] {
+  const name = domain.toLowerCase();
+
+  return getAuthorizedSenders().filter((sender) =>
+    isSameOrSubdomain(name, sender.domain) || isSameOrSubdomain(sender.domain, name)
+  );
+}
+
+/**
+ * Add a registry entry and re-match the records of its domain
+ */
+export function createAuthorizedSender(input: AuthorizedSenderInput): { authorized_sender: AuthorizedSender; rematched: number } {
+  const id = insertAuthorizedSender(input);
+  const { changed } = rematchAuthorizedSenders({ domain: input.domain });
+
+  logger.info(`Added authorized sender ${id} for ${input.domain}, ${changed} record(s) re-matched`);
+
+  return { authorized_sender: getAuthorizedSender(id)!, rematched: changed };
+}
+
+/**
+ * Replace a registry entry and re-match the records of its old and new domain (null if not found)
+ */
+export function changeAuthorizedSender(
+  id: number,
+  input: AuthorizedSenderInput
+): { authorized_sender: AuthorizedSender; rematched: number } | null {
+  const existing = getAuthorizedSender(id);
+
+  if (!existing) {
+    return null;
+  }
+
+  updateAuthorizedSender(id, input);
+
+  let rematched = rematchAuthorizedSenders({ domain: input.domain }).changed;
+  if (existing.domain !== input.domain) {
+    rematched += rematchAuthorizedSenders({ domain: existing.domain }).changed;
+  }
+
+  logger.info(`Updated authorized sender ${id} for ${input.domain}, ${rematched} record(s) re-matched`);
+
+  return { authorized_sender: getAuthorizedSender(id)!, rematched };
+}
+
+/**
+ * Delete a registry entry and re-match the records of its domain (null if not found)
+ */
+export function removeAuthorizedSender(id: number): { rematched: number } | null {
+  const existing = getAuthorizedSender(id);
+
+  if (!existing) {
+    return null;
+  }
+
+  deleteAuthorizedSender(id);
+  const { changed } = rematchAuthorizedSenders({ domain: existing.domain });
+
+  logger.info(`Deleted authorized sender ${id} for ${existing.domain}, ${changed} record(s) re-matched`);
+
+  return { rematched: changed };
+}
@@ -1,19 +1,25 @@
 /**
  * Claude AI Analyzer Service
- * Analyzes DMARC reports using Claude API
+ * Analyzes DMARC reports using Claude API, the deterministic rules or both (hybrid)
  */
 
 import Anthropic from '@anthropic-ai/sdk';
 import {
   getUnprocessedReports,
-  getDmarcRecordsByReportId,
+  getDmarcRecordsWithDetails,
+  getFailureReportsForDomain,
   insertAiAnalysis,
   markReportProcessed,
 } from '../db/client';
 import { logger } from '../utils/logger';
 import { sendThreatNotification } from './notification';
+import { cachePtrRecords } from './ip-intel';
+import { classifyStoredRecords, getSenderServiceName } from './sender-catalog';
+import { rematchAuthorizedSenders, getAuthorizedSendersForDomain } from './authorized-senders';
+import { evaluateStoredAlignment } from './alignment';
+import { analyzeWithRules, summarizeAlignment, computeTrends, RULES_VERSION } from './rule-analyzer';
 import type { ClaudeAnalysisResponse } from '../types/analysis';
-import type { DmarcReport, DmarcRecord } from '../db/schema';
+import type { DmarcReport, DmarcRecordWithDetails, DmarcFailureReport } from '../db/schema';
 
 const MODEL = 'claude-3-5-sonnet-20241022';
 const MAX_TOKENS = 4096;
@@ -34,37 +40,120 @@ function getAnthropicClient(): Anthropic {
   });
 }
 
+export type AnalyzerBackend = 'claude' | 'rules' | 'hybrid';
+
 /**
- * Build analysis prompt for Claude
+ * Get the configured analyzer backend (ANALYZER_BACKEND); by default Claude if an API key is set, otherwise the rules
  */
-function buildAnalysisPrompt(
+export function getAnalyzerBackend(): AnalyzerBackend {
+  const backend = process.env.ANALYZER_BACKEND?.trim().toLowerCase();
+
+  if (!backend) {
+    return process.env.ANTHROPIC_API_KEY ? 'claude' : 'rules';
+  }
+
+  if (backend !== 'claude' && backend !== 'rules' && backend !== 'hybrid') {
+    throw new Error(`Invalid ANALYZER_BACKEND "${backend}" (expected claude, rules or hybrid)`);
+  }
+
+  return backend;
+}
+
+/**
+ * Report data for the prompts
+ */
+function buildReportData(
   report: DmarcReport,
-  records: DmarcRecord[]
-): string {
+  records: DmarcRecordWithDetails[],
+  failureReports: DmarcFailureReport[]
+) {
   const policyPublished = JSON.parse(report.policy_published);
 
-  const reportData = {
+  return {
     metadata: {
       org_name: report.org_name,
       email: report.email,
       domain: report.domain,
       date_begin: new Date(report.date_begin * 1000).toISOString(),
       date_end: new Date(report.date_end * 1000).toISOString(),
+      schema_version: report.schema_version,
     },
     policy: policyPublished,
+    // Computed from our own alignment evaluation, use these numbers instead of deriving them
+    alignment_summary: summarizeAlignment(records),
+    // Our registered infrastructure for this domain; every criterion of an entry must match
+    authorized_senders: getAuthorizedSendersForDomain(report.domain).map((s) => ({
+      id: s.id,
+      domain: s.domain,
+      cidr: s.cidr,
+      sender_service: getSenderServiceName(s.sender_service),
+      dkim_domain: s.dkim_domain,
+      dkim_selector: s.dkim_selector,
+      description: s.description,
+      owner: s.owner,
+    })),
     records: records.map((r) => ({
       source_ip: r.source_ip,
       count: r.count,
       disposition: r.disposition,
       dkim: r.dkim,
       spf: r.spf,
+      dkim_aligned_pass: r.dkim_aligned_pass === 1,
+      spf_aligned_pass: r.spf_aligned_pass === 1,
+      dmarc_pass: r.dmarc_pass === 1,
       header_from: r.header_from,
       envelope_from: r.envelope_from,
       dkim_domain: r.dkim_domain,
       dkim_selector: r.dkim_selector,
       spf_domain: r.spf_domain,
+      country: r.country,
+      city: r.city,
+      asn: r.asn,
+      as_org: r.as_org,
+      ptr: r.ptr,
+      ptr_confirmed: r.ptr_confirmed,
+      sender_service: getSenderServiceName(r.sender_service),
+      authorization: r.authorization,
+      authorized_sender_id: r.authorized_sender_id,
+      auth_results: r.auth_results.map((a) => ({
+        type: a.auth_type,
+        domain: a.domain,
+        selector: a.selector,
+        scope: a.scope,
+        result: a.result,
+        human_result: a.human_result,
+        aligned: a.aligned === 1,
+      })),
+      policy_override_reasons: r.policy_reasons.map((pr) => ({
+        type: pr.type,
+        comment: pr.comment,
+      })),
+    })),
+    failure_samples: failureReports.map((f) => ({
+      id: f.id,
+      reporter: f.reporter,
+      arrival_date: f.arrival_date,
+      source_ip: f.source_ip,
+      auth_failure: f.auth_failure,
+      delivery_result: f.delivery_result,
+      original_mail_from: f.original_mail_from,
+      original_from: f.original_from,
+      original_subject: f.original_subject,
+      dkim_domain: f.dkim_domain,
+      dkim_selector: f.dkim_selector,
     })),
   };
+}
+
+/**
+ * Build analysis prompt for Claude
+ */
+function buildAnalysisPrompt(
+  report: DmarcReport,
+  records: DmarcRecordWithDetails[],
+  failureReports: DmarcFailureReport[]
+): string {
+  const reportData = buildReportData(report, records, failureReports);
 
   return `You are a DMARC security analyst. Analyze the following DMARC report and provide a comprehensive security assessment.
 
@@ -82,7 +171,8 @@ Please analyze this report and provide your response in the following JSON forma
       "severity": "LOW|MEDIUM|HIGH|CRITICAL",
       "description": "Detailed description of the threat",
       "source_ips": ["IP addresses involved"],
-      "evidence": "Evidence from the report supporting this finding"
+      "evidence": "Evidence from the report supporting this finding",
+      "failure_report_ids": [ids of related failure_samples, empty if none]
     }
   ],
   "threat_level": "LOW|MEDIUM|HIGH|CRITICAL",
@@ -90,7 +180,7 @@ Please analyze this report and provide your response in the following JSON forma
     "total_messages": number,
     "pass_rate": 0.0-1.0,
     "fail_rate": 0.0-1.0,
-    "top_sources": [{"ip": "x.x.x.x", "count": number}],
+    "top_sources": [{"ip": "x.x.x.x", "count": number, "country": "ISO country code of the record or null", "asn": number or null}],
     "disposition_summary": {"none": number, "quarantine": number, "reject": number}
   },
   "recommendations": [
@@ -103,15 +193,22 @@ Please analyze this report and provide your response in the following JSON forma
 Analysis Criteria:
 
 1. **Compliance Status**: Evaluate based on:
-   - SPF/DKIM alignment rates
-   - Policy enforcement (p=quarantine/reject vs p=none)
+   - DMARC pass rate from alignment_summary: a record passes DMARC if dkim_aligned_pass or spf_aligned_pass is true (aligned = the authenticated domain matches header_from under the published adkim/aspf, organizational domains from the Public Suffix List)
+   - Per-signature results in auth_results (a record may carry several DKIM signatures, e.g. our own and an ESP's)
+   - Policy enforcement (p=quarantine/reject vs p=none, np for non-existent subdomains, testing=y means the policy is not yet enforced)
    - Percentage of passing vs failing messages
 
 2. **Threat Detection**: Identify:
    - Unauthorized sources sending emails (SPF/DKIM failures)
-   - Suspicious IP addresses or patterns
+   - The authorization of each record against our authorized_senders registry: "authorized" records come from our own registered infrastructure and are not a threat (report their failures as configuration issues), "unknown" records are not registered and deserve attention even if they pass, null means the domain has no registry entries
+   - Suspicious IP addresses or patterns, including failing sources from countries where we do not send mail (country/city come from a GeoIP lookup and may be null)
+   - The network owner (asn/as_org) of failing sources: a known mail provider or ESP suggests a misconfigured legitimate sender, a hosting or bulletproof provider suggests abuse
+   - The sending service (sender_service, recognized email service provider or null): failures from a known service usually mean it is not yet set up with DKIM for our domain, so recommend fixing that service instead of reporting an attack
+   - The reverse DNS hostname (ptr) of failing sources: ptr_confirmed means the hostname resolves back to the IP; missing, unconfirmed or generic dynamic/residential hostnames are suspicious for a mail server
    - Header From vs Envelope From mismatches (potential spoofing)
    - Policy violations (messages that should be rejected but aren't)
+   - Failure samples (forensic reports) from the same period: use their original From/Subject as evidence and reference their ids in failure_report_ids
+   - Receiver overrides in policy_override_reasons: failures marked as forwarded, mailing_list or trusted_forwarder are usually legitimate forwarding, not spoofing
 
 3. **Threat Level**: Set overall threat level based on:
    - CRITICAL: Active spoofing/phishing detected, high volume of failures
@@ -119,7 +216,7 @@ Analysis Criteria:
    - MEDIUM: Some failures, partial policy enforcement
    - LOW: Mostly passing, good policy enforcement
 
-4. **Trends**: Calculate statistics from the records
+4. **Trends**: Calculate statistics from the records; total_messages, pass_rate and fail_rate come from alignment_summary
 
 5. **Recommendations**: Provide specific actions such as:
    - Policy changes (upgrade from p=none to p=quarantine/reject)
@@ -130,20 +227,131 @@ Analysis Criteria:
 Respond ONLY with the JSON object, no markdown formatting or additional text.`;
 }
 
+/**
+ * Build the hybrid prompt: Claude only writes the narrative for the verdict of the rules
+ */
+function buildNarrativePrompt(
+  report: DmarcReport,
+  records: DmarcRecordWithDetails[],
+  failureReports: DmarcFailureReport[],
+  analysis: ClaudeAnalysisResponse
+): string {
+  const reportData = buildReportData(report, records, failureReports);
+  const verdict = {
+    compliance_status: analysis.compliance_status,
+    compliance_score: analysis.compliance_score,
+    threat_level: analysis.threat_level,
+    threats: analysis.threats,
+    recommendations: analysis.recommendations,
+  };
+
+  return `You are a DMARC security analyst. The following DMARC report has already been assessed by deterministic rules. The verdict is final: do not change the compliance status, the threat level or the threats.
+
+DMARC Report Data:
+${JSON.stringify(reportData, null, 2)}
+
+Verdict of the rules:
+${JSON.stringify(verdict, null, 2)}
+
+Explain the verdict in German, like the findings of the rules, and respond in the following JSON format (respond ONLY with valid JSON, no additional text):
+
+{
+  "summary": "2-3 sentence overall assessment that explains the verdict and its most important findings",
+  "recommendations": [
+    "Specific actionable recommendation the rules do not cover yet, e.g. for a particular source or sending service"
+  ]
+}
+
+Only use facts from the report data, reference sources by IP, hostname or sending service. Return an empty recommendations array if the rules already cover everything.
+
+Respond ONLY with the JSON object, no markdown formatting or additional text.`;
+}
+
+/**
+ * Take country, network and hostname of the top sources from our own enrichment data instead of relying on the model
+ */
+function addSourceIntel(analysis: ClaudeAnalysisResponse, records: DmarcRecordWithDetails[]): void {
+  const recordsByIp = new Map(records.map((r) => [r.source_ip, r]));
+
+  for (const source of analysis.trends?.top_sources || []) {
+    const record = recordsByIp.get(source.ip);
+
+    if (record?.country) {
+      source.country = record.country;
+    } else if (!source.country) {
+      delete source.country;
+    }
+
+    if (record && record.asn !== null) {
+      source.asn = record.asn;
+      source.as_org = record.as_org ?? undefined;
+    } else if (!source.asn) {
+      delete source.asn;
+    }
+
+    if (record?.ptr) {
+      source.hostname = record.ptr;
+    }
+  }
+}
+
+/**
+ * Take message totals and dispositions from the records instead of relying on the model
+ */
+function addComputedTrends(analysis: ClaudeAnalysisResponse, records: DmarcRecordWithDetails[]): void {
+  const { total_messages, pass_rate, fail_rate, disposition_summary } = computeTrends(records, 0);
+
+  analysis.trends = { ...analysis.trends, total_messages, pass_rate, fail_rate, disposition_summary };
+}
+
+/**
+ * Send a prompt to Claude and return the text of the response
+ */
+async function requestClaude(anthropic: Anthropic, prompt: string): Promise<string> {
+  const message = await anthropic.messages.create({
+    model: MODEL,
+    max_tokens: MAX_TOKENS,
+    temperature: TEMPERATURE,
+    messages: [
+      {
+        role: 'user',
+        content: prompt,
+      },
+    ],
+  });
+
+  // Extract text from response
+  const responseText = message.content
+    .filter((block) => block.type === 'text')
+    .map((block) => ('text' in block ? block.text : ''))
+    .join('\n');
+
+  logger.debug('Claude raw response:', responseText);
+
+  return responseText;
+}
+
+/**
+ * Parse the JSON of a Claude response
+ */
+function parseJsonResponse(responseText: string): unknown {
+  // Remove potential markdown code blocks
+  let cleanedText = responseText.trim();
+  if (cleanedText.startsWith('```json')) {
+    cleanedText = cleanedText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+  } else if (cleanedText.startsWith('```')) {
+    cleanedText = cleanedText.replace(/^```\s*/, '').replace(/\s*```$/, '');
+  }
+
+  return JSON.parse(cleanedText);
+}
+
 /**
  * Parse and validate Claude's JSON response
  */
 function parseClaudeResponse(responseText: string): ClaudeAnalysisResponse {
   try {
-    // Remove potential markdown code blocks
-    let cleanedText = responseText.trim();
-    if (cleanedText.startsWith('```json')) {
-      cleanedText = cleanedText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-    } else if (cleanedText.startsWith('```')) {
-      cleanedText = cleanedText.replace(/^```\s*/, '').replace(/\s*```$/, '');
-    }
-
-    const parsed = JSON.parse(cleanedText) as ClaudeAnalysisResponse;
+    const parsed = parseJsonResponse(responseText) as ClaudeAnalysisResponse;
 
     // Validate required fields
     if (!parsed.compliance_status || !parsed.threat_level || !parsed.threats || !parsed.recommendations) {
@@ -159,39 +367,96 @@ function parseClaudeResponse(responseText: string): ClaudeAnalysisResponse {
 }
 
 /**
- * Analyze a single DMARC report with Claude
+ * Parse the narrative of a hybrid analysis
  */
-async function analyzeReport(
+function parseNarrativeResponse(responseText: string): { summary: string; recommendations: string[] } {
+  try {
+    const parsed = parseJsonResponse(responseText) as { summary?: unknown; recommendations?: unknown };
+
+    if (typeof parsed.summary !== 'string' || !parsed.summary.trim()) {
+      throw new Error('Missing summary in Claude response');
+    }
+
+    return {
+      summary: parsed.summary.trim(),
+      recommendations: Array.isArray(parsed.recommendations)
+        ? parsed.recommendations.filter((r): r is string => typeof r === 'string' && r.trim() !== '')
+        : [],
+    };
+  } catch (error) {
+    logger.error('Raw response:', responseText);
+    throw new Error(`Failed to parse Claude response: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Analyze with Claude
+ */
+async function analyzeWithClaude(
   anthropic: Anthropic,
   report: DmarcReport,
-  records: DmarcRecord[]
-): Promise<void> {
+  records: DmarcRecordWithDetails[],
+  failureReports: DmarcFailureReport[]
+): Promise<ClaudeAnalysisResponse> {
+  const responseText = await requestClaude(anthropic, buildAnalysisPrompt(report, records, failureReports));
+
+  const analysis = parseClaudeResponse(responseText);
+  addComputedTrends(analysis, records);
+  addSourceIntel(analysis, records);
+
+  return analysis;
+}
+
+/**
+ * Analyze with the rules and let Claude write the narrative. The rule verdict is kept if Claude fails.
+ */
+async function analyzeHybrid(
+  anthropic: Anthropic,
+  report: DmarcReport,
+  records: DmarcRecordWithDetails[],
+  failureReports: DmarcFailureReport[]
+): Promise<{ analysis: ClaudeAnalysisResponse; modelVersion: string }> {
+  const analysis = analyzeWithRules(report, records, failureReports);
+
   try {
-    logger.info(`Analyzing report ${report.report_id} with Claude...`);
-
-    const prompt = buildAnalysisPrompt(report, records);
-
-    const message = await anthropic.messages.create({
-      model: MODEL,
-      max_tokens: MAX_TOKENS,
-      temperature: TEMPERATURE,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    });
+    const responseText = await requestClaude(anthropic, buildNarrativePrompt(report, records, failureReports, analysis));
+    const narrative = parseNarrativeResponse(responseText);
 
-    // Extract text from response
-    const responseText = message.content
-      .filter((block) => block.type === 'text')
-      .map((block) => ('text' in block ? block.text : ''))
-      .join('\n');
+    analysis.summary = narrative.summary;
+    analysis.recommendations = Array.from(new Set([...analysis.recommendations, ...narrative.recommendations]));
 
-    logger.debug('Claude raw response:', responseText);
+    return { analysis, modelVersion: `${RULES_VERSION}+${MODEL}` };
+  } catch (error) {
+    logger.warn(`Claude narrative for report ${report.report_id} failed, keeping the rule summary:`, error);
+    return { analysis, modelVersion: RULES_VERSION };
+  }
+}
 
-    const analysis = parseClaudeResponse(responseText);
+/**
+ * Analyze a single DMARC report with the configured backend
+ */
+async function analyzeReport(
+  backend: AnalyzerBackend,
+  anthropic: Anthropic | null,
+  report: DmarcReport,
+  records: DmarcRecordWithDetails[],
+  failureReports: DmarcFailureReport[]
+): Promise<void> {
+  try {
+    logger.info(`Analyzing report ${report.report_id} (backend: ${backend})...`);
+
+    let analysis: ClaudeAnalysisResponse;
+    let modelVersion: string;
+
+    if (backend === 'rules' || !anthropic) {
+      analysis = analyzeWithRules(report, records, failureReports);
+      modelVersion = RULES_VERSION;
+    } else if (backend === 'hybrid') {
+      ({ analysis, modelVersion } = await analyzeHybrid(anthropic, report, records, failureReports));
+    } else {
+      analysis = await analyzeWithClaude(anthropic, report, records, failureReports);
+      modelVersion = MODEL;
+    }
 
     logger.info(`Analysis complete. Threat level: ${analysis.threat_level}, Compliance: ${analysis.compliance_status}`);
 
@@ -205,7 +470,7 @@ async function analyzeReport(
       trends: JSON.stringify(analysis.trends),
       recommendations: JSON.stringify(analysis.recommendations),
       summary: analysis.summary,
-      model_version: MODEL,
+      model_version: modelVersion,
     });
 
     logger.info(`Saved analysis for report ${report.id}`);
@@ -223,7 +488,7 @@ async function analyzeReport(
         recommendations: JSON.stringify(analysis.recommendations),
         summary: analysis.summary,
         analyzed_at: new Date().toISOString(),
-        model_version: MODEL,
+        model_version: modelVersion,
       };
 
       await sendThreatNotification(analysisRecord, report.id);
@@ -241,7 +506,8 @@ async function analyzeReport(
  * Analyze all unprocessed DMARC reports
  */
 export async function analyzeUnprocessedReports(): Promise<number> {
-  const anthropic = getAnthropicClient();
+  const backend = getAnalyzerBackend();
+  const anthropic = backend === 'rules' ? null : getAnthropicClient();
   const reports = getUnprocessedReports();
 
   if (reports.length === 0) {
@@ -249,13 +515,26 @@ export async function analyzeUnprocessedReports(): Promise<number> {
     return 0;
   }
 
-  logger.info(`Found ${reports.length} unprocessed report(s) to analyze`);
+  logger.info(`Found ${reports.length} unprocessed report(s) to analyze (backend: ${backend})`);
 
   let analyzedCount = 0;
 
   for (const report of reports) {
     try {
-      const records = getDmarcRecordsByReportId(report.id);
+      let records = getDmarcRecordsWithDetails(report.id);
+
+      // Resolve hostnames of the sources that are not cached yet; they can identify the sending service
+      if (await cachePtrRecords(records.map((r) => r.source_ip)) > 0) {
+        classifyStoredRecords(report.id);
+        rematchAuthorizedSenders({ reportId: report.id });
+        records = getDmarcRecordsWithDetails(report.id);
+      }
+
+      // Reports stored before alignment was evaluated
+      if (records.some((r) => r.dmarc_pass === null)) {
+        evaluateStoredAlignment({ reportId: report.id });
+        records = getDmarcRecordsWithDetails(report.id);
+      }
 
       if (records.length === 0) {
         logger.warn(`Report ${report.id} has no records, skipping`);
@@ -263,11 +542,15 @@ export async function analyzeUnprocessedReports(): Promise<number> {
         continue;
       }
 
-      await analyzeReport(anthropic, report, records);
+      const failureReports = getFailureReportsForDomain(report.domain, report.date_begin, report.date_end);
+
+      await analyzeReport(backend, anthropic, report, records, failureReports);
       analyzedCount++;
 
       // Small delay to avoid rate limiting
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+      if (anthropic) {
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
     } catch (error) {
       logger.error(`Failed to analyze report ${report.id}:`, error);
       // Continue with next report
@@ -0,0 +1,94 @@
+/**
+ * Directory Source Service
+ * Imports XML/GZ/ZIP/EML report files dropped into a local directory
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { processFile, isTransientError } from './report-ingest';
+import { logger } from '../utils/logger';
+import type { ReportSource } from './report-sources';
+
+const PROCESSED_DIR = 'processed';
+const FAILED_DIR = 'failed';
+
+// Skip files that may still be being written
+const MIN_FILE_AGE_MS = 5000;
+
+/**
+ * Move a file into a subfolder without overwriting earlier files of the same name
+ */
+function moveInto(dropDir: string, subDir: string, filename: string): void {
+  const target = path.join(dropDir, subDir);
+  fs.mkdirSync(target, { recursive: true });
+
+  let destination = path.join(target, filename);
+  if (fs.existsSync(destination)) {
+    destination = path.join(target, `${Date.now()}-${filename}`);
+  }
+
+  fs.renameSync(path.join(dropDir, filename), destination);
+}
+
+/**
+ * Process every report file in the drop directory.
+ * A file that failed with a database or file system error is left in place and retried on the next run.
+ */
+async function processDirectory(dropDir: string): Promise<void> {
+  if (!fs.existsSync(dropDir)) {
+    throw new Error(`Report drop directory not found: ${dropDir}`);
+  }
+
+  const now = Date.now();
+  const filenames = fs.readdirSync(dropDir).filter((filename) => {
+    if (filename.startsWith('.')) return false;
+    const stats = fs.statSync(path.join(dropDir, filename));
+    return stats.isFile() && now - stats.mtimeMs >= MIN_FILE_AGE_MS;
+  });
+
+  if (filenames.length === 0) {
+    logger.info('No new files in report drop directory');
+    return;
+  }
+
+  logger.info(`Found ${filenames.length} file(s) in report drop directory`);
+
+  for (const filename of filenames) {
+    try {
+      const content = fs.readFileSync(path.join(dropDir, filename));
+      const results = await processFile(content, filename, 'directory');
+      const succeeded = results.some((r) => r.status !== 'invalid');
+
+      moveInto(dropDir, succeeded ? PROCESSED_DIR : FAILED_DIR, filename);
+    } catch (error) {
+      logger.error(`Error processing ${filename}:`, error);
+
+      if (isTransientError(error)) {
+        logger.warn(`Stopping at ${filename}, the remaining files are processed on the next run`);
+        break;
+      }
+
+      try {
+        moveInto(dropDir, FAILED_DIR, filename);
+      } catch (moveError) {
+        logger.error(`Error moving ${filename}:`, moveError);
+      }
+    }
+  }
+}
+
+/**
+ * Create a drop directory report source
+ */
+export function createDirectorySource(dropDir: string): ReportSource {
+  return {
+    name: `directory:${dropDir}`,
+    type: 'directory',
+    fetch: async () => {
+      if (!dropDir) {
+        throw new Error('REPORT_DROP_DIR not configured');
+      }
+      await processDirectory(dropDir);
+    },
+  };
+}
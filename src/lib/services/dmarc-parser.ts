@@ -1,167 +1,548 @@
 /**
  * DMARC Parser Service
- * Parses DMARC XML reports according to RFC 7489
+ * Parses DMARC aggregate XML reports according to RFC 7489 and DMARCbis
  */
 
-import { XMLParser } from 'fast-xml-parser';
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+import { createHash } from 'crypto';
+import { gzipSync, gunzipSync } from 'zlib';
 import {
-  insertDmarcReport,
-  insertDmarcRecord,
-  getDmarcReportByReportId,
+  insertDmarcReportWithRecords,
+  getDmarcReportByReporter,
+  insertRejectedReport,
+  deleteDmarcReport,
 } from '../db/client';
+import { validateDmarcFeedback, isOwnedDomain } from './report-validator';
+import { lookupGeoIp } from './geoip';
+import { cacheIpIntel } from './ip-intel';
+import { classifyRecordInput } from './sender-catalog';
+import { alignRecordInput, toAlignmentMode } from './alignment';
+import { createAuthorizationMatcher } from './authorized-senders';
+import type {
+  DmarcXmlFeedback,
+  DmarcXmlRecord,
+  DmarcXmlReportMetadata,
+  DmarcXmlPolicyPublished,
+} from './report-validator';
 import { logger } from '../utils/logger';
+import type { DmarcReport, DmarcRecordInput, RejectedReport } from '../db/schema';
+import type { ParseResult } from '../types/ingest';
 
-interface DmarcXmlFeedback {
-  feedback: {
-    report_metadata: {
-      org_name: string;
-      email: string;
-      report_id: string;
-      date_range: {
-        begin: number;
-        end: number;
-      };
-    };
-    policy_published: {
-      domain: string;
-      adkim?: string;
-      aspf?: string;
-      p: string;
-      sp?: string;
-      pct?: number;
-    };
-    record: DmarcXmlRecord | DmarcXmlRecord[];
+export const DMARCBIS_NAMESPACE = 'urn:ietf:params:xml:ns:dmarc-2.0';
+
+// Raw payloads above this size are stored gzip-compressed
+const RAW_XML_COMPRESS_THRESHOLD = 256 * 1024;
+
+export type DmarcSchemaVersion = 'rfc7489' | 'dmarcbis';
+
+/**
+ * Schema-independent representation of an aggregate report
+ */
+export interface NormalizedDmarcReport {
+  schema_version: DmarcSchemaVersion;
+  metadata: {
+    org_name: string;
+    email: string;
+    report_id: string;
+    generator: string | null;
+    date_begin: number;
+    date_end: number;
   };
+  policy: {
+    domain: string;
+    p: string;
+    sp: string | null;
+    np: string | null;
+    adkim: string | null;
+    aspf: string | null;
+    pct: number | null;
+    fo: string | null;
+    testing: string | null;
+    discovery_method: string | null;
+  };
+  records: DmarcXmlRecord[];
 }
 
-interface DmarcXmlRecord {
-  row: {
-    source_ip: string;
-    count: number;
-    policy_evaluated: {
-      disposition: string;
-      dkim: string;
-      spf: string;
-    };
+/**
+ * Normalize a single-or-array XML node into an array
+ */
+export function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Convert an optional XML value to a trimmed string or null
+ * (numeric-looking selectors are parsed as numbers by fast-xml-parser)
+ */
+export function toOptionalString(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  const str = String(value).trim();
+  return str.length > 0 ? str : null;
+}
+
+/**
+ * Detect which aggregate report schema generation a document uses.
+ * DMARCbis reports declare the dmarc-2.0 namespace; reports without it are
+ * still treated as DMARCbis when they carry fields only that schema defines.
+ */
+export function detectSchemaVersion(
+  hasDmarcbisNamespace: boolean,
+  policy: DmarcXmlPolicyPublished
+): DmarcSchemaVersion {
+  if (hasDmarcbisNamespace) {
+    return 'dmarcbis';
+  }
+
+  if (policy.np !== undefined || policy.testing !== undefined || policy.discovery_method !== undefined) {
+    return 'dmarcbis';
+  }
+
+  return 'rfc7489';
+}
+
+export type NormalizedDmarcHeader = Omit<NormalizedDmarcReport, 'records'>;
+
+/**
+ * Normalize report metadata and published policy of both schema generations
+ */
+export function normalizeHeader(
+  hasDmarcbisNamespace: boolean,
+  report_metadata: DmarcXmlReportMetadata,
+  policy_published: DmarcXmlPolicyPublished
+): NormalizedDmarcHeader {
+  const pct = policy_published.pct !== undefined ? Number(policy_published.pct) : NaN;
+
+  return {
+    schema_version: detectSchemaVersion(hasDmarcbisNamespace, policy_published),
+    metadata: {
+      org_name: String(report_metadata.org_name),
+      email: String(report_metadata.email),
+      report_id: String(report_metadata.report_id),
+      generator: toOptionalString(report_metadata.generator),
+      date_begin: Number(report_metadata.date_range.begin),
+      date_end: Number(report_metadata.date_range.end),
+    },
+    policy: {
+      domain: String(policy_published.domain),
+      p: String(policy_published.p),
+      sp: toOptionalString(policy_published.sp),
+      np: toOptionalString(policy_published.np),
+      adkim: toOptionalString(policy_published.adkim),
+      aspf: toOptionalString(policy_published.aspf),
+      pct: isNaN(pct) ? null : pct,
+      fo: toOptionalString(policy_published.fo),
+      testing: toOptionalString(policy_published.testing),
+      discovery_method: toOptionalString(policy_published.discovery_method),
+    },
+  };
+}
+
+/**
+ * Normalize both schema generations into one internal model
+ */
+function normalizeFeedback(xmlContent: string, feedback: DmarcXmlFeedback['feedback']): NormalizedDmarcReport {
+  return {
+    ...normalizeHeader(xmlContent.includes(DMARCBIS_NAMESPACE), feedback.report_metadata, feedback.policy_published),
+    records: toArray(feedback.record),
   };
-  identifiers: {
-    header_from: string;
-    envelope_from?: string;
+}
+
+export type DmarcRejectionReason = 'malformed' | 'validation' | 'unowned-domain' | 'changed-duplicate';
+
+export interface DmarcRejection {
+  success: false;
+  reason: DmarcRejectionReason;
+  errors: string[];
+  // Whatever could be read from the report, for the quarantine list
+  org_name: string | null;
+  report_id: string | null;
+  domain: string | null;
+}
+
+export type DmarcValidationOutcome =
+  | { success: true; report: NormalizedDmarcReport }
+  | DmarcRejection;
+
+/**
+ * Reject a report whose policy domain is not one of ours
+ */
+export function checkOwnedDomain(header: NormalizedDmarcHeader): DmarcRejection | null {
+  if (isOwnedDomain(header.policy.domain)) {
+    return null;
+  }
+
+  return {
+    success: false,
+    reason: 'unowned-domain',
+    errors: [`Domain ${header.policy.domain} is not in OWNED_DOMAINS`],
+    org_name: header.metadata.org_name,
+    report_id: header.metadata.report_id,
+    domain: header.policy.domain,
   };
-  auth_results?: {
-    dkim?: {
-      domain?: string;
-      result?: string;
-      selector?: string;
-    } | Array<{
-      domain?: string;
-      result?: string;
-      selector?: string;
-    }>;
-    spf?: {
-      domain?: string;
-      result?: string;
-    } | Array<{
-      domain?: string;
-      result?: string;
-    }>;
+}
+
+/**
+ * Store a rejected report in the quarantine and build the error reported to the caller.
+ * Streamed reports pass their payload as the gzip buffer they already hold; it is stored as is.
+ */
+export function quarantineDmarcReport(
+  rawPayload: string | Buffer,
+  rejection: DmarcRejection,
+  sourceAccount: string | null
+): Error {
+  const rejectedId = insertRejectedReport({
+    kind: 'dmarc-aggregate',
+    reason: rejection.reason,
+    errors: JSON.stringify(rejection.errors),
+    raw_payload: typeof rawPayload === 'string' ? rawPayload : '',
+    raw_payload_gz: typeof rawPayload === 'string' ? null : rawPayload,
+    org_name: rejection.org_name,
+    report_id: rejection.report_id,
+    domain: rejection.domain,
+    source_account: sourceAccount,
+  });
+
+  logger.warn(`Rejected DMARC report ${rejection.report_id || '(unknown)'} (${rejection.reason}), quarantined as #${rejectedId}`);
+  return new Error(`Report rejected (${rejection.reason}, quarantine #${rejectedId}): ${rejection.errors.slice(0, 3).join('; ')}`);
+}
+
+/**
+ * Read identifying fields from a report that failed validation
+ */
+function describeInvalidFeedback(parsed: any) {
+  const feedback = parsed?.feedback;
+  return {
+    org_name: toOptionalString(feedback?.report_metadata?.org_name),
+    report_id: toOptionalString(feedback?.report_metadata?.report_id),
+    domain: toOptionalString(feedback?.policy_published?.domain),
   };
 }
 
 /**
- * Parse DMARC XML content and store in database
+ * Parse and schema-validate DMARC XML, without the owned-domain check.
+ * Returns null if the document is not a DMARC aggregate report at all.
  */
-export async function parseDmarcXml(xmlContent: string): Promise<number | null> {
-  try {
-    logger.info('Parsing DMARC XML...');
+export function readDmarcXml(xmlContent: string): DmarcValidationOutcome | null {
+  const wellFormed = XMLValidator.validate(xmlContent);
+  if (wellFormed !== true) {
+    return {
+      success: false,
+      reason: 'malformed',
+      errors: [`XML line ${wellFormed.err.line}: ${wellFormed.err.msg}`],
+      org_name: null,
+      report_id: null,
+      domain: null,
+    };
+  }
 
-    // Parse XML to JSON
-    const parser = new XMLParser({
-      ignoreAttributes: false,
-      parseAttributeValue: true,
-      parseTagValue: true,
-    });
+  // Parse XML to JSON (namespace prefixes like dmarc:feedback are stripped)
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    parseAttributeValue: true,
+    parseTagValue: true,
+    removeNSPrefix: true,
+  });
 
-    const result = parser.parse(xmlContent) as DmarcXmlFeedback;
+  const parsed = parser.parse(xmlContent);
 
-    if (!result.feedback) {
-      logger.error('Invalid DMARC XML: missing feedback element');
-      return null;
-    }
+  if (!parsed?.feedback) {
+    logger.error('Invalid DMARC XML: missing feedback element');
+    return null;
+  }
 
-    const { report_metadata, policy_published, record } = result.feedback;
+  const validation = validateDmarcFeedback(parsed);
+  if (!validation.success) {
+    return { success: false, reason: 'validation', errors: validation.errors, ...describeInvalidFeedback(parsed) };
+  }
 
-    // Check if report already exists
-    const existing = getDmarcReportByReportId(report_metadata.report_id);
-    if (existing) {
-      logger.info(`Report ${report_metadata.report_id} already exists, skipping`);
-      return existing.id;
-    }
+  return { success: true, report: normalizeFeedback(xmlContent, validation.data.feedback) };
+}
 
-    // Insert DMARC report
-    const reportId = insertDmarcReport({
-      report_id: report_metadata.report_id,
-      org_name: report_metadata.org_name,
-      email: report_metadata.email,
-      date_begin: report_metadata.date_range.begin,
-      date_end: report_metadata.date_range.end,
-      domain: policy_published.domain,
-      policy_published: JSON.stringify(policy_published),
-      raw_xml: xmlContent,
-    });
-
-    logger.info(`Inserted DMARC report: ${report_metadata.report_id} (ID: ${reportId})`);
-
-    // Parse records (can be single object or array)
-    const records = Array.isArray(record) ? record : [record];
-    let recordCount = 0;
-
-    for (const rec of records) {
-      if (!rec.row) continue;
-
-      // Extract DKIM info
-      let dkimDomain: string | null = null;
-      let dkimSelector: string | null = null;
-      if (rec.auth_results?.dkim) {
-        const dkimResult = Array.isArray(rec.auth_results.dkim)
-          ? rec.auth_results.dkim[0]
-          : rec.auth_results.dkim;
-        dkimDomain = dkimResult.domain || null;
-        dkimSelector = dkimResult.selector || null;
-      }
+/**
+ * Parse and validate DMARC XML without storing it.
+ * Returns null if the document is not a DMARC aggregate report at all.
+ */
+export function validateDmarcXml(xmlContent: string): DmarcValidationOutcome | null {
+  const outcome = readDmarcXml(xmlContent);
 
-      // Extract SPF info
-      let spfDomain: string | null = null;
-      if (rec.auth_results?.spf) {
-        const spfResult = Array.isArray(rec.auth_results.spf)
-          ? rec.auth_results.spf[0]
-          : rec.auth_results.spf;
-        spfDomain = spfResult.domain || null;
-      }
+  if (!outcome || !outcome.success) {
+    return outcome;
+  }
+
+  return checkOwnedDomain(outcome.report) || outcome;
+}
 
-      insertDmarcRecord({
-        report_id: reportId,
+/**
+ * Parse DMARC XML content and store in database.
+ * Reports that fail validation are quarantined in rejected_reports.
+ */
+export async function parseDmarcXml(
+  xmlContent: string,
+  sourceAccount: string | null = null
+): Promise<ParseResult | null> {
+  logger.info('Parsing DMARC XML...');
+
+  const outcome = validateDmarcXml(xmlContent);
+
+  if (!outcome) {
+    return null;
+  }
+
+  if (!outcome.success) {
+    throw quarantineDmarcReport(xmlContent, outcome, sourceAccount);
+  }
+
+  const result = storeDmarcReport(outcome.report, xmlContent, sourceAccount);
+
+  if (result.changed) {
+    // Keep the new version for review instead of silently dropping it
+    quarantineChangedDuplicate(xmlContent, outcome.report, result.id, sourceAccount);
+  }
+
+  return result;
+}
+
+/**
+ * Quarantine a re-sent report whose content differs from the stored version
+ */
+export function quarantineChangedDuplicate(
+  rawPayload: string | Buffer,
+  header: NormalizedDmarcHeader,
+  existingId: number,
+  sourceAccount: string | null
+): void {
+  quarantineDmarcReport(rawPayload, {
+    success: false,
+    reason: 'changed-duplicate',
+    errors: [`Report already stored as ID ${existingId} with different content`],
+    org_name: header.metadata.org_name,
+    report_id: header.metadata.report_id,
+    domain: header.policy.domain,
+  }, sourceAccount);
+}
+
+/**
+ * Map normalized records to database rows (first DKIM/SPF result is kept on the record itself),
+ * with alignment evaluated under the report's published adkim/aspf
+ */
+export function buildRecordInputs(
+  records: DmarcXmlRecord[],
+  policy: Pick<NormalizedDmarcReport['policy'], 'adkim' | 'aspf'>
+): DmarcRecordInput[] {
+  // ASN data is kept per IP in ip_intel, not on the records
+  cacheIpIntel(records.map((rec) => rec.row.source_ip));
+  const matchAuthorization = createAuthorizationMatcher();
+  const alignmentModes = { adkim: toAlignmentMode(policy.adkim), aspf: toAlignmentMode(policy.aspf) };
+
+  return records.map((rec) => {
+    const location = lookupGeoIp(rec.row.source_ip);
+    const dkimResults = toArray(rec.auth_results?.dkim);
+    const spfResults = toArray(rec.auth_results?.spf);
+
+    // Keep the first signature on the record itself for quick filtering
+    const firstDkim = dkimResults[0];
+    const firstSpf = spfResults[0];
+
+    const input: DmarcRecordInput = {
+      record: {
         source_ip: rec.row.source_ip,
         count: rec.row.count,
         disposition: rec.row.policy_evaluated.disposition,
         dkim: rec.row.policy_evaluated.dkim,
         spf: rec.row.policy_evaluated.spf,
         header_from: rec.identifiers.header_from,
-        envelope_from: rec.identifiers.envelope_from || null,
-        dkim_domain: dkimDomain,
-        dkim_selector: dkimSelector,
-        spf_domain: spfDomain,
-        country: null, // TODO: Add GeoIP lookup in future
-      });
-
-      recordCount++;
+        envelope_from: toOptionalString(rec.identifiers.envelope_from),
+        dkim_domain: toOptionalString(firstDkim?.domain),
+        dkim_selector: toOptionalString(firstDkim?.selector),
+        spf_domain: toOptionalString(firstSpf?.domain),
+        country: location.country,
+        city: location.city,
+        sender_service: null,
+        authorized_sender_id: null,
+        authorization: null,
+        dkim_aligned_pass: null,
+        spf_aligned_pass: null,
+        dmarc_pass: null,
+      },
+      // Every DKIM signature and SPF check reported for this row
+      auth_results: [
+        ...dkimResults.map((dkimResult) => ({
+          auth_type: 'dkim',
+          domain: toOptionalString(dkimResult.domain) || '',
+          selector: toOptionalString(dkimResult.selector),
+          result: toOptionalString(dkimResult.result) || 'none',
+          human_result: toOptionalString(dkimResult.human_result),
+          scope: null,
+          aligned: null,
+        })),
+        ...spfResults.map((spfResult) => ({
+          auth_type: 'spf',
+          domain: toOptionalString(spfResult.domain) || '',
+          selector: null,
+          result: toOptionalString(spfResult.result) || 'none',
+          human_result: null,
+          scope: toOptionalString(spfResult.scope),
+          aligned: null,
+        })),
+      ],
+      // Why the receiver overrode the published policy, if it did
+      policy_reasons: toArray(rec.row.policy_evaluated.reason)
+        .map((reason) => ({ type: toOptionalString(reason.type), comment: toOptionalString(reason.comment) }))
+        .filter((reason): reason is { type: string; comment: string | null } => reason.type !== null),
+    };
+
+    alignRecordInput(input, alignmentModes);
+    input.record.sender_service = classifyRecordInput(input);
+    Object.assign(input.record, matchAuthorization(input));
+    return input;
+  });
+}
+
+/**
+ * Incremental SHA-256 over the normalized report, so streamed reports can be hashed
+ * record by record. Produces the same digest as hashing JSON.stringify(report).
+ */
+export function createReportHasher(header: NormalizedDmarcHeader) {
+  const hash = createHash('sha256');
+  let recordCount = 0;
+
+  hash.update(
+    `{"schema_version":${JSON.stringify(header.schema_version)}` +
+    `,"metadata":${JSON.stringify(header.metadata)}` +
+    `,"policy":${JSON.stringify(header.policy)},"records":[`
+  );
+
+  return {
+    addRecord(record: DmarcXmlRecord): void {
+      hash.update((recordCount++ > 0 ? ',' : '') + JSON.stringify(record));
+    },
+    digest(): string {
+      hash.update(']}');
+      return hash.digest('hex');
+    },
+  };
+}
+
+/**
+ * Hash of the normalized report content, independent of XML formatting
+ */
+export function hashDmarcReport(report: NormalizedDmarcReport): string {
+  const hasher = createReportHasher(report);
+  report.records.forEach((record) => hasher.addRecord(record));
+  return hasher.digest();
+}
+
+/**
+ * Prepare a raw payload for storage: large payloads are gzip-compressed
+ */
+export function encodeRawXml(xml: string | Buffer): { raw_xml: string; raw_xml_gz: Buffer | null } {
+  const size = typeof xml === 'string' ? Buffer.byteLength(xml) : xml.length;
+
+  if (size <= RAW_XML_COMPRESS_THRESHOLD) {
+    return { raw_xml: xml.toString(), raw_xml_gz: null };
+  }
+
+  return { raw_xml: '', raw_xml_gz: gzipSync(xml) };
+}
+
+/**
+ * Read the raw payload of a stored report, decompressing it if necessary
+ */
+export function decodeRawXml(report: Pick<DmarcReport, 'raw_xml' | 'raw_xml_gz'>): string {
+  return report.raw_xml_gz ? gunzipSync(report.raw_xml_gz).toString('utf-8') : report.raw_xml;
+}
+
+/**
+ * Read the raw payload of a quarantined report, decompressing it if necessary
+ */
+export function decodeRejectedPayload(rejected: Pick<RejectedReport, 'raw_payload' | 'raw_payload_gz'>): string {
+  return rejected.raw_payload_gz ? gunzipSync(rejected.raw_payload_gz).toString('utf-8') : rejected.raw_payload;
+}
+
+// Seconds without a heartbeat after which a streamed import counts as abandoned
+const IMPORT_LEASE_TIMEOUT = 10 * 60;
+
+/**
+ * Look up an already stored copy of a report.
+ * Report IDs are only unique per reporting organization. A streamed import that is still
+ * running (in any process) counts as existing; leftovers of an interrupted one, recognized
+ * by a stale heartbeat, are removed so the report can be imported again.
+ */
+export function findExistingReport(header: NormalizedDmarcHeader): DmarcReport | undefined {
+  const existing = getDmarcReportByReporter(header.metadata.org_name, header.metadata.report_id);
+  const now = Math.floor(Date.now() / 1000);
+
+  if (
+    existing &&
+    existing.import_status !== 'complete' &&
+    (existing.import_heartbeat_at === null || now - existing.import_heartbeat_at > IMPORT_LEASE_TIMEOUT)
+  ) {
+    logger.warn(`Removing incomplete import of report ${header.metadata.report_id} (ID: ${existing.id})`);
+    deleteDmarcReport(existing.id);
+    return undefined;
+  }
+
+  return existing;
+}
+
+/**
+ * Store a validated report with its records, auth results and policy reasons.
+ * Everything is written in one transaction, so a failure never leaves a partial report.
+ */
+export function storeDmarcReport(
+  report: NormalizedDmarcReport,
+  xmlContent: string,
+  sourceAccount: string | null
+): ParseResult {
+  try {
+    const { metadata, policy } = report;
+    const contentHash = hashDmarcReport(report);
+
+    const existing = findExistingReport(report);
+    if (existing) {
+      // Reports stored before content hashing cannot be compared
+      const changed = existing.content_hash !== null && existing.content_hash !== contentHash;
+
+      if (changed) {
+        logger.warn(`Report ${metadata.report_id} from ${metadata.org_name} was re-sent with different content`);
+      } else {
+        logger.info(`Report ${metadata.report_id} from ${metadata.org_name} already exists, skipping`);
+      }
+
+      return { id: existing.id, inserted: false, changed };
     }
 
-    logger.info(`Inserted ${recordCount} DMARC records for report ${reportId}`);
+    const records = buildRecordInputs(report.records, policy);
+
+    const reportId = insertDmarcReportWithRecords(
+      {
+        report_id: metadata.report_id,
+        org_name: metadata.org_name,
+        email: metadata.email,
+        date_begin: metadata.date_begin,
+        date_end: metadata.date_end,
+        domain: policy.domain,
+        policy_published: JSON.stringify(policy),
+        ...encodeRawXml(xmlContent),
+        schema_version: report.schema_version,
+        generator: metadata.generator,
+        np: policy.np,
+        testing: policy.testing,
+        discovery_method: policy.discovery_method,
+        source_account: sourceAccount,
+        content_hash: contentHash,
+        import_status: 'complete',
+        import_heartbeat_at: null,
+      },
+      records
+    );
+
+    logger.info(`Inserted DMARC report: ${metadata.report_id} (ID: ${reportId}, schema: ${report.schema_version}) with ${records.length} records`);
 
-    return reportId;
+    return { id: reportId, inserted: true, changed: false };
   } catch (error) {
-    logger.error('Error parsing DMARC XML:', error);
+    logger.error('Error storing DMARC report:', error);
     throw error;
   }
 }
@@ -0,0 +1,352 @@
+/**
+ * DMARC Stream Parser Service
+ * SAX-based parser for very large aggregate reports: records are validated and
+ * inserted in chunks while the document is read, so memory use does not grow with the report
+ */
+
+import sax from 'sax';
+import { createGzip } from 'zlib';
+import { StringDecoder } from 'string_decoder';
+import {
+  insertDmarcReport,
+  insertDmarcRecordBatch,
+  completeDmarcReportImport,
+  touchDmarcReportImport,
+  deleteDmarcReport,
+} from '../db/client';
+import {
+  DMARCBIS_NAMESPACE,
+  normalizeHeader,
+  checkOwnedDomain,
+  buildRecordInputs,
+  createReportHasher,
+  findExistingReport,
+  quarantineDmarcReport,
+  quarantineChangedDuplicate,
+  toOptionalString,
+} from './dmarc-parser';
+import type { DmarcRejection, NormalizedDmarcHeader } from './dmarc-parser';
+import {
+  validateSchema,
+  recordSchema,
+  reportMetadataSchema,
+  policyPublishedSchema,
+} from './report-validator';
+import type { DmarcXmlRecord } from './report-validator';
+import { logger } from '../utils/logger';
+import type { ParseResult } from '../types/ingest';
+
+// Payloads above this size are parsed with the streaming parser
+export const STREAMING_THRESHOLD = 5 * 1024 * 1024;
+
+const RECORD_CHUNK_SIZE = 500;
+const INPUT_CHUNK_SIZE = 64 * 1024;
+
+// Interval for refreshing the import lease of a report being streamed (ms)
+const IMPORT_HEARTBEAT_INTERVAL = 60 * 1000;
+
+interface ElementNode {
+  name: string;
+  children: Record<string, unknown>;
+  hasChildren: boolean;
+  text: string;
+}
+
+/**
+ * Strip a namespace prefix (dmarc:record → record)
+ */
+function localName(name: string): string {
+  const idx = name.indexOf(':');
+  return idx === -1 ? name : name.slice(idx + 1);
+}
+
+/**
+ * Add a child value, turning repeated elements into arrays (like fast-xml-parser)
+ */
+function addChild(node: ElementNode, name: string, value: unknown): void {
+  node.hasChildren = true;
+  const current = node.children[name];
+
+  if (current === undefined) {
+    node.children[name] = value;
+  } else if (Array.isArray(current)) {
+    current.push(value);
+  } else {
+    node.children[name] = [current, value];
+  }
+}
+
+/**
+ * Read a text field of a parsed element (null if the element or the field is missing)
+ */
+function childText(element: unknown, name: string): string | null {
+  if (element === null || typeof element !== 'object') return null;
+  return toOptionalString((element as Record<string, unknown>)[name]);
+}
+
+/**
+ * Split a buffer into chunks for the streaming parser
+ */
+export function* chunkBuffer(content: Buffer, size: number = INPUT_CHUNK_SIZE): Generator<Buffer> {
+  for (let offset = 0; offset < content.length; offset += size) {
+    yield content.subarray(offset, offset + size);
+  }
+}
+
+/**
+ * Parse a DMARC aggregate report from a stream and store it in the database.
+ * Records are written in chunks while the report is marked as importing; the report
+ * only becomes visible for analysis once all records are stored.
+ */
+export async function parseDmarcXmlStream(
+  input: AsyncIterable<Buffer>,
+  sourceAccount: string | null = null
+): Promise<ParseResult | null> {
+  logger.info('Parsing DMARC XML (streaming)...');
+
+  const parser = sax.parser(true, { trim: false, normalize: false, position: true });
+  const decoder = new StringDecoder('utf-8');
+
+  // Keep a compressed copy of the raw payload for storage (and for the quarantine)
+  const gzip = createGzip();
+  const gzipChunks: Buffer[] = [];
+  gzip.on('data', (chunk: Buffer) => gzipChunks.push(chunk));
+  const gzipDone = new Promise<void>((resolve, reject) => {
+    gzip.once('end', resolve);
+    gzip.once('error', reject);
+  });
+
+  const stack: ElementNode[] = [];
+  const state = {
+    isFeedback: null as boolean | null, // root element seen and named feedback
+    hasDmarcbisNamespace: false,
+    header: null as NormalizedDmarcHeader | null,
+    hasher: null as ReturnType<typeof createReportHasher> | null,
+    rejection: null as DmarcRejection | null,
+    existing: null as { id: number; content_hash: string | null } | null,
+    reportId: null as number | null,
+    heartbeatAt: 0,
+    recordCount: 0,
+    pendingRecords: [] as DmarcXmlRecord[],
+  };
+
+  const reject = (reason: DmarcRejection['reason'], errors: string[]) => {
+    if (state.rejection) return;
+    state.rejection = {
+      success: false,
+      reason,
+      errors,
+      org_name: state.header?.metadata.org_name ?? null,
+      report_id: state.header?.metadata.report_id ?? null,
+      domain: state.header?.policy.domain ?? null,
+    };
+  };
+
+  const isMalformed = () => state.rejection?.reason === 'malformed';
+
+  const flushRecords = () => {
+    if (state.reportId !== null && state.pendingRecords.length > 0) {
+      insertDmarcRecordBatch(state.reportId, buildRecordInputs(state.pendingRecords, state.header!.policy));
+    }
+    state.pendingRecords = [];
+  };
+
+  /**
+   * Validate metadata and policy (they precede the records), then create the report row
+   */
+  const startReport = (feedback: ElementNode) => {
+    const metadata = validateSchema(reportMetadataSchema, feedback.children.report_metadata, 'feedback.report_metadata');
+    const policy = validateSchema(policyPublishedSchema, feedback.children.policy_published, 'feedback.policy_published');
+
+    if (!metadata.success || !policy.success) {
+      state.rejection = {
+        success: false,
+        reason: 'validation',
+        errors: [...(metadata.success ? [] : metadata.errors), ...(policy.success ? [] : policy.errors)],
+        org_name: childText(feedback.children.report_metadata, 'org_name'),
+        report_id: childText(feedback.children.report_metadata, 'report_id'),
+        domain: childText(feedback.children.policy_published, 'domain'),
+      };
+      return;
+    }
+
+    const header = normalizeHeader(state.hasDmarcbisNamespace, metadata.data, policy.data);
+    state.header = header;
+    state.hasher = createReportHasher(header);
+
+    const unowned = checkOwnedDomain(header);
+    if (unowned) {
+      state.rejection = unowned;
+      return;
+    }
+
+    const existing = findExistingReport(header);
+    if (existing) {
+      // Keep reading to hash the content and detect changed re-sends
+      state.existing = existing;
+      return;
+    }
+
+    state.reportId = insertDmarcReport({
+      report_id: header.metadata.report_id,
+      org_name: header.metadata.org_name,
+      email: header.metadata.email,
+      date_begin: header.metadata.date_begin,
+      date_end: header.metadata.date_end,
+      domain: header.policy.domain,
+      policy_published: JSON.stringify(header.policy),
+      raw_xml: '',
+      raw_xml_gz: null,
+      schema_version: header.schema_version,
+      generator: header.metadata.generator,
+      np: header.policy.np,
+      testing: header.policy.testing,
+      discovery_method: header.policy.discovery_method,
+      source_account: sourceAccount,
+      content_hash: null,
+      import_status: 'importing',
+      import_heartbeat_at: Math.floor(Date.now() / 1000),
+    });
+    state.heartbeatAt = Date.now();
+  };
+
+  parser.onopentag = (tag) => {
+    const name = localName(tag.name);
+
+    if (stack.length === 0) {
+      state.isFeedback = name === 'feedback';
+      state.hasDmarcbisNamespace = Object.values(tag.attributes).some((value) => value === DMARCBIS_NAMESPACE);
+    } else if (stack.length === 1 && name === 'record' && !state.header && !state.rejection) {
+      startReport(stack[0]);
+    }
+
+    stack.push({ name, children: {}, hasChildren: false, text: '' });
+  };
+
+  parser.ontext = (text) => {
+    if (stack.length > 0) stack[stack.length - 1].text += text;
+  };
+
+  parser.oncdata = parser.ontext;
+
+  parser.onclosetag = () => {
+    const node = stack.pop();
+    if (!node || stack.length === 0) return;
+
+    const value = node.hasChildren ? node.children : node.text;
+
+    // Records are handled one at a time and never kept on the document
+    if (stack.length === 1 && node.name === 'record') {
+      const index = state.recordCount++;
+      if (state.rejection || !state.hasher) return;
+
+      const record = validateSchema(recordSchema, value, `feedback.record.${index}`);
+      if (!record.success) {
+        reject('validation', record.errors);
+        return;
+      }
+
+      state.hasher.addRecord(record.data);
+      if (state.reportId !== null) {
+        state.pendingRecords.push(record.data);
+        if (state.pendingRecords.length >= RECORD_CHUNK_SIZE) {
+          flushRecords();
+        }
+      }
+      return;
+    }
+
+    addChild(stack[stack.length - 1], node.name, value);
+  };
+
+  parser.onerror = (error) => {
+    reject('malformed', [error.message.replace(/\n/g, ' ')]);
+  };
+
+  /**
+   * Drop a partially imported report
+   */
+  const abortImport = () => {
+    if (state.reportId !== null) {
+      deleteDmarcReport(state.reportId);
+      state.reportId = null;
+    }
+  };
+
+  let quarantineError: Error | null = null;
+
+  try {
+    for await (const chunk of input) {
+      gzip.write(chunk);
+
+      // Keep the import lease alive while a large report is read
+      if (state.reportId !== null && Date.now() - state.heartbeatAt >= IMPORT_HEARTBEAT_INTERVAL) {
+        touchDmarcReportImport(state.reportId);
+        state.heartbeatAt = Date.now();
+      }
+
+      // After a syntax error sax refuses further input; the rest is only kept for the quarantine
+      if (state.isFeedback === false || isMalformed()) continue;
+      const text = decoder.write(chunk);
+      parser.write(state.isFeedback === null && stack.length === 0 ? text.replace(/^\uFEFF/, '') : text);
+    }
+
+    if (state.isFeedback !== false && !isMalformed()) {
+      parser.write(decoder.end());
+      parser.close();
+    }
+
+    gzip.end();
+    await gzipDone;
+
+    const rawXmlGz = Buffer.concat(gzipChunks);
+
+    if (state.isFeedback === false || (state.isFeedback === null && !state.rejection)) {
+      logger.error('Invalid DMARC XML: missing feedback element');
+      return null;
+    }
+
+    // A report without any record never reached startReport
+    if (!state.header && !state.rejection) {
+      reject('validation', ['feedback.record: Required']);
+    }
+
+    if (state.rejection) {
+      abortImport();
+      quarantineError = quarantineDmarcReport(rawXmlGz, state.rejection, sourceAccount);
+      throw quarantineError;
+    }
+
+    const header = state.header as NormalizedDmarcHeader;
+    const contentHash = (state.hasher as ReturnType<typeof createReportHasher>).digest();
+
+    if (state.existing) {
+      // Reports stored before content hashing cannot be compared
+      const changed = state.existing.content_hash !== null && state.existing.content_hash !== contentHash;
+
+      if (changed) {
+        logger.warn(`Report ${header.metadata.report_id} from ${header.metadata.org_name} was re-sent with different content`);
+        quarantineChangedDuplicate(rawXmlGz, header, state.existing.id, sourceAccount);
+      } else {
+        logger.info(`Report ${header.metadata.report_id} from ${header.metadata.org_name} already exists, skipping`);
+      }
+
+      return { id: state.existing.id, inserted: false, changed };
+    }
+
+    flushRecords();
+    const reportId = state.reportId as number;
+    completeDmarcReportImport(reportId, contentHash, { raw_xml: '', raw_xml_gz: rawXmlGz });
+
+    logger.info(`Inserted DMARC report: ${header.metadata.report_id} (ID: ${reportId}, schema: ${header.schema_version}) with ${state.recordCount} records (streamed)`);
+
+    return { id: reportId, inserted: true, changed: false };
+  } catch (error) {
+    abortImport();
+    gzip.destroy();
+    if (error !== quarantineError) {
+      logger.error('Error parsing DMARC XML stream:', error);
+    }
+    throw error;
+  }
+}
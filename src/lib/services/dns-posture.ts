@@ -0,0 +1,468 @@
+/**
+ * DNS Posture Service
+ * Live check of the DMARC, SPF, DKIM, MTA-STS and TLS-RPT records of monitored domains,
+ * stored in dns_checks to follow the findings over time
+ */
+
+import crypto from 'crypto';
+import { getDnsResolver, DnsResolver } from './dns-resolver';
+import { getOwnedDomains } from './report-validator';
+import { recordDnsPolicy } from './policy-history';
+import { getReportDomains, getRecordDkimSelectors, insertDnsCheck, getLatestDnsChecks } from '../db/client';
+import { logger } from '../utils/logger';
+
+// Domains are checked again by the scheduler after this time
+const DNS_CHECK_INTERVAL_HOURS = 24;
+
+// RFC 7208 limits for evaluating SPF
+const SPF_LOOKUP_LIMIT = 10;
+const SPF_VOID_LOOKUP_LIMIT = 2;
+const SPF_MAX_EXPANSION = 2 * SPF_LOOKUP_LIMIT; // stop following includes beyond this
+
+const SPF_LOOKUP_MECHANISMS = new Set(['include', 'a', 'mx', 'ptr', 'exists']);
+const SPF_MECHANISMS = new Set([...Array.from(SPF_LOOKUP_MECHANISMS), 'all', 'ip4', 'ip6']);
+
+export type DnsCheckArea = 'dmarc' | 'spf' | 'dkim' | 'mta_sts' | 'tls_rpt';
+
+export type DnsFindingSeverity = 'critical' | 'warning' | 'info';
+
+export interface DnsFinding {
+  check: DnsCheckArea;
+  severity: DnsFindingSeverity;
+  code: string; // stable identifier, e.g. 'spf_too_many_lookups'
+  message: string;
+}
+
+export interface DkimKeyCheck {
+  selector: string;
+  record: string | null; // null if no key was found
+  key_type: string | null; // 'rsa' | 'ed25519'
+  key_bits: number | null; // RSA modulus length
+}
+
+export interface DnsPostureResult {
+  domain: string;
+  resolver: string;
+  status: 'ok' | 'warning' | 'critical'; // most severe finding
+  dmarc_record: string | null;
+  spf_record: string | null;
+  spf_lookups: number | null;
+  dkim_keys: DkimKeyCheck[];
+  mta_sts_record: string | null;
+  tls_rpt_record: string | null;
+  findings: DnsFinding[];
+}
+
+interface CheckContext {
+  resolver: DnsResolver;
+  findings: DnsFinding[];
+}
+
+interface SpfState {
+  lookups: number;
+  voidLookups: number;
+}
+
+/**
+ * Parse a "tag=value; tag=value" record (DMARC, DKIM, MTA-STS, TLS-RPT). Tag names are lowercased.
+ */
+export function parseTagList(record: string): Map<string, string> {
+  const tags = new Map<string, string>();
+
+  for (const part of record.split(';')) {
+    const index = part.indexOf('=');
+    if (index > 0) {
+      tags.set(part.slice(0, index).trim().toLowerCase(), part.slice(index + 1).trim());
+    }
+  }
+
+  return tags;
+}
+
+function addFinding(ctx: CheckContext, check: DnsCheckArea, severity: DnsFindingSeverity, code: string, message: string): void {
+  ctx.findings.push({ check, severity, code, message });
+}
+
+/**
+ * Look up the TXT records of a name. Failed lookups are recorded as finding and return null.
+ */
+async function lookupTxt(ctx: CheckContext, name: string, check: DnsCheckArea): Promise<string[] | null> {
+  try {
+    return (await ctx.resolver.lookup(name, 'TXT')).values;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    addFinding(ctx, check, 'warning', 'dns_error', `DNS lookup for ${name} failed: ${reason}`);
+    return null;
+  }
+}
+
+/**
+ * Check the _dmarc record. Returns the record if there is one.
+ */
+async function checkDmarc(ctx: CheckContext, domain: string): Promise<string | null> {
+  const name = `_dmarc.${domain}`;
+  const values = await lookupTxt(ctx, name, 'dmarc');
+  if (values === null) {
+    return null;
+  }
+
+  const records = values.filter((value) => /^v\s*=\s*DMARC1\s*(;|$)/i.test(value));
+  if (records.length === 0) {
+    addFinding(ctx, 'dmarc', 'critical', 'dmarc_missing', `No DMARC record at ${name}`);
+    return null;
+  }
+  if (records.length > 1) {
+    addFinding(ctx, 'dmarc', 'critical', 'dmarc_multiple', `${records.length} DMARC records at ${name} – receivers ignore the policy`);
+  }
+
+  const record = records[0];
+  const tags = parseTagList(record);
+  const policy = tags.get('p')?.toLowerCase();
+
+  if (!policy || !['none', 'quarantine', 'reject'].includes(policy)) {
+    addFinding(ctx, 'dmarc', 'critical', 'dmarc_policy_invalid', `Invalid or missing policy (p=${policy ?? ''})`);
+  } else if (policy === 'none') {
+    addFinding(ctx, 'dmarc', 'warning', 'dmarc_policy_none', 'Policy p=none: spoofed messages are not rejected');
+  } else if (tags.get('sp')?.toLowerCase() === 'none') {
+    addFinding(ctx, 'dmarc', 'warning', 'dmarc_subdomain_none', 'Subdomain policy sp=none disables enforcement for subdomains');
+  }
+
+  const pct = tags.has('pct') ? Number(tags.get('pct')) : 100;
+  if (pct < 100) {
+    addFinding(ctx, 'dmarc', 'warning', 'dmarc_pct', `Policy applies to only ${pct}% of messages (pct=${pct})`);
+  }
+  if (tags.get('t')?.toLowerCase() === 'y') {
+    addFinding(ctx, 'dmarc', 'warning', 'dmarc_testing', 'Testing mode t=y: the policy is not enforced');
+  }
+  if (!tags.get('rua')) {
+    addFinding(ctx, 'dmarc', 'warning', 'dmarc_no_rua', 'No address for aggregate reports (rua)');
+  }
+
+  return record;
+}
+
+/**
+ * Fetch and walk an SPF record, following include and redirect.
+ * top: the record decides the result for the domain (the domain's own record or its redirect).
+ */
+async function expandSpf(
+  ctx: CheckContext,
+  domain: string,
+  state: SpfState,
+  path: string[],
+  top: boolean
+): Promise<string | null> {
+  const values = await lookupTxt(ctx, domain, 'spf');
+  if (values === null) {
+    return null;
+  }
+
+  const records = values.filter((value) => /^v=spf1(\s|$)/i.test(value));
+  if (records.length === 0) {
+    if (path.length === 0) {
+      addFinding(ctx, 'spf', 'critical', 'spf_missing', `No SPF record for ${domain}`);
+    } else {
+      // NXDOMAIN and empty answers are void lookups (RFC 7208 4.6.4); SERVFAIL and
+      // timeouts were already reported as dns_error by lookupTxt
+      if (values.length === 0) {
+        state.voidLookups++;
+      }
+      addFinding(ctx, 'spf', 'critical', 'spf_include_missing', `${domain} (included by ${path[path.length - 1]}) has no SPF record (permerror)`);
+    }
+    return null;
+  }
+  if (records.length > 1) {
+    addFinding(ctx, 'spf', 'critical', 'spf_multiple', `${records.length} SPF records for ${domain} (permerror)`);
+  }
+
+  const record = records[0];
+  const follow = async (target: string, followTop: boolean) => {
+    const name = target.toLowerCase().replace(/\.$/, '');
+
+    if (name.includes('%')) {
+      addFinding(ctx, 'spf', 'info', 'spf_macro', `${name} contains macros and was not resolved`);
+    } else if (name === domain || path.includes(name)) {
+      addFinding(ctx, 'spf', 'critical', 'spf_loop', `SPF loop: ${[...path, domain, name].join(' → ')}`);
+    } else if (state.lookups <= SPF_MAX_EXPANSION) {
+      await expandSpf(ctx, name, state, [...path, domain], followTop);
+    }
+  };
+
+  let hasAll = false;
+  let redirect: string | null = null;
+
+  for (const term of record.split(/\s+/).slice(1).filter((t) => t.length > 0)) {
+    const modifier = /^([a-z][a-z0-9_.-]*)=(.*)$/i.exec(term);
+    if (modifier) {
+      if (modifier[1].toLowerCase() === 'redirect') {
+        redirect = modifier[2];
+      }
+      continue;
+    }
+
+    const match = /^([+\-~?]?)([a-z0-9]+)(?::([^/]*))?(\/.*)?$/i.exec(term);
+    const mechanism = match?.[2].toLowerCase();
+
+    if (!match || !mechanism || !SPF_MECHANISMS.has(mechanism)) {
+      addFinding(ctx, 'spf', 'critical', 'spf_syntax', `Invalid SPF term "${term}" in ${domain} (permerror)`);
+      continue;
+    }
+
+    if (SPF_LOOKUP_MECHANISMS.has(mechanism)) {
+      state.lookups++;
+    }
+
+    if (mechanism === 'ptr') {
+      addFinding(ctx, 'spf', 'warning', 'spf_ptr', `${domain} uses the deprecated ptr mechanism`);
+    } else if (mechanism === 'include' && match[3]) {
+      await follow(match[3], false);
+    } else if (mechanism === 'all') {
+      hasAll = true;
+      const qualifier = match[1] || '+';
+
+      if (top && qualifier === '+') {
+        addFinding(ctx, 'spf', 'critical', 'spf_pass_all', `${domain} allows every server to send with +all`);
+      } else if (top && qualifier === '?') {
+        addFinding(ctx, 'spf', 'warning', 'spf_neutral_all', `${domain} ends with ?all (neutral) – unauthorized servers are not rejected`);
+      }
+    }
+  }
+
+  // redirect is ignored when the record has an all mechanism
+  if (redirect && !hasAll) {
+    state.lookups++;
+    await follow(redirect, top);
+  } else if (top && !hasAll) {
+    addFinding(ctx, 'spf', 'warning', 'spf_no_all', `SPF record of ${domain} ends without an all mechanism (neutral)`);
+  }
+
+  return record;
+}
+
+/**
+ * Check the domain's SPF record including everything it includes
+ */
+async function checkSpf(ctx: CheckContext, domain: string): Promise<{ record: string | null; lookups: number | null }> {
+  const state: SpfState = { lookups: 0, voidLookups: 0 };
+  const record = await expandSpf(ctx, domain, state, [], true);
+
+  if (record === null) {
+    return { record: null, lookups: null };
+  }
+
+  if (state.lookups > SPF_LOOKUP_LIMIT) {
+    const count = state.lookups > SPF_MAX_EXPANSION ? `more than ${SPF_MAX_EXPANSION}` : String(state.lookups);
+    addFinding(ctx, 'spf', 'critical', 'spf_too_many_lookups', `SPF needs ${count} DNS lookups, ${SPF_LOOKUP_LIMIT} are allowed (permerror)`);
+  }
+  if (state.voidLookups > SPF_VOID_LOOKUP_LIMIT) {
+    addFinding(ctx, 'spf', 'critical', 'spf_void_lookups', `${state.voidLookups} void lookups, ${SPF_VOID_LOOKUP_LIMIT} are allowed (permerror)`);
+  }
+
+  return { record, lookups: state.lookups };
+}
+
+/**
+ * Key length of a base64 RSA public key (SubjectPublicKeyInfo, or PKCS#1 as some publish it)
+ */
+function rsaKeyBits(publicKey: string): number | null {
+  const der = Buffer.from(publicKey, 'base64');
+
+  for (const type of ['spki', 'pkcs1'] as const) {
+    try {
+      return crypto.createPublicKey({ key: der, format: 'der', type }).asymmetricKeyDetails?.modulusLength ?? null;
+    } catch {
+      // Try the next encoding
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check the DKIM key published for a selector
+ */
+async function checkDkimKey(ctx: CheckContext, domain: string, selector: string): Promise<DkimKeyCheck> {
+  const name = `${selector}._domainkey.${domain}`;
+  const result: DkimKeyCheck = { selector, record: null, key_type: null, key_bits: null };
+
+  const values = await lookupTxt(ctx, name, 'dkim');
+  if (values === null) {
+    return result;
+  }
+
+  const record = values.find((value) => /^v=DKIM1(;|\s|$)/i.test(value) || parseTagList(value).has('p'));
+  if (!record) {
+    addFinding(ctx, 'dkim', 'warning', 'dkim_missing', `No DKIM key at ${name}, although reports show signatures with s=${selector}`);
+    return result;
+  }
+
+  const tags = parseTagList(record);
+  const publicKey = (tags.get('p') || '').replace(/\s+/g, '');
+  result.record = record;
+  result.key_type = (tags.get('k') || 'rsa').toLowerCase();
+
+  if (!publicKey) {
+    addFinding(ctx, 'dkim', 'warning', 'dkim_revoked', `Key for s=${selector} is revoked (empty p=)`);
+  } else if (result.key_type === 'rsa') {
+    result.key_bits = rsaKeyBits(publicKey);
+
+    if (result.key_bits === null) {
+      addFinding(ctx, 'dkim', 'critical', 'dkim_invalid_key', `Key for s=${selector} is not a valid RSA key`);
+    } else if (result.key_bits < 1024) {
+      addFinding(ctx, 'dkim', 'critical', 'dkim_weak_key', `Key for s=${selector} has only ${result.key_bits} bits`);
+    } else if (result.key_bits < 2048) {
+      addFinding(ctx, 'dkim', 'warning', 'dkim_short_key', `Key for s=${selector} has ${result.key_bits} bits, 2048 are recommended`);
+    }
+  }
+
+  if (tags.get('t')?.split(':').map((flag) => flag.trim().toLowerCase()).includes('y')) {
+    addFinding(ctx, 'dkim', 'info', 'dkim_testing', `Key for s=${selector} is in testing mode (t=y)`);
+  }
+
+  return result;
+}
+
+/**
+ * Check the DKIM keys of every selector seen in reports for the domain
+ */
+async function checkDkim(ctx: CheckContext, domain: string): Promise<DkimKeyCheck[]> {
+  const selectors = getRecordDkimSelectors(domain);
+
+  if (selectors.length === 0) {
+    addFinding(ctx, 'dkim', 'info', 'dkim_no_selectors', 'No DKIM selectors known from reports yet');
+    return [];
+  }
+
+  const keys: DkimKeyCheck[] = [];
+  for (const selector of selectors) {
+    keys.push(await checkDkimKey(ctx, domain, selector));
+  }
+  return keys;
+}
+
+/**
+ * Check the MTA-STS and TLS-RPT records
+ */
+async function checkMailTransport(ctx: CheckContext, domain: string): Promise<{ mtaSts: string | null; tlsRpt: string | null }> {
+  const mtaStsValues = await lookupTxt(ctx, `_mta-sts.${domain}`, 'mta_sts');
+  const mtaStsRecords = (mtaStsValues || []).filter((value) => /^v=STSv1(;|\s|$)/i.test(value));
+  const mtaSts = mtaStsRecords[0] || null;
+
+  if (mtaStsValues !== null && !mtaSts) {
+    addFinding(ctx, 'mta_sts', 'info', 'mta_sts_missing', 'No MTA-STS record – incoming mail can be delivered without TLS');
+  }
+  if (mtaStsRecords.length > 1) {
+    addFinding(ctx, 'mta_sts', 'warning', 'mta_sts_multiple', `${mtaStsRecords.length} MTA-STS records at _mta-sts.${domain}`);
+  }
+  if (mtaSts && !parseTagList(mtaSts).get('id')) {
+    addFinding(ctx, 'mta_sts', 'warning', 'mta_sts_no_id', 'MTA-STS record without id – policy changes are not picked up');
+  }
+
+  const tlsRptValues = await lookupTxt(ctx, `_smtp._tls.${domain}`, 'tls_rpt');
+  const tlsRpt = (tlsRptValues || []).find((value) => /^v=TLSRPTv1(;|\s|$)/i.test(value)) || null;
+
+  if (tlsRptValues !== null && !tlsRpt) {
+    addFinding(
+      ctx,
+      'tls_rpt',
+      mtaSts ? 'warning' : 'info',
+      'tls_rpt_missing',
+      mtaSts ? 'MTA-STS without TLS-RPT – delivery problems go unnoticed' : 'No TLS-RPT record'
+    );
+  }
+  if (tlsRpt) {
+    const rua = (parseTagList(tlsRpt).get('rua') || '').split(',').map((uri) => uri.trim()).filter((uri) => uri.length > 0);
+
+    if (rua.length === 0 || rua.some((uri) => !/^(mailto|https):/i.test(uri))) {
+      addFinding(ctx, 'tls_rpt', 'warning', 'tls_rpt_invalid_rua', 'TLS-RPT record without a valid rua (mailto: or https:)');
+    }
+  }
+
+  return { mtaSts, tlsRpt };
+}
+
+/**
+ * Check the DNS records of a domain (not stored)
+ */
+export async function checkDomainPosture(domain: string, resolver: DnsResolver = getDnsResolver()): Promise<DnsPostureResult> {
+  const name = domain.trim().toLowerCase().replace(/\.$/, '');
+  const ctx: CheckContext = { resolver, findings: [] };
+
+  const dmarcRecord = await checkDmarc(ctx, name);
+  const spf = await checkSpf(ctx, name);
+  const dkimKeys = await checkDkim(ctx, name);
+  const { mtaSts, tlsRpt } = await checkMailTransport(ctx, name);
+
+  const status = ctx.findings.some((f) => f.severity === 'critical') ? 'critical'
+    : ctx.findings.some((f) => f.severity === 'warning') ? 'warning' : 'ok';
+
+  return {
+    domain: name,
+    resolver: resolver.name,
+    status,
+    dmarc_record: dmarcRecord,
+    spf_record: spf.record,
+    spf_lookups: spf.lookups,
+    dkim_keys: dkimKeys,
+    mta_sts_record: mtaSts,
+    tls_rpt_record: tlsRpt,
+    findings: ctx.findings,
+  };
+}
+
+/**
+ * Domains whose DNS is checked: OWNED_DOMAINS and the domains of stored reports
+ */
+export function getMonitoredDomains(): string[] {
+  const domains = new Set([...getOwnedDomains(), ...getReportDomains()]);
+  return Array.from(domains).sort();
+}
+
+/**
+ * Check the given domains (default: all monitored domains) and store the results
+ */
+export async function runDnsChecks(domains: string[] = getMonitoredDomains()): Promise<DnsPostureResult[]> {
+  const results: DnsPostureResult[] = [];
+
+  for (const domain of domains) {
+    const result = await checkDomainPosture(domain);
+
+    const checkId = insertDnsCheck({
+      domain: result.domain,
+      resolver: result.resolver,
+      status: result.status,
+      dmarc_record: result.dmarc_record,
+      spf_record: result.spf_record,
+      spf_lookups: result.spf_lookups,
+      dkim_keys: JSON.stringify(result.dkim_keys),
+      mta_sts_record: result.mta_sts_record,
+      tls_rpt_record: result.tls_rpt_record,
+      findings: JSON.stringify(result.findings),
+    });
+
+    // The published policy also goes into the policy history, next to what reporters see
+    if (result.dmarc_record) {
+      recordDnsPolicy(result.domain, checkId, Object.fromEntries(parseTagList(result.dmarc_record)));
+    }
+
+    logger.info(`DNS check ${result.domain}: ${result.status}, ${result.findings.length} finding(s)`);
+    results.push(result);
+  }
+
+  return results;
+}
+
+/**
+ * Check the monitored domains that were not checked within the check interval
+ */
+export async function runDueDnsChecks(): Promise<number> {
+  const checkedAt = new Map(getLatestDnsChecks().map((check) => [check.domain, Date.parse(`${check.checked_at.replace(' ', 'T')}Z`)]));
+  const cutoff = Date.now() - DNS_CHECK_INTERVAL_HOURS * 60 * 60 * 1000;
+
+  const due = getMonitoredDomains().filter((domain) => !((checkedAt.get(domain) ?? 0) > cutoff));
+  if (due.length > 0) {
+    await runDnsChecks(due);
+  }
+
+  return due.length;
+}
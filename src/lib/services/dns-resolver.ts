@@ -0,0 +1,164 @@
+/**
+ * DNS Resolver Service
+ * Pluggable DNS lookups: the system resolver, configured DNS servers or a local zone file for testing
+ */
+
+import fs from 'fs';
+import net from 'net';
+import { Resolver } from 'dns/promises';
+import { logger } from '../utils/logger';
+
+export type DnsRecordType = 'A' | 'AAAA' | 'PTR' | 'TXT';
+
+export interface DnsAnswer {
+  values: string[]; // empty if the name does not exist or has no records of this type
+  ttl: number | null; // seconds, null if the resolver does not report the TTL (system resolver: PTR and TXT)
+}
+
+/**
+ * A DNS resolver. PTR lookups take the IP address, not the in-addr.arpa name.
+ * TXT values are the record's strings joined into one.
+ * Throws on lookup failures (timeouts, SERVFAIL, ...), not on missing records.
+ */
+export interface DnsResolver {
+  name: string;
+  lookup(name: string, type: DnsRecordType): Promise<DnsAnswer>;
+}
+
+/**
+ * Zone file of the local test resolver, e.g.
+ * { "203.0.113.5": { "PTR": ["mail.example.com"] }, "mail.example.com": { "A": ["203.0.113.5"] },
+ *   "_dmarc.example.com": { "TXT": ["v=DMARC1; p=reject"] } }
+ */
+type ZoneFile = Record<string, Partial<Record<DnsRecordType, string[]>>>;
+
+const DNS_TIMEOUT = 5000; // ms per try
+const DNS_TRIES = 2;
+
+// Error codes for names or record types that do not exist
+const NO_DATA_CODES = new Set(['ENOTFOUND', 'ENODATA']);
+
+const EMPTY_ANSWER: DnsAnswer = { values: [], ttl: null };
+
+let resolver: DnsResolver | null = null;
+
+/**
+ * Build the in-addr.arpa / ip6.arpa name of an IP address
+ */
+export function reverseName(ip: string): string {
+  if (net.isIPv4(ip)) {
+    return `${ip.split('.').reverse().join('.')}.in-addr.arpa`;
+  }
+
+  // Expand "::" and a trailing dotted IPv4 part to eight 16-bit groups
+  const toGroups = (part: string): string[] => part
+    ? part.split(':').flatMap((group) => {
+        if (!group.includes('.')) return [group];
+        const octets = group.split('.').map(Number);
+        return [((octets[0] << 8) | octets[1]).toString(16), ((octets[2] << 8) | octets[3]).toString(16)];
+      })
+    : [];
+
+  const [head, tail] = ip.split('::');
+  const headGroups = toGroups(head);
+  const tailGroups = tail === undefined ? [] : toGroups(tail);
+  const groups = tail === undefined
+    ? headGroups
+    : [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+
+  const nibbles = groups.map((group) => group.padStart(4, '0')).join('').split('').reverse();
+  return `${nibbles.join('.')}.ip6.arpa`;
+}
+
+/**
+ * Resolver using the system DNS configuration, or the given servers ("1.1.1.1", "127.0.0.1:5353").
+ * Only A and AAAA answers carry a TTL; Node's resolvePtr and resolveTxt do not report it.
+ */
+export function createSystemResolver(servers: string[] = []): DnsResolver {
+  const dns = new Resolver({ timeout: DNS_TIMEOUT, tries: DNS_TRIES });
+
+  if (servers.length > 0) {
+    dns.setServers(servers);
+  }
+
+  const query = async (name: string, type: DnsRecordType): Promise<DnsAnswer> => {
+    if (type === 'PTR') {
+      // resolvePtr keeps the error codes that reverse() reports as ENOTFOUND
+      return { values: await dns.resolvePtr(reverseName(name)), ttl: null };
+    }
+
+    if (type === 'TXT') {
+      // Long records are split into strings of up to 255 characters
+      const records = await dns.resolveTxt(name);
+      return { values: records.map((chunks) => chunks.join('')), ttl: null };
+    }
+
+    const records = type === 'A'
+      ? await dns.resolve4(name, { ttl: true })
+      : await dns.resolve6(name, { ttl: true });
+
+    return {
+      values: records.map((record) => record.address),
+      ttl: records.length > 0 ? Math.min(...records.map((record) => record.ttl)) : null,
+    };
+  };
+
+  return {
+    name: servers.length > 0 ? `dns (${servers.join(', ')})` : 'dns (system)',
+    async lookup(name, type) {
+      try {
+        return await query(name, type);
+      } catch (error) {
+        if (NO_DATA_CODES.has((error as NodeJS.ErrnoException).code || '')) {
+          return EMPTY_ANSWER;
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Resolver answering from a JSON zone file only (local test resolver, no network access)
+ */
+export function createZoneFileResolver(filePath: string): DnsResolver {
+  const zone = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as ZoneFile;
+
+  // Names are case-insensitive
+  const entries = new Map(Object.entries(zone).map(([name, records]) => [name.toLowerCase(), records]));
+
+  return {
+    name: `zone file (${filePath})`,
+    async lookup(name, type) {
+      const values = entries.get(name.toLowerCase())?.[type];
+      return values ? { values, ttl: null } : EMPTY_ANSWER;
+    },
+  };
+}
+
+/**
+ * Get the configured resolver: DNS_ZONE_FILE, else DNS_SERVERS, else the system resolver
+ */
+export function getDnsResolver(): DnsResolver {
+  if (resolver) {
+    return resolver;
+  }
+
+  const zoneFile = process.env.DNS_ZONE_FILE;
+  const servers = (process.env.DNS_SERVERS || '')
+    .split(',')
+    .map((server) => server.trim())
+    .filter((server) => server.length > 0);
+
+  resolver = zoneFile ? createZoneFileResolver(zoneFile) : createSystemResolver(servers);
+  logger.info(`Using DNS resolver: ${resolver.name}`);
+
+  return resolver;
+}
+
+/**
+ * Replace the resolver (null: back to the configured one)
+ */
+export function setDnsResolver(custom: DnsResolver | null): void {
+  resolver = custom;
+}
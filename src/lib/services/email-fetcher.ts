@@ -1,274 +1,338 @@
 /**
  * Email Fetcher Service
- * Fetches DMARC reports via IMAP and processes them
+ * Fetches DMARC and TLS-RPT reports from one or more IMAP accounts and processes them
  */
 
 import Imap from 'imap';
-import { simpleParser, ParsedMail, Attachment } from 'mailparser';
-import AdmZip from 'adm-zip';
-import { gunzipSync } from 'zlib';
-import { parseDmarcXml } from './dmarc-parser';
-import { insertProcessingLog } from '../db/client';
+import { simpleParser, ParsedMail } from 'mailparser';
+import { processParsedEmail, hasStoredReport } from './report-ingest';
+import { insertProcessingLog, getImapSyncState, saveImapSyncState } from '../db/client';
 import { logger } from '../utils/logger';
 
-interface ImapConfig {
+/**
+ * What to do with an email once its reports were stored
+ * - delete: flag \Deleted and expunge
+ * - move:   move to another folder (e.g. an archive folder)
+ * - flag:   only mark as read, keep the message in place
+ */
+export type ImapPostAction = 'delete' | 'move' | 'flag';
+
+const POST_ACTIONS: ImapPostAction[] = ['delete', 'move', 'flag'];
+
+export interface ImapAccountConfig {
+  name: string;
   user: string;
   password: string;
   host: string;
   port: number;
   tls: boolean;
+  folders: string[];
+  postAction: ImapPostAction;
+  moveTo: string | null;
 }
 
 /**
- * Get IMAP configuration from environment
+ * Read one account from environment variables with the given prefix
+ * (IMAP_ for the default account, IMAP_<NAME>_ for named accounts)
  */
-function getImapConfig(): ImapConfig {
+function readAccountConfig(name: string, prefix: string): ImapAccountConfig {
+  const postAction = (process.env[`${prefix}POST_ACTION`] || 'delete').toLowerCase() as ImapPostAction;
+
+  if (!POST_ACTIONS.includes(postAction)) {
+    throw new Error(`Invalid ${prefix}POST_ACTION "${postAction}" for IMAP account ${name} (expected delete, move or flag)`);
+  }
+
+  const moveTo = process.env[`${prefix}MOVE_TO`] || null;
+  if (postAction === 'move' && !moveTo) {
+    throw new Error(`${prefix}MOVE_TO is required for IMAP account ${name} with post action "move"`);
+  }
+
+  const folders = (process.env[`${prefix}FOLDERS`] || 'INBOX')
+    .split(',')
+    .map((f) => f.trim())
+    .filter((f) => f.length > 0);
+
   return {
-    user: process.env.IMAP_USER || '',
-    password: process.env.IMAP_PASSWORD || '',
-    host: process.env.IMAP_HOST || '',
-    port: parseInt(process.env.IMAP_PORT || '993'),
+    name,
+    user: process.env[`${prefix}USER`] || '',
+    password: process.env[`${prefix}PASSWORD`] || '',
+    host: process.env[`${prefix}HOST`] || '',
+    port: parseInt(process.env[`${prefix}PORT`] || '993'),
     tls: true,
+    folders,
+    postAction,
+    moveTo,
   };
 }
 
+function getNamedAccounts(): string[] {
+  return (process.env.IMAP_ACCOUNTS || '')
+    .split(',')
+    .map((n) => n.trim())
+    .filter((n) => n.length > 0);
+}
+
 /**
- * Extract XML content from attachment
+ * Get the names of the configured IMAP accounts.
+ * IMAP_ACCOUNTS lists named accounts (e.g. "main,archive" → IMAP_MAIN_HOST, IMAP_ARCHIVE_HOST, ...).
+ * Without it, the single IMAP_HOST/IMAP_USER/... account is used ("default").
  */
-function extractXmlFromAttachment(attachment: Attachment): string | null {
-  const filename = attachment.filename || '';
-  const content = attachment.content;
+export function getImapAccountNames(): string[] {
+  const names = getNamedAccounts();
+  return names.length > 0 ? names : ['default'];
+}
 
-  try {
-    // Handle GZ files
-    if (filename.endsWith('.gz')) {
-      logger.debug(`Extracting GZ file: ${filename}`);
-      const decompressed = gunzipSync(content);
-      return decompressed.toString('utf-8');
-    }
+/**
+ * Get the configuration of one IMAP account from environment (throws if it is invalid)
+ */
+export function getImapAccount(name: string): ImapAccountConfig {
+  if (getNamedAccounts().length === 0) {
+    return readAccountConfig(name, 'IMAP_');
+  }
 
-    // Handle ZIP files
-    if (filename.endsWith('.zip')) {
-      logger.debug(`Extracting ZIP file: ${filename}`);
-      const zip = new AdmZip(content);
-      const entries = zip.getEntries();
+  const key = name.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+  return readAccountConfig(name, `IMAP_${key}_`);
+}
 
-      if (entries.length === 0) {
-        logger.warn(`ZIP file ${filename} is empty`);
-        return null;
-      }
+/**
+ * Connect and authenticate to an IMAP account
+ */
+function connect(account: ImapAccountConfig): Promise<Imap> {
+  return new Promise((resolve, reject) => {
+    logger.info(`Connecting to IMAP server: ${account.host}:${account.port} (account: ${account.name})`);
+
+    const imap = new Imap({
+      user: account.user,
+      password: account.password,
+      host: account.host,
+      port: account.port,
+      tls: account.tls,
+      tlsOptions: { rejectUnauthorized: false },
+    });
+
+    let ready = false;
+
+    imap.once('ready', () => {
+      logger.info('IMAP connection ready');
+      ready = true;
+      resolve(imap);
+    });
 
-      // Get first XML file in ZIP
-      const xmlEntry = entries.find(e => e.entryName.endsWith('.xml'));
-      if (xmlEntry) {
-        return xmlEntry.getData().toString('utf-8');
+    imap.on('error', (err: Error) => {
+      logger.error('IMAP error:', err);
+      if (!ready) {
+        reject(err);
       }
+    });
 
-      // If no .xml extension, try first entry
-      return entries[0].getData().toString('utf-8');
-    }
+    imap.once('end', () => {
+      logger.info('IMAP connection ended');
+    });
 
-    // Handle raw XML files
-    if (filename.endsWith('.xml')) {
-      logger.debug(`Reading XML file: ${filename}`);
-      return content.toString('utf-8');
-    }
+    imap.connect();
+  });
+}
 
-    logger.warn(`Unknown attachment format: ${filename}`);
-    return null;
-  } catch (error) {
-    logger.error(`Error extracting ${filename}:`, error);
-    return null;
-  }
+function openBox(imap: Imap, folder: string): Promise<Imap.Box> {
+  return new Promise((resolve, reject) => {
+    imap.openBox(folder, false, (err, box) => (err ? reject(err) : resolve(box)));
+  });
 }
 
 /**
- * Process a single email message
+ * Search for messages with a UID above the last processed one
  */
-async function processEmail(
-  imap: Imap,
-  seqno: number,
-  stream: NodeJS.ReadableStream
-): Promise<void> {
-  try {
-    const parsed = await simpleParser(stream);
-    const subject = parsed.subject || 'No Subject';
-    const from = parsed.from?.text || 'Unknown';
-
-    logger.info(`Processing email: ${subject} from ${from}`);
-
-    if (!parsed.attachments || parsed.attachments.length === 0) {
-      logger.warn('Email has no attachments, skipping');
-      await insertProcessingLog({
-        email_uid: seqno.toString(),
-        subject,
-        from_address: from,
-        attachment_count: 0,
-        status: 'SKIPPED',
-        error_message: 'No attachments found',
+function searchNewUids(imap: Imap, lastUid: number): Promise<number[]> {
+  return new Promise((resolve, reject) => {
+    imap.search([['UID', `${lastUid + 1}:*`]], (err, results) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      // "n:*" always matches the highest UID, even if it is below n
+      resolve((results || []).filter((uid) => uid > lastUid).sort((a, b) => a - b));
+    });
+  });
+}
+
+/**
+ * Run an IMAP command that only reports an error through its callback
+ */
+function runCommand(command: (cb: (err: Error) => void) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    command((err) => (err ? reject(err) : resolve()));
+  });
+}
+
+/**
+ * Download the raw content of a single message by UID (without setting \Seen)
+ */
+function fetchMessage(imap: Imap, uid: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const fetch = imap.fetch(uid, { bodies: '' });
+    const chunks: Buffer[] = [];
+    let found = false;
+
+    fetch.on('message', (msg) => {
+      found = true;
+      msg.on('body', (stream) => {
+        stream.on('data', (chunk: Buffer) => chunks.push(chunk));
       });
-      return;
-    }
+    });
 
-    let processedCount = 0;
+    fetch.once('error', (err) => {
+      logger.error(`Fetch error for UID ${uid}:`, err);
+      reject(err);
+    });
 
-    for (const attachment of parsed.attachments) {
-      const xmlContent = extractXmlFromAttachment(attachment);
+    fetch.once('end', () => {
+      resolve(found ? Buffer.concat(chunks) : null);
+    });
+  });
+}
 
-      if (xmlContent) {
-        try {
-          await parseDmarcXml(xmlContent);
-          processedCount++;
-        } catch (error) {
-          logger.error('Error parsing DMARC XML:', error);
-        }
-      }
-    }
+// stored: at least one report was stored (or already existed); unusable: the email holds no
+// usable report; failed: processing failed (e.g. a database error) and is retried on the next run
+type EmailOutcome = 'stored' | 'unusable' | 'failed';
 
-    if (processedCount > 0) {
-      // Mark email for deletion
-      imap.addFlags(seqno, ['\\Deleted'], (err) => {
-        if (err) {
-          logger.error('Error marking email for deletion:', err);
-        } else {
-          logger.info(`Marked email ${seqno} for deletion`);
-        }
-      });
+/**
+ * Record an email that could not be processed in processing_log
+ */
+function logEmailFailure(uid: number, error: unknown): void {
+  insertProcessingLog({
+    email_uid: uid.toString(),
+    source: 'imap',
+    subject: 'Unknown',
+    from_address: 'Unknown',
+    attachment_count: 0,
+    report_name: null,
+    status: 'FAILED',
+    error_message: error instanceof Error ? error.message : String(error),
+  });
+}
 
-      await insertProcessingLog({
-        email_uid: seqno.toString(),
-        subject,
-        from_address: from,
-        attachment_count: parsed.attachments.length,
-        status: 'SUCCESS',
-        error_message: null,
-      });
-    } else {
-      await insertProcessingLog({
-        email_uid: seqno.toString(),
-        subject,
-        from_address: from,
-        attachment_count: parsed.attachments.length,
-        status: 'FAILED',
-        error_message: 'No valid DMARC XML found in attachments',
-      });
-    }
+/**
+ * Process a single email message
+ */
+async function processEmail(
+  uid: number,
+  content: Buffer,
+  account: ImapAccountConfig
+): Promise<EmailOutcome> {
+  let parsed: ParsedMail;
+  try {
+    parsed = await simpleParser(content);
   } catch (error) {
-    logger.error(`Error processing email ${seqno}:`, error);
-    await insertProcessingLog({
-      email_uid: seqno.toString(),
-      subject: 'Unknown',
-      from_address: 'Unknown',
-      attachment_count: 0,
-      status: 'FAILED',
-      error_message: error instanceof Error ? error.message : String(error),
-    });
+    // An unreadable message stays unreadable
+    logger.error(`Error parsing email UID ${uid}:`, error);
+    logEmailFailure(uid, error);
+    return 'unusable';
+  }
+
+  try {
+    return hasStoredReport(await processParsedEmail(parsed, uid.toString(), 'imap', account.name)) ? 'stored' : 'unusable';
+  } catch (error) {
+    logger.error(`Error processing email UID ${uid}:`, error);
+    logEmailFailure(uid, error);
+    return 'failed';
   }
 }
 
 /**
- * Fetch and process DMARC report emails from IMAP server
+ * Apply the account's post-processing action to a processed message.
+ * Deleted messages are only flagged here and expunged once the folder is done.
  */
-export async function fetchAndProcessEmails(): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const config = getImapConfig();
+async function applyPostAction(imap: Imap, account: ImapAccountConfig, uid: number): Promise<void> {
+  switch (account.postAction) {
+    case 'delete':
+      await runCommand((cb) => imap.addFlags(uid, ['\\Deleted'], cb));
+      break;
+    case 'move':
+      await runCommand((cb) => imap.addFlags(uid, ['\\Seen'], cb));
+      await runCommand((cb) => imap.move(uid, account.moveTo as string, cb));
+      break;
+    case 'flag':
+      await runCommand((cb) => imap.addFlags(uid, ['\\Seen'], cb));
+      break;
+  }
+}
+
+/**
+ * Process all new messages in one folder.
+ * Messages are handled one at a time in UID order and the sync state is saved after
+ * each one, so an interrupted run resumes after the last completed message. A message
+ * that failed with a (possibly transient) error ends the run, it is fetched again next time.
+ */
+async function processFolder(imap: Imap, account: ImapAccountConfig, folder: string): Promise<void> {
+  const box = await openBox(imap, folder);
+  logger.info(`${folder} opened. Total messages: ${box.messages.total}, UIDVALIDITY: ${box.uidvalidity}`);
+
+  const state = getImapSyncState(account.name, folder);
+  let lastUid = 0;
+
+  if (!state) {
+    logger.info(`No sync state for ${account.name}/${folder}, performing initial sync`);
+  } else if (state.uid_validity !== box.uidvalidity) {
+    // UIDs were reassigned by the server, previously seen UIDs are meaningless now
+    logger.warn(`UIDVALIDITY of ${account.name}/${folder} changed (${state.uid_validity} → ${box.uidvalidity}), resyncing folder`);
+  } else {
+    lastUid = state.last_uid;
+  }
+
+  const uids = await searchNewUids(imap, lastUid);
+
+  if (uids.length === 0) {
+    logger.info(`No new emails to process in ${folder}`);
+    saveImapSyncState(account.name, folder, box.uidvalidity, lastUid);
+    return;
+  }
 
-    if (!config.user || !config.password || !config.host) {
-      const error = 'IMAP configuration missing. Check environment variables.';
-      logger.error(error);
-      reject(new Error(error));
-      return;
+  logger.info(`Found ${uids.length} new email(s) in ${folder} (UID > ${lastUid})`);
+
+  let processedCount = 0;
+
+  for (const uid of uids) {
+    const content = await fetchMessage(imap, uid);
+    const outcome: EmailOutcome = content ? await processEmail(uid, content, account) : 'unusable';
+
+    if (outcome === 'failed') {
+      // Keep the sync state before this message
+      logger.warn(`Stopping ${folder} at UID ${uid}, the remaining messages are fetched on the next run`);
+      break;
     }
 
-    logger.info(`Connecting to IMAP server: ${config.host}:${config.port}`);
+    if (outcome === 'stored') {
+      await applyPostAction(imap, account, uid);
+      processedCount++;
+    }
 
-    const imap = new Imap({
-      user: config.user,
-      password: config.password,
-      host: config.host,
-      port: config.port,
-      tls: config.tls,
-      tlsOptions: { rejectUnauthorized: false },
-    });
+    saveImapSyncState(account.name, folder, box.uidvalidity, uid);
+  }
 
-    imap.once('ready', () => {
-      logger.info('IMAP connection ready');
+  if (account.postAction === 'delete' && processedCount > 0) {
+    await runCommand((cb) => imap.expunge(cb));
+  }
 
-      imap.openBox('INBOX', false, (err, box) => {
-        if (err) {
-          logger.error('Error opening INBOX:', err);
-          reject(err);
-          return;
-        }
-
-        logger.info(`INBOX opened. Total messages: ${box.messages.total}`);
-
-        // Search for unseen messages
-        imap.search(['UNSEEN'], async (err, results) => {
-          if (err) {
-            logger.error('Error searching emails:', err);
-            reject(err);
-            return;
-          }
-
-          if (!results || results.length === 0) {
-            logger.info('No new emails to process');
-            imap.end();
-            resolve();
-            return;
-          }
-
-          logger.info(`Found ${results.length} unread email(s)`);
-
-          const fetch = imap.fetch(results, { bodies: '' });
-          const processingPromises: Promise<void>[] = [];
-
-          fetch.on('message', (msg, seqno) => {
-            msg.on('body', (stream) => {
-              processingPromises.push(processEmail(imap, seqno, stream));
-            });
-          });
-
-          fetch.once('error', (err) => {
-            logger.error('Fetch error:', err);
-            reject(err);
-          });
-
-          fetch.once('end', async () => {
-            logger.info('Finished fetching emails');
-
-            // Wait for all emails to be processed
-            try {
-              await Promise.all(processingPromises);
-              logger.info('All emails processed');
-
-              // Expunge deleted messages
-              imap.expunge((err) => {
-                if (err) {
-                  logger.error('Error expunging:', err);
-                }
-                imap.end();
-              });
-            } catch (error) {
-              logger.error('Error processing emails:', error);
-              imap.end();
-              reject(error);
-            }
-          });
-        });
-      });
-    });
+  logger.info(`Processed ${processedCount} of ${uids.length} email(s) in ${folder} (post action: ${account.postAction})`);
+}
 
-    imap.once('error', (err) => {
-      logger.error('IMAP error:', err);
-      reject(err);
-    });
+/**
+ * Fetch and process DMARC report emails from all folders of one IMAP account
+ */
+export async function fetchAccountEmails(account: ImapAccountConfig): Promise<void> {
+  if (!account.user || !account.password || !account.host) {
+    const error = `IMAP configuration missing for account ${account.name}. Check environment variables.`;
+    logger.error(error);
+    throw new Error(error);
+  }
 
-    imap.once('end', () => {
-      logger.info('IMAP connection ended');
-      resolve();
-    });
+  const imap = await connect(account);
 
-    imap.connect();
-  });
+  try {
+    for (const folder of account.folders) {
+      await processFolder(imap, account, folder);
+    }
+  } finally {
+    imap.end();
+  }
 }
@@ -0,0 +1,141 @@
+/**
+ * Failure Report Parser Service
+ * Parses DMARC failure (forensic/RUF) reports in ARF format according to RFC 6591
+ */
+
+import type { ParsedMail } from 'mailparser';
+import {
+  insertDmarcFailureReport,
+  getFailureReportByMessageId,
+} from '../db/client';
+import { logger } from '../utils/logger';
+import type { ParseResult } from '../types/ingest';
+
+const FEEDBACK_REPORT_TYPE = 'message/feedback-report';
+const ORIGINAL_MESSAGE_TYPES = ['text/rfc822-headers', 'message/rfc822'];
+
+/**
+ * Parse "Name: value" header-style fields (with folded continuation lines).
+ * Field names are lowercased; repeated fields keep every value.
+ */
+function parseHeaderFields(text: string): Map<string, string[]> {
+  const fields = new Map<string, string[]>();
+  const unfolded = text.replace(/\r\n/g, '\n').replace(/\n[ \t]+/g, ' ');
+
+  for (const line of unfolded.split('\n')) {
+    if (line.trim() === '') continue;
+
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+
+    const name = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    const values = fields.get(name) || [];
+    values.push(value);
+    fields.set(name, values);
+  }
+
+  return fields;
+}
+
+function firstField(fields: Map<string, string[]>, name: string): string | null {
+  const values = fields.get(name);
+  return values && values.length > 0 && values[0] !== '' ? values[0] : null;
+}
+
+/**
+ * Strip angle brackets around addresses like <bounce@example.com>
+ */
+function stripAngleBrackets(value: string | null): string | null {
+  return value ? value.replace(/^<(.*)>$/, '$1') : null;
+}
+
+/**
+ * Only keep the header block of an embedded original message
+ */
+function extractHeaderBlock(content: string): string {
+  const normalized = content.replace(/\r\n/g, '\n');
+  const end = normalized.indexOf('\n\n');
+  return end === -1 ? normalized.trim() : normalized.slice(0, end).trim();
+}
+
+/**
+ * Check whether a parsed email is an ARF feedback report
+ */
+export function isFailureReport(parsed: ParsedMail): boolean {
+  return (parsed.attachments || []).some(
+    (attachment) => attachment.contentType === FEEDBACK_REPORT_TYPE
+  );
+}
+
+/**
+ * Parse an ARF failure report email and store it in database
+ */
+export function parseFailureReport(parsed: ParsedMail): ParseResult | null {
+  const attachments = parsed.attachments || [];
+  const feedbackPart = attachments.find((a) => a.contentType === FEEDBACK_REPORT_TYPE);
+
+  if (!feedbackPart) {
+    logger.warn('Email is not an ARF report: missing message/feedback-report part');
+    return null;
+  }
+
+  const messageId = parsed.messageId || null;
+  if (messageId) {
+    const existing = getFailureReportByMessageId(messageId);
+    if (existing) {
+      logger.info(`Failure report ${messageId} already exists, skipping`);
+      return { id: existing.id, inserted: false };
+    }
+  }
+
+  const rawReport = feedbackPart.content.toString('utf-8');
+  const fields = parseHeaderFields(rawReport);
+
+  const feedbackType = firstField(fields, 'feedback-type');
+  if (!feedbackType) {
+    logger.error('Invalid ARF report: missing Feedback-Type field');
+    return null;
+  }
+
+  // Original message headers (RFC 6591 allows headers only or the full message)
+  const originalPart = attachments.find((a) => ORIGINAL_MESSAGE_TYPES.includes(a.contentType));
+  const originalHeaders = originalPart
+    ? extractHeaderBlock(originalPart.content.toString('utf-8'))
+    : null;
+  const originalFields = originalHeaders ? parseHeaderFields(originalHeaders) : new Map<string, string[]>();
+
+  const arrivalDate = firstField(fields, 'arrival-date') || firstField(fields, 'received-date');
+  const arrivalTime = arrivalDate ? Date.parse(arrivalDate) : NaN;
+  const fallbackTime = parsed.date ? parsed.date.getTime() : Date.now();
+
+  const reportId = insertDmarcFailureReport({
+    email_message_id: messageId,
+    reporter: parsed.from?.value[0]?.address || parsed.from?.text || 'Unknown',
+    feedback_type: feedbackType,
+    user_agent: firstField(fields, 'user-agent'),
+    auth_failure: fields.get('auth-failure')?.join(', ') || null,
+    delivery_result: firstField(fields, 'delivery-result'),
+    identity_alignment: firstField(fields, 'identity-alignment'),
+    source_ip: firstField(fields, 'source-ip'),
+    reported_domain: firstField(fields, 'reported-domain')?.toLowerCase() || null,
+    original_mail_from: stripAngleBrackets(firstField(fields, 'original-mail-from')),
+    original_rcpt_to: fields.get('original-rcpt-to')?.map((v) => stripAngleBrackets(v)).join(', ') || null,
+    arrival_date: arrivalDate,
+    arrival_timestamp: Math.floor((isNaN(arrivalTime) ? fallbackTime : arrivalTime) / 1000),
+    reporting_mta: firstField(fields, 'reporting-mta'),
+    dkim_domain: firstField(fields, 'dkim-domain'),
+    dkim_identity: firstField(fields, 'dkim-identity'),
+    dkim_selector: firstField(fields, 'dkim-selector'),
+    authentication_results: fields.get('authentication-results')?.join('\n') || null,
+    original_from: firstField(originalFields, 'from'),
+    original_subject: firstField(originalFields, 'subject'),
+    original_headers: originalHeaders,
+    raw_report: rawReport,
+  });
+
+  logger.info(`Inserted DMARC failure report ${reportId} (${feedbackType}) for ${firstField(fields, 'reported-domain') || 'unknown domain'}`);
+
+  return { id: reportId, inserted: true };
+}
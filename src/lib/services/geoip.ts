@@ -0,0 +1,73 @@
+/**
+ * GeoIP Service
+ * Offline country and city lookup for source IPs from a local MaxMind-format .mmdb file
+ */
+
+import type { Reader, CityResponse } from 'maxmind';
+import { getMmdbReader } from './mmdb-reader';
+import { getRecordSourceIps, updateRecordLocations } from '../db/client';
+import { logger } from '../utils/logger';
+
+export interface GeoIpLocation {
+  country: string | null; // ISO 3166-1 alpha-2 code
+  city: string | null; // English city name (City databases only)
+}
+
+const NO_LOCATION: GeoIpLocation = { country: null, city: null };
+
+/**
+ * Get the GeoIP database reader (GEOIP_DB_PATH)
+ */
+function getReader(): Reader<CityResponse> | null {
+  return getMmdbReader<CityResponse>('GEOIP_DB_PATH', 'GeoIP');
+}
+
+/**
+ * Check whether a GeoIP database is available
+ */
+export function isGeoIpAvailable(): boolean {
+  return getReader() !== null;
+}
+
+/**
+ * Look up the country and city of an IP address
+ */
+export function lookupGeoIp(ip: string): GeoIpLocation {
+  const db = getReader();
+
+  if (!db) {
+    return NO_LOCATION;
+  }
+
+  try {
+    const result = db.get(ip);
+
+    return {
+      country: result?.country?.iso_code ?? result?.registered_country?.iso_code ?? null,
+      city: result?.city?.names?.en ?? null,
+    };
+  } catch (error) {
+    logger.debug(`GeoIP lookup failed for ${ip}:`, error);
+    return NO_LOCATION;
+  }
+}
+
+/**
+ * Fill in country and city of stored records (only records without a country unless all is set).
+ * Returns the number of looked up IPs and updated records.
+ */
+export function backfillRecordLocations(all: boolean = false): { ips: number; records: number } {
+  if (!isGeoIpAvailable()) {
+    throw new Error('No GeoIP database available (set GEOIP_DB_PATH)');
+  }
+
+  const ips = getRecordSourceIps(all);
+  logger.info(`Looking up ${ips.length} source IP(s)`);
+
+  const locations = ips
+    .map((ip) => ({ source_ip: ip, ...lookupGeoIp(ip) }))
+    // Without all, IPs that are still unknown stay untouched
+    .filter((location) => all || location.country !== null);
+
+  return { ips: ips.length, records: updateRecordLocations(locations, all) };
+}
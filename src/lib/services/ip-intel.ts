@@ -0,0 +1,235 @@
+/**
+ * IP Intel Service
+ * ASN, network owner and reverse DNS enrichment for source IPs, cached in the ip_intel table
+ */
+
+import net from 'net';
+import type { Reader, AsnResponse } from 'maxmind';
+import { getMmdbReader } from './mmdb-reader';
+import { getDnsResolver } from './dns-resolver';
+import { getIpIntel, saveIpIntelAsn, saveIpIntelPtr, getRecordSourceIps } from '../db/client';
+import { logger } from '../utils/logger';
+
+// Cached ASN entries older than this are looked up again
+const IP_INTEL_MAX_AGE_DAYS = 30;
+
+// Reverse DNS cache lifetimes in seconds. The system resolver reports no PTR TTLs
+// (Node's resolvePtr has no ttl option), so PTR answers without TTL use the default.
+const PTR_DEFAULT_TTL = 24 * 60 * 60;
+const PTR_MIN_TTL = 60 * 60;
+const PTR_MAX_TTL = 7 * 24 * 60 * 60;
+const PTR_NEGATIVE_TTL = 6 * 60 * 60; // IPs without PTR record
+const PTR_ERROR_TTL = 60 * 60; // failed lookups (timeout, SERVFAIL, ...)
+
+const PTR_MAX_HOSTNAMES = 3; // PTR names checked for forward confirmation
+const PTR_CONCURRENCY = 8;
+
+export interface AsnInfo {
+  asn: number | null;
+  as_org: string | null;
+}
+
+export interface PtrInfo {
+  ptr: string | null;
+  confirmed: boolean; // the hostname resolves back to the IP
+  ttl: number; // seconds until the entry is looked up again
+}
+
+const NO_ASN: AsnInfo = { asn: null, as_org: null };
+
+/**
+ * Get the ASN database reader (ASN_DB_PATH, e.g. GeoLite2-ASN)
+ */
+function getReader(): Reader<AsnResponse> | null {
+  return getMmdbReader<AsnResponse>('ASN_DB_PATH', 'ASN');
+}
+
+/**
+ * Check whether an ASN database is available
+ */
+export function isAsnAvailable(): boolean {
+  return getReader() !== null;
+}
+
+/**
+ * Look up the autonomous system of an IP address
+ */
+export function lookupAsn(ip: string): AsnInfo {
+  const db = getReader();
+
+  if (!db) {
+    return NO_ASN;
+  }
+
+  try {
+    const result = db.get(ip);
+
+    return {
+      asn: result?.autonomous_system_number ?? null,
+      as_org: result?.autonomous_system_organization ?? null,
+    };
+  } catch (error) {
+    logger.debug(`ASN lookup failed for ${ip}:`, error);
+    return NO_ASN;
+  }
+}
+
+/**
+ * Parse a SQLite datetime('now') value (UTC without a zone suffix)
+ */
+function parseSqliteTime(value: string): number {
+  return Date.parse(`${value.replace(' ', 'T')}Z`);
+}
+
+/**
+ * Check whether the cached ASN of an IP is missing or too old
+ */
+function needsLookup(ip: string): boolean {
+  const intel = getIpIntel(ip);
+
+  if (!intel?.updated_at) {
+    return true;
+  }
+
+  const age = Date.now() - parseSqliteTime(intel.updated_at);
+  return isNaN(age) || age >= IP_INTEL_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Look up and cache the ASN of every IP that is not cached yet (or whose entry is stale).
+ * Does nothing without an ASN database. Returns the number of looked up IPs.
+ */
+export function cacheIpIntel(ips: string[], force: boolean = false): number {
+  if (!isAsnAvailable()) {
+    return 0;
+  }
+
+  const pending = [...new Set(ips)].filter((ip) => force || needsLookup(ip));
+
+  if (pending.length > 0) {
+    saveIpIntelAsn(pending.map((ip) => ({ ip, ...lookupAsn(ip) })));
+  }
+
+  return pending.length;
+}
+
+/**
+ * Normalize an IP address for comparison (IPv6 has several spellings)
+ */
+function normalizeIp(ip: string): string {
+  return net.isIPv6(ip) ? new URL(`http://[${ip}]`).hostname.slice(1, -1) : ip;
+}
+
+/**
+ * Normalize a hostname from a DNS answer
+ */
+function normalizeHostname(hostname: string): string {
+  return hostname.toLowerCase().replace(/\.$/, '');
+}
+
+/**
+ * Look up the PTR hostname of an IP and check that it resolves back to the IP
+ * (forward-confirmed reverse DNS). Throws if the PTR lookup itself fails.
+ */
+export async function lookupPtr(ip: string): Promise<PtrInfo> {
+  const resolver = getDnsResolver();
+  const answer = await resolver.lookup(ip, 'PTR');
+
+  if (answer.values.length === 0) {
+    return { ptr: null, confirmed: false, ttl: PTR_NEGATIVE_TTL };
+  }
+
+  const hostnames = answer.values.map(normalizeHostname);
+  const family = net.isIPv6(ip) ? 'AAAA' : 'A';
+  const address = normalizeIp(ip);
+  // An unknown PTR TTL is replaced by the default instead of being dropped, so a
+  // forward TTL alone never stands in for the PTR record's lifetime
+  const ttls = [answer.ttl ?? PTR_DEFAULT_TTL];
+  let confirmed: string | null = null;
+
+  for (const hostname of hostnames.slice(0, PTR_MAX_HOSTNAMES)) {
+    try {
+      const forward = await resolver.lookup(hostname, family);
+      if (forward.ttl !== null) {
+        ttls.push(forward.ttl);
+      }
+
+      if (forward.values.some((value) => normalizeIp(value) === address)) {
+        confirmed = hostname;
+        break;
+      }
+    } catch (error) {
+      logger.debug(`Forward lookup failed for ${hostname}:`, error);
+    }
+  }
+
+  return {
+    ptr: confirmed ?? hostnames[0],
+    confirmed: confirmed !== null,
+    ttl: Math.min(Math.max(Math.min(...ttls), PTR_MIN_TTL), PTR_MAX_TTL),
+  };
+}
+
+/**
+ * Check whether the cached PTR of an IP is missing or expired
+ */
+function needsPtrLookup(ip: string): boolean {
+  const expiresAt = getIpIntel(ip)?.ptr_expires_at;
+
+  if (!expiresAt) {
+    return true;
+  }
+
+  const expires = parseSqliteTime(expiresAt);
+  return isNaN(expires) || expires <= Date.now();
+}
+
+/**
+ * Look up and cache the PTR of every IP that is not cached yet (or whose entry expired).
+ * Failed lookups are cached briefly as "no hostname". Returns the number of looked up IPs.
+ */
+export async function cachePtrRecords(ips: string[], force: boolean = false): Promise<number> {
+  const pending = [...new Set(ips)].filter((ip) => force || needsPtrLookup(ip));
+  const results: Array<PtrInfo & { ip: string }> = [];
+
+  // A few lookups run in parallel, DNS answers are mostly waiting time
+  let next = 0;
+  const worker = async () => {
+    while (next < pending.length) {
+      const ip = pending[next++];
+
+      try {
+        results.push({ ip, ...await lookupPtr(ip) });
+      } catch (error) {
+        logger.debug(`PTR lookup failed for ${ip}:`, error);
+        results.push({ ip, ptr: null, confirmed: false, ttl: PTR_ERROR_TTL });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(PTR_CONCURRENCY, pending.length) }, worker));
+
+  if (results.length > 0) {
+    saveIpIntelPtr(results);
+  }
+
+  return results.length;
+}
+
+/**
+ * Fill the cache for the source IPs of all stored records (all: look up every IP again).
+ * ASN data is skipped without an ASN database.
+ */
+export async function refreshIpIntel(all: boolean = false): Promise<{ ips: number; asn: number; ptr: number }> {
+  const ips = getRecordSourceIps(true);
+  logger.info(`Checking ${ips.length} source IP(s)`);
+
+  if (!isAsnAvailable()) {
+    logger.info('No ASN database available (set ASN_DB_PATH), skipping ASN lookups');
+  }
+
+  const asn = cacheIpIntel(ips, all);
+  const ptr = await cachePtrRecords(ips, all);
+
+  return { ips: ips.length, asn, ptr };
+}
@@ -0,0 +1,93 @@
+/**
+ * Maildir Source Service
+ * Reads DMARC report emails delivered into a local Maildir
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { simpleParser } from 'mailparser';
+import { processParsedEmail, hasStoredReport, isTransientError } from './report-ingest';
+import { insertProcessingLog } from '../db/client';
+import { logger } from '../utils/logger';
+import type { ReportSource } from './report-sources';
+
+/**
+ * Move a message from new/ to cur/ with Maildir info flags (S = seen, F = flagged)
+ */
+function moveToCur(maildir: string, filename: string, flags: string): void {
+  const baseName = filename.split(':')[0];
+  fs.renameSync(
+    path.join(maildir, 'new', filename),
+    path.join(maildir, 'cur', `${baseName}:2,${flags}`)
+  );
+}
+
+/**
+ * Process every message in the Maildir's new/ folder.
+ * Processed messages are moved to cur/ as seen, failed ones additionally flagged. A message
+ * that failed with a database or file system error stays in new/ and is retried on the next run.
+ */
+async function processMaildir(maildir: string): Promise<void> {
+  const newDir = path.join(maildir, 'new');
+
+  if (!fs.existsSync(newDir) || !fs.existsSync(path.join(maildir, 'cur'))) {
+    throw new Error(`Not a Maildir (missing new/ or cur/): ${maildir}`);
+  }
+
+  const filenames = fs.readdirSync(newDir).filter((f) => !f.startsWith('.'));
+
+  if (filenames.length === 0) {
+    logger.info('No new messages in Maildir');
+    return;
+  }
+
+  logger.info(`Found ${filenames.length} new message(s) in Maildir`);
+
+  for (const filename of filenames) {
+    try {
+      const parsed = await simpleParser(fs.readFileSync(path.join(newDir, filename)));
+      const processed = hasStoredReport(await processParsedEmail(parsed, filename, 'maildir'));
+
+      moveToCur(maildir, filename, processed ? 'S' : 'FS');
+    } catch (error) {
+      logger.error(`Error processing Maildir message ${filename}:`, error);
+      insertProcessingLog({
+        email_uid: filename,
+        source: 'maildir',
+        subject: 'Unknown',
+        from_address: 'Unknown',
+        attachment_count: 0,
+        report_name: null,
+        status: 'FAILED',
+        error_message: error instanceof Error ? error.message : String(error),
+      });
+
+      if (isTransientError(error)) {
+        logger.warn(`Stopping at Maildir message ${filename}, the remaining messages are processed on the next run`);
+        break;
+      }
+
+      try {
+        moveToCur(maildir, filename, 'FS');
+      } catch (moveError) {
+        logger.error(`Error moving Maildir message ${filename}:`, moveError);
+      }
+    }
+  }
+}
+
+/**
+ * Create a Maildir report source
+ */
+export function createMaildirSource(maildir: string): ReportSource {
+  return {
+    name: `maildir:${maildir}`,
+    type: 'maildir',
+    fetch: async () => {
+      if (!maildir) {
+        throw new Error('MAILDIR_PATH not configured');
+      }
+      await processMaildir(maildir);
+    },
+  };
+}
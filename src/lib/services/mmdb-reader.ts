@@ -0,0 +1,68 @@
+/**
+ * MMDB Reader Service
+ * Loads local MaxMind-format databases and reloads them when the file is updated
+ */
+
+import fs from 'fs';
+import { Reader } from 'maxmind';
+import type { Response } from 'maxmind';
+import { logger } from '../utils/logger';
+
+// How often a database file is checked for updates (e.g. by geoipupdate)
+const RELOAD_CHECK_INTERVAL = 60 * 1000;
+
+interface LoadedDatabase {
+  reader: Reader<Response> | null;
+  path: string | null;
+  mtime: number;
+  lastCheck: number;
+  warned: boolean;
+}
+
+const databases = new Map<string, LoadedDatabase>();
+
+/**
+ * Get the reader for the database configured in an environment variable,
+ * (re)loading the file when it changed. Returns null if no database is configured
+ * or it cannot be read.
+ */
+export function getMmdbReader<T extends Response>(envVar: string, label: string): Reader<T> | null {
+  const dbPath = process.env[envVar];
+
+  if (!dbPath) {
+    return null;
+  }
+
+  let db = databases.get(envVar);
+  if (!db) {
+    db = { reader: null, path: null, mtime: 0, lastCheck: 0, warned: false };
+    databases.set(envVar, db);
+  }
+
+  const now = Date.now();
+  if (db.reader && db.path === dbPath && now - db.lastCheck < RELOAD_CHECK_INTERVAL) {
+    return db.reader as Reader<T>;
+  }
+  db.lastCheck = now;
+
+  try {
+    const mtime = fs.statSync(dbPath).mtimeMs;
+
+    if (!db.reader || db.path !== dbPath || mtime !== db.mtime) {
+      db.reader = new Reader<Response>(fs.readFileSync(dbPath));
+      db.path = dbPath;
+      db.mtime = mtime;
+      db.warned = false;
+      logger.info(`Loaded ${label} database ${dbPath} (${db.reader.metadata.databaseType})`);
+    }
+  } catch (error) {
+    if (!db.warned) {
+      logger.warn(`${label} database ${dbPath} could not be loaded, skipping ${label} lookups:`, error);
+      db.warned = true;
+    }
+    db.reader = null;
+    db.path = null;
+  }
+
+  return db.reader as Reader<T> | null;
+}
@@ -9,9 +9,11 @@ import {
   getNotificationByAnalysisId,
   insertNotification,
   getDatabase,
+  getPendingPolicyEvents,
+  markPolicyEventsNotified,
 } from '../db/client';
 import { logger } from '../utils/logger';
-import type { AiAnalysis, DmarcReport } from '../db/schema';
+import type { AiAnalysis, DmarcReport, PolicyEvent } from '../db/schema';
 
 interface SESConfig {
   host: string;
@@ -308,3 +310,88 @@ export async function sendThreatNotification(
     return false;
   }
 }
+
+/**
+ * Build HTML and plain text email for policy changes and reporter disagreement
+ */
+function buildPolicyEventEmail(events: PolicyEvent[]): { html: string; plain: string } {
+  const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleDateString('de-DE');
+  const typeLabel = (event: PolicyEvent) =>
+    event.type === 'policy_changed' ? 'Policy geändert' : 'Abweichende Policy';
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background-color: #fef3c7; border-left: 4px solid #f59e0b; padding: 15px; margin-bottom: 20px;">
+    <h1 style="margin: 0; color: #b45309; font-size: 24px;">⚠️ Änderungen an der DMARC-Policy</h1>
+  </div>
+
+  ${events.map(event => `
+    <div style="background-color: #fff; border: 1px solid #e5e7eb; border-radius: 5px; padding: 12px; margin-bottom: 10px;">
+      <p style="margin: 0 0 8px 0;">
+        <strong>${event.domain}</strong> – ${typeLabel(event)} (${event.severity.toUpperCase()}, ${formatDate(event.observed_at)})
+      </p>
+      <p style="margin: 0; color: #4b5563;">${event.message}</p>
+    </div>
+  `).join('')}
+
+  <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb; text-align: center; color: #9ca3af; font-size: 12px;">
+    <p style="margin: 5px 0;">Diese automatische Benachrichtigung wurde von DMARC Reports generiert</p>
+    <p style="margin: 5px 0;">Zeitpunkt: ${new Date().toLocaleString('de-DE')}</p>
+  </div>
+</body>
+</html>
+  `.trim();
+
+  let plain = `⚠️ Änderungen an der DMARC-Policy\n\n`;
+  events.forEach((event, idx) => {
+    plain += `${idx + 1}. ${event.domain} – ${typeLabel(event)} (${event.severity.toUpperCase()}, ${formatDate(event.observed_at)})\n`;
+    plain += `   ${event.message}\n\n`;
+  });
+  plain += `---\n`;
+  plain += `Diese automatische Benachrichtigung wurde von DMARC Reports generiert\n`;
+  plain += `Zeitpunkt: ${new Date().toLocaleString('de-DE')}\n`;
+
+  return { html, plain };
+}
+
+/**
+ * Send pending policy events (weakened policies, reporter disagreement) in one email.
+ * Events stay pending if sending fails. Returns the number of notified events.
+ */
+export async function sendPolicyEventNotification(): Promise<number> {
+  const events = getPendingPolicyEvents();
+
+  if (events.length === 0) {
+    return 0;
+  }
+
+  const config = getSESConfig();
+
+  if (!config.host || !config.username || !config.password || !config.fromEmail || !config.toEmail) {
+    logger.warn(`AWS SES configuration incomplete, ${events.length} policy event(s) not notified`);
+    return 0;
+  }
+
+  try {
+    const domains = Array.from(new Set(events.map(event => event.domain)));
+    const subject = `⚠️ DMARC Policy Alert - ${domains.join(', ')}`;
+    const { html, plain } = buildPolicyEventEmail(events);
+
+    logger.info(`Sending policy notification for ${events.length} event(s)`);
+
+    const messageId = await sendSESEmail(config, subject, html, plain);
+    markPolicyEventsNotified(events.map(event => event.id));
+
+    logger.info(`Policy notification sent successfully. Message ID: ${messageId}`);
+
+    return events.length;
+  } catch (error) {
+    logger.error('Error sending policy notification:', error);
+    return 0;
+  }
+}
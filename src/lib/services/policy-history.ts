@@ -0,0 +1,280 @@
+/**
+ * Policy History Service
+ * Normalized history of the published DMARC policy per domain, from reports and DNS checks,
+ * with detection of policy changes and reporters that see different policies
+ */
+
+import {
+  getReportsWithoutPolicyObservation,
+  insertPolicyObservation,
+  getPreviousPolicyObservation,
+  getOverlappingPolicyObservations,
+  getPolicyObservations,
+  insertPolicyEvent,
+  hasSimilarPolicyEvent,
+} from '../db/client';
+import { logger } from '../utils/logger';
+import type { PolicyObservation, PolicyEvent } from '../db/schema';
+
+// Events for observations older than this (e.g. when importing history) are stored without notification
+const NOTIFY_MAX_AGE_DAYS = 7;
+
+// The same change or disagreement seen by further reporters within this window is not reported again
+const EVENT_DEDUP_WINDOW = 7 * 24 * 60 * 60;
+
+const DNS_REPORTER = 'DNS';
+
+const POLICY_RANK: Record<string, number> = { none: 0, quarantine: 1, reject: 2 };
+const ALIGNMENT_RANK: Record<string, number> = { r: 0, s: 1 };
+
+export type PolicyFields = Pick<PolicyObservation, 'p' | 'sp' | 'np' | 'pct' | 'adkim' | 'aspf' | 'testing'>;
+
+/**
+ * A period in which consecutive observations saw the same policy
+ */
+export interface PolicyPeriod {
+  policy_key: string;
+  policy: PolicyFields;
+  first_seen: number; // Unix timestamp
+  last_seen: number;
+  reporters: string[];
+  observations: number;
+}
+
+function toPolicyValue(value: unknown): string | null {
+  const text = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return text in POLICY_RANK ? text : null;
+}
+
+/**
+ * Normalize a published policy (report policy_published or DMARC record tags), applying the
+ * RFC 7489 defaults. Returns null if it has no valid p=.
+ */
+export function normalizePolicy(policy: Record<string, unknown>): PolicyFields | null {
+  const p = toPolicyValue(policy.p);
+  if (!p) {
+    return null;
+  }
+
+  const sp = toPolicyValue(policy.sp) || p;
+  const pct = policy.pct === null || policy.pct === undefined || policy.pct === '' ? NaN : Number(policy.pct);
+  // Reports carry testing, DMARC records the t= tag
+  const testingTag = policy.testing ?? policy.t;
+  const testing = typeof testingTag === 'string' ? testingTag.trim().toLowerCase() : '';
+
+  return {
+    p,
+    sp,
+    np: toPolicyValue(policy.np),
+    pct: isNaN(pct) ? 100 : Math.min(100, Math.max(0, Math.round(pct))),
+    adkim: String(policy.adkim ?? '').trim().toLowerCase() === 's' ? 's' : 'r',
+    aspf: String(policy.aspf ?? '').trim().toLowerCase() === 's' ? 's' : 'r',
+    testing: testing === 'y' || testing === 'n' ? testing : null,
+  };
+}
+
+/**
+ * Compared representation of a policy. np and testing are left out, not every reporter echoes them.
+ */
+export function policyKey(policy: PolicyFields): string {
+  return `p=${policy.p} sp=${policy.sp} pct=${policy.pct} adkim=${policy.adkim} aspf=${policy.aspf}`;
+}
+
+/**
+ * Compare two policies field by field: is any field weaker / stronger in current than in previous?
+ */
+function comparePolicies(previous: PolicyFields, current: PolicyFields): { weaker: boolean; stronger: boolean } {
+  const diffs = [
+    POLICY_RANK[current.p] - POLICY_RANK[previous.p],
+    POLICY_RANK[current.sp] - POLICY_RANK[previous.sp],
+    current.pct - previous.pct,
+    ALIGNMENT_RANK[current.adkim] - ALIGNMENT_RANK[previous.adkim],
+    ALIGNMENT_RANK[current.aspf] - ALIGNMENT_RANK[previous.aspf],
+  ];
+
+  return { weaker: diffs.some((d) => d < 0), stronger: diffs.some((d) => d > 0) };
+}
+
+function describeReporter(reporter: string): string {
+  return reporter === DNS_REPORTER ? 'die DNS-Prüfung' : reporter;
+}
+
+/**
+ * Store an event unless the same one was already detected for a nearby observation
+ */
+function addEvent(event: Omit<PolicyEvent, 'id' | 'notified_at' | 'detected_at'>): boolean {
+  if (hasSimilarPolicyEvent(event, EVENT_DEDUP_WINDOW)) {
+    return false;
+  }
+
+  insertPolicyEvent(event);
+  logger.info(`Policy event for ${event.domain}: ${event.message}`);
+  return true;
+}
+
+/**
+ * Detect a changed policy (against the same reporter's previous observation) and
+ * disagreement with other reporters for the same period. Returns the number of new events.
+ */
+function detectPolicyEvents(observation: PolicyObservation): number {
+  const recent = observation.observed_end >= Date.now() / 1000 - NOTIFY_MAX_AGE_DAYS * 24 * 60 * 60;
+  let events = 0;
+
+  const previous = getPreviousPolicyObservation(observation);
+  if (previous && previous.policy_key !== observation.policy_key) {
+    const { weaker } = comparePolicies(previous, observation);
+
+    const added = addEvent({
+      domain: observation.domain,
+      type: 'policy_changed',
+      severity: weaker ? 'critical' : 'info',
+      message: `Policy ${weaker ? 'abgeschwächt' : 'verschärft'} laut ${describeReporter(observation.reporter)}: ${previous.policy_key} → ${observation.policy_key}`,
+      previous_policy: previous.policy_key,
+      current_policy: observation.policy_key,
+      reporters: JSON.stringify([observation.reporter]),
+      observation_id: observation.id,
+      observed_at: observation.observed_begin,
+      notify: weaker && recent ? 1 : 0,
+    });
+    if (added) events++;
+  }
+
+  // Latest overlapping observation of every other reporter, grouped by the policy they saw
+  const seen = new Set<string>();
+  const othersByKey = new Map<string, string[]>();
+
+  for (const other of getOverlappingPolicyObservations(observation)) {
+    if (seen.has(other.reporter)) continue;
+    seen.add(other.reporter);
+
+    if (other.policy_key !== observation.policy_key) {
+      othersByKey.set(other.policy_key, [...(othersByKey.get(other.policy_key) || []), other.reporter]);
+    }
+  }
+
+  othersByKey.forEach((reporters, otherKey) => {
+    const added = addEvent({
+      domain: observation.domain,
+      type: 'reporter_disagreement',
+      severity: 'warning',
+      message: `${describeReporter(observation.reporter)} sieht ${observation.policy_key}, ` +
+        `${reporters.map(describeReporter).join(', ')} im selben Zeitraum ${otherKey}`,
+      previous_policy: otherKey,
+      current_policy: observation.policy_key,
+      reporters: JSON.stringify([observation.reporter, ...reporters]),
+      observation_id: observation.id,
+      observed_at: observation.observed_begin,
+      notify: recent ? 1 : 0,
+    });
+    if (added) events++;
+  });
+
+  return events;
+}
+
+/**
+ * Store an observation and check it for events
+ */
+function recordObservation(
+  input: Omit<PolicyObservation, 'id' | 'created_at' | keyof PolicyFields | 'policy_key'>,
+  policy: PolicyFields
+): number {
+  const observation = { ...input, ...policy, policy_key: policyKey(policy), created_at: '' };
+  const id = insertPolicyObservation(observation);
+  return detectPolicyEvents({ ...observation, id });
+}
+
+/**
+ * Add the policies of reports that are not in the history yet, oldest first
+ */
+export function syncPolicyHistory(): { observations: number; events: number } {
+  let observations = 0;
+  let events = 0;
+
+  for (const report of getReportsWithoutPolicyObservation()) {
+    const policy = normalizePolicy(JSON.parse(report.policy_published));
+
+    if (!policy) {
+      logger.warn(`Report ${report.id} has no valid published policy, not added to the policy history`);
+      continue;
+    }
+
+    events += recordObservation({
+      domain: report.domain.toLowerCase(),
+      source: 'report',
+      reporter: report.org_name,
+      report_id: report.id,
+      dns_check_id: null,
+      observed_begin: report.date_begin,
+      observed_end: report.date_end,
+    }, policy);
+    observations++;
+  }
+
+  if (observations > 0) {
+    logger.info(`Policy history: ${observations} observation(s) added, ${events} event(s) detected`);
+  }
+
+  return { observations, events };
+}
+
+/**
+ * Add the policy of a DNS check (tags of the _dmarc record) to the history. Returns the number of new events.
+ */
+export function recordDnsPolicy(domain: string, dnsCheckId: number, tags: Record<string, string>): number {
+  const policy = normalizePolicy(tags);
+  if (!policy) {
+    return 0;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+
+  return recordObservation({
+    domain,
+    source: 'dns',
+    reporter: DNS_REPORTER,
+    report_id: null,
+    dns_check_id: dnsCheckId,
+    observed_begin: now,
+    observed_end: now,
+  }, policy);
+}
+
+/**
+ * Timeline of a domain's policy: consecutive observations with the same policy merged into periods
+ */
+export function getPolicyTimeline(domain: string, from?: number): PolicyPeriod[] {
+  const periods: PolicyPeriod[] = [];
+
+  for (const observation of getPolicyObservations(domain.toLowerCase(), from)) {
+    const current = periods[periods.length - 1];
+
+    if (current && current.policy_key === observation.policy_key) {
+      current.last_seen = Math.max(current.last_seen, observation.observed_end);
+      current.observations++;
+      if (!current.reporters.includes(observation.reporter)) {
+        current.reporters.push(observation.reporter);
+      }
+      continue;
+    }
+
+    periods.push({
+      policy_key: observation.policy_key,
+      policy: {
+        p: observation.p,
+        sp: observation.sp,
+        np: observation.np,
+        pct: observation.pct,
+        adkim: observation.adkim,
+        aspf: observation.aspf,
+        testing: observation.testing,
+      },
+      first_seen: observation.observed_begin,
+      last_seen: observation.observed_end,
+      reporters: [observation.reporter],
+      observations: 1,
+    });
+  }
+
+  return periods;
+}
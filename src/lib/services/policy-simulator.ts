@@ -0,0 +1,269 @@
+/**
+ * Policy Simulator
+ * Deterministic evaluation of stored records against a candidate DMARC policy:
+ * which messages and sources would be quarantined or rejected
+ */
+
+import { z } from 'zod';
+import { getRecordSimulationRows } from '../db/client';
+import { validateSchema, ValidationResult } from './report-validator';
+import { parseTimestamp } from './report-reparser';
+import { getSenderServiceName } from './sender-catalog';
+import { evaluateAlignment, AlignmentMode } from './alignment';
+import type { DmarcRecordSimulationRow } from '../db/schema';
+
+const DEFAULT_PERIOD_DAYS = 30;
+const MAX_SOURCES = 100;
+
+type Disposition = 'none' | 'quarantine' | 'reject';
+type AuthorizationGroup = 'authorized' | 'unknown' | 'unregistered';
+
+// A failing message that is sampled out by pct= gets the next weaker disposition (RFC 7489 6.6.4)
+const SAMPLED_OUT: Record<Disposition, Disposition> = { none: 'none', quarantine: 'none', reject: 'quarantine' };
+
+export interface CandidatePolicy {
+  p: Disposition;
+  sp: Disposition;
+  pct: number;
+  adkim: AlignmentMode;
+  aspf: AlignmentMode;
+}
+
+export interface SimulationInput {
+  domain: string;
+  from: number; // report period starts at or after (Unix timestamp)
+  to: number; // report period starts at or before
+  policy: CandidatePolicy;
+}
+
+export interface SimulationCounts {
+  messages: number;
+  pass: number;
+  fail: number;
+  none: number; // delivered normally (pass, or fail with p=none / sampled out)
+  quarantine: number;
+  reject: number;
+}
+
+export interface SimulatedSource {
+  source_ip: string;
+  ptr: string | null;
+  sender_service: string | null;
+  sender_service_name: string | null;
+  authorization: AuthorizationGroup;
+  header_from: string[];
+  counts: SimulationCounts;
+}
+
+export interface SimulationResult {
+  domain: string;
+  from: number;
+  to: number;
+  policy: CandidatePolicy;
+  records: number;
+  totals: SimulationCounts;
+  by_authorization: Record<AuthorizationGroup, SimulationCounts>;
+  current_dispositions: Record<string, number>; // as applied by the receivers under the published policy
+  sources: SimulatedSource[]; // sources with quarantined or rejected messages, most affected first
+}
+
+const dispositionValue = z.enum(['none', 'quarantine', 'reject']);
+const alignmentValue = z.enum(['r', 's']).default('r');
+
+const boundary = z
+  .union([z.string().trim(), z.number()])
+  .nullish()
+  .transform((value, ctx) => {
+    if (value === null || value === undefined || value === '') {
+      return null;
+    }
+    const timestamp = parseTimestamp(value);
+    if (timestamp === null) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'must be a Unix timestamp or date' });
+      return z.NEVER;
+    }
+    return timestamp;
+  });
+
+const simulationSchema = z
+  .object({
+    domain: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .transform((value) => value.replace(/\.$/, ''))
+      .pipe(z.string().regex(/^[a-z0-9_-]+(\.[a-z0-9_-]+)+$/, 'must be a domain name')),
+    from: boundary,
+    to: boundary,
+    p: dispositionValue,
+    sp: z.union([dispositionValue, z.literal('')]).nullish(),
+    pct: z.coerce.number().int().min(0).max(100).default(100),
+    adkim: alignmentValue,
+    aspf: alignmentValue,
+  })
+  .transform((input): SimulationInput => {
+    const to = input.to ?? Math.floor(Date.now() / 1000);
+
+    return {
+      domain: input.domain,
+      from: input.from ?? to - DEFAULT_PERIOD_DAYS * 24 * 60 * 60,
+      to,
+      policy: {
+        p: input.p,
+        sp: input.sp || input.p,
+        pct: input.pct,
+        adkim: input.adkim,
+        aspf: input.aspf,
+      },
+    };
+  })
+  .refine((input) => input.from <= input.to, { message: 'must not be after to', path: ['from'] });
+
+/**
+ * Validate a simulation request (query parameters or JSON body). sp defaults to p, pct to 100,
+ * adkim/aspf to relaxed and the period to the last 30 days.
+ */
+export function validateSimulationInput(value: unknown): ValidationResult<SimulationInput> {
+  return validateSchema(simulationSchema, value);
+}
+
+// Messages of an aggregate before pct= is applied: failing ones by the disposition the policy requests
+interface Tally {
+  messages: number;
+  pass: number;
+  failing: Record<Disposition, number>;
+}
+
+function emptyTally(): Tally {
+  return { messages: 0, pass: 0, failing: { none: 0, quarantine: 0, reject: 0 } };
+}
+
+/**
+ * Evaluate one record under the candidate policy: does it pass, and which disposition
+ * applies to it if it fails
+ */
+function evaluateRecord(row: DmarcRecordSimulationRow, domain: string, policy: CandidatePolicy): { pass: boolean; disposition: Disposition } {
+  // Same evaluation as for the stored alignment, with the candidate modes
+  const alignment = evaluateAlignment(
+    row.header_from,
+    JSON.parse(row.auth_results),
+    { adkim: policy.adkim, aspf: policy.aspf },
+    { dkim: row.dkim, spf: row.spf }
+  );
+
+  return {
+    pass: alignment.dmarc_pass,
+    disposition: row.header_from.toLowerCase() === domain ? policy.p : policy.sp,
+  };
+}
+
+function addToTally(tally: Tally, count: number, outcome: { pass: boolean; disposition: Disposition }): void {
+  tally.messages += count;
+  if (outcome.pass) {
+    tally.pass += count;
+  } else {
+    tally.failing[outcome.disposition] += count;
+  }
+}
+
+/**
+ * Outcome of an aggregate. pct= is applied as its expected share of the failing messages,
+ * rounded once per aggregate, so the result is the same on every run.
+ */
+function toCounts(tally: Tally, pct: number): SimulationCounts {
+  const counts: SimulationCounts = {
+    messages: tally.messages,
+    pass: tally.pass,
+    fail: tally.messages - tally.pass,
+    none: tally.pass,
+    quarantine: 0,
+    reject: 0,
+  };
+
+  for (const disposition of Object.keys(tally.failing) as Disposition[]) {
+    const failing = tally.failing[disposition];
+    const enforced = Math.round((failing * pct) / 100);
+
+    counts[disposition] += enforced;
+    counts[SAMPLED_OUT[disposition]] += failing - enforced;
+  }
+
+  return counts;
+}
+
+/**
+ * Simulate a candidate policy over the stored records of a domain (and its subdomains)
+ */
+export function simulatePolicy(input: SimulationInput): SimulationResult {
+  const rows = getRecordSimulationRows(input.domain, input.from, input.to);
+
+  const totals = emptyTally();
+  const byAuthorization: Record<AuthorizationGroup, Tally> = {
+    authorized: emptyTally(),
+    unknown: emptyTally(),
+    unregistered: emptyTally(),
+  };
+  const currentDispositions: Record<string, number> = {};
+  const sources = new Map<string, { source: Omit<SimulatedSource, 'counts'>; tally: Tally }>();
+
+  for (const row of rows) {
+    const outcome = evaluateRecord(row, input.domain, input.policy);
+    const authorization: AuthorizationGroup =
+      row.authorization === 'authorized' || row.authorization === 'unknown' ? row.authorization : 'unregistered';
+
+    addToTally(totals, row.count, outcome);
+    addToTally(byAuthorization[authorization], row.count, outcome);
+    currentDispositions[row.disposition] = (currentDispositions[row.disposition] || 0) + row.count;
+
+    // One entry per source and authorization, a source may be authorized for some subdomains only
+    const key = `${row.source_ip}|${authorization}`;
+    let entry = sources.get(key);
+    if (!entry) {
+      entry = {
+        source: {
+          source_ip: row.source_ip,
+          ptr: row.ptr,
+          sender_service: row.sender_service,
+          sender_service_name: getSenderServiceName(row.sender_service),
+          authorization,
+          header_from: [],
+        },
+        tally: emptyTally(),
+      };
+      sources.set(key, entry);
+    }
+
+    addToTally(entry.tally, row.count, outcome);
+    const headerFrom = row.header_from.toLowerCase();
+    if (!entry.source.header_from.includes(headerFrom)) {
+      entry.source.header_from.push(headerFrom);
+    }
+  }
+
+  const pct = input.policy.pct;
+  const affected = (counts: SimulationCounts) => counts.quarantine + counts.reject;
+
+  return {
+    domain: input.domain,
+    from: input.from,
+    to: input.to,
+    policy: input.policy,
+    records: rows.length,
+    totals: toCounts(totals, pct),
+    by_authorization: {
+      authorized: toCounts(byAuthorization.authorized, pct),
+      unknown: toCounts(byAuthorization.unknown, pct),
+      unregistered: toCounts(byAuthorization.unregistered, pct),
+    },
+    current_dispositions: currentDispositions,
+    sources: Array.from(sources.values())
+      .map(({ source, tally }): SimulatedSource => ({ ...source, counts: toCounts(tally, pct) }))
+      .filter((source) => affected(source.counts) > 0)
+      .sort((a, b) =>
+        affected(b.counts) - affected(a.counts) ||
+        b.counts.reject - a.counts.reject ||
+        a.source_ip.localeCompare(b.source_ip)
+      )
+      .slice(0, MAX_SOURCES),
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * Public Suffix List Service
+ * Offline public suffix lookup from a local copy of the Public Suffix List (publicsuffix.org),
+ * reloaded when the file is updated; without a local copy the list bundled with the tldts package is used
+ */
+
+import fs from 'fs';
+import { domainToASCII } from 'url';
+import { getPublicSuffix as getBundledPublicSuffix } from 'tldts';
+import { logger } from '../utils/logger';
+
+// Shipped by the publicsuffix package of most Linux distributions
+const DEFAULT_LIST_PATH = '/usr/share/publicsuffix/public_suffix_list.dat';
+
+// How often the list file is checked for updates
+const RELOAD_CHECK_INTERVAL = 60 * 1000;
+
+interface SuffixRules {
+  rules: Set<string>; // "co.uk"
+  wildcards: Set<string>; // "*.ck" stored as "ck"
+  exceptions: Set<string>; // "!www.ck" stored as "www.ck"
+}
+
+const list = {
+  rules: null as SuffixRules | null,
+  path: null as string | null,
+  mtime: 0,
+  lastCheck: 0,
+  bundled: false, // logged once when falling back to the bundled list
+};
+
+/**
+ * Parse the list format: one rule per line, // comments, rules in Unicode or punycode
+ */
+function parseRules(content: string): SuffixRules {
+  const parsed: SuffixRules = { rules: new Set(), wildcards: new Set(), exceptions: new Set() };
+
+  for (const line of content.split('\n')) {
+    const rule = line.trim().split(/\s/)[0];
+    if (!rule || rule.startsWith('//')) continue;
+
+    if (rule.startsWith('!')) {
+      parsed.exceptions.add(domainToASCII(rule.slice(1)));
+    } else if (rule.startsWith('*.')) {
+      parsed.wildcards.add(domainToASCII(rule.slice(2)));
+    } else {
+      parsed.rules.add(domainToASCII(rule));
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Get the rules of the configured list (PUBLIC_SUFFIX_LIST_PATH), (re)loading the file when it changed.
+ * Returns null if the list cannot be read, the bundled list is used then.
+ */
+function getRules(): SuffixRules | null {
+  const listPath = process.env.PUBLIC_SUFFIX_LIST_PATH || DEFAULT_LIST_PATH;
+
+  const now = Date.now();
+  if (list.rules && list.path === listPath && now - list.lastCheck < RELOAD_CHECK_INTERVAL) {
+    return list.rules;
+  }
+  list.lastCheck = now;
+
+  try {
+    const mtime = fs.statSync(listPath).mtimeMs;
+
+    if (!list.rules || list.path !== listPath || mtime !== list.mtime) {
+      list.rules = parseRules(fs.readFileSync(listPath, 'utf-8'));
+      list.path = listPath;
+      list.mtime = mtime;
+      list.bundled = false;
+      logger.info(`Loaded Public Suffix List ${listPath} (${list.rules.rules.size + list.rules.wildcards.size} rules)`);
+    }
+  } catch (error) {
+    if (!list.bundled) {
+      // The default path only exists where the distribution's publicsuffix package is installed
+      if (process.env.PUBLIC_SUFFIX_LIST_PATH) {
+        logger.warn(`Public Suffix List ${listPath} could not be loaded, using the bundled list:`, error);
+      } else {
+        logger.info(`No Public Suffix List at ${listPath}, using the bundled list`);
+      }
+      list.bundled = true;
+    }
+    list.rules = null;
+    list.path = null;
+  }
+
+  return list.rules;
+}
+
+/**
+ * Source of the Public Suffix List in use: the path of the local copy or "bundled"
+ */
+export function getPublicSuffixListSource(): string {
+  return getRules() !== null && list.path ? list.path : 'bundled';
+}
+
+/**
+ * Public suffix of a domain name (lowercase ASCII): the longest matching rule, exception rules
+ * first; without a match the last label. A name the bundled list cannot parse is returned
+ * unchanged, so it is only aligned with itself.
+ */
+export function getPublicSuffix(domain: string): string {
+  const labels = domain.split('.');
+  const rules = getRules();
+
+  if (rules) {
+    for (let i = 0; i < labels.length; i++) {
+      const candidate = labels.slice(i).join('.');
+
+      if (rules.exceptions.has(candidate)) {
+        return labels.slice(i + 1).join('.');
+      }
+      if (rules.rules.has(candidate) || (i + 1 < labels.length && rules.wildcards.has(labels.slice(i + 1).join('.')))) {
+        return candidate;
+      }
+    }
+    return labels[labels.length - 1];
+  }
+
+  return getBundledPublicSuffix(domain, { allowPrivateDomains: true }) || domain;
+}
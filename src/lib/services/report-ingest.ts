@@ -0,0 +1,293 @@
+/**
+ * Report Ingest Service
+ * Routes emails and uploaded files through extraction and the matching report parser
+ */
+
+import { simpleParser, ParsedMail } from 'mailparser';
+import { Readable } from 'stream';
+import { parseDmarcXml } from './dmarc-parser';
+import { parseDmarcXmlStream, chunkBuffer, STREAMING_THRESHOLD } from './dmarc-stream-parser';
+import { isFailureReport, parseFailureReport } from './failure-report-parser';
+import { parseTlsReportJson } from './tls-report-parser';
+import { extractReports, ExtractedReport } from './attachment-extractor';
+import { insertProcessingLog } from '../db/client';
+import { logger } from '../utils/logger';
+import type { IngestResult, ParseResult } from '../types/ingest';
+
+/**
+ * Check whether an error comes from the database or the file system (e.g. SQLITE_BUSY, ENOSPC)
+ * rather than from the report. Such errors are rethrown so the message is retried later.
+ */
+export function isTransientError(error: unknown): boolean {
+  const code = (error as NodeJS.ErrnoException | null)?.code;
+  return typeof code === 'string' && (code.startsWith('SQLITE_') || /^E[A-Z]+$/.test(code));
+}
+
+/**
+ * Build an ingest result from a parser return value
+ */
+function toIngestResult(
+  name: string,
+  kind: IngestResult['kind'],
+  parsed: ParseResult | null,
+  invalidMessage: string
+): IngestResult {
+  if (!parsed) {
+    return { name, kind, status: 'invalid', report_id: null, error: invalidMessage };
+  }
+
+  return {
+    name,
+    kind,
+    status: parsed.inserted ? 'inserted' : 'duplicate',
+    report_id: parsed.id,
+    error: parsed.changed ? 'Report already exists with different content' : null,
+  };
+}
+
+/**
+ * Parse a single extracted DMARC XML / TLS-RPT JSON report
+ * (account: the mailbox account the report was received on, if any).
+ * Unreadable reports become invalid results, database and file system errors are thrown.
+ */
+export async function ingestExtractedReport(
+  report: ExtractedReport,
+  account: string | null = null
+): Promise<IngestResult> {
+  const kind = report.format === 'tlsrpt-json' ? 'tlsrpt' : 'dmarc-aggregate';
+
+  try {
+    let parsed: ParseResult | null;
+
+    if (report.stream) {
+      // Large archived reports are decompressed while they are parsed
+      parsed = await parseDmarcXmlStream(report.stream(), account);
+    } else if (!report.content) {
+      throw new Error('Report has no content');
+    } else if (report.format === 'tlsrpt-json') {
+      parsed = await parseTlsReportJson(report.content.toString('utf-8'));
+    } else if (report.content.length > STREAMING_THRESHOLD) {
+      // Very large aggregate reports are parsed incrementally
+      parsed = await parseDmarcXmlStream(Readable.from(chunkBuffer(report.content)), account);
+    } else {
+      parsed = await parseDmarcXml(report.content.toString('utf-8'), account);
+    }
+
+    return toIngestResult(report.name, kind, parsed, 'Not a valid DMARC or TLS-RPT report');
+  } catch (error) {
+    if (isTransientError(error)) {
+      throw error;
+    }
+    logger.error(`Error parsing report ${report.name}:`, error);
+    return {
+      name: report.name,
+      kind,
+      status: 'invalid',
+      report_id: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Extract and parse every report in a file or attachment
+ */
+export async function ingestAttachment(
+  content: Buffer,
+  name: string,
+  contentType?: string,
+  account: string | null = null
+): Promise<IngestResult[]> {
+  const { reports, errors } = extractReports(content, name, contentType);
+  const results: IngestResult[] = [];
+
+  for (const report of reports) {
+    results.push(await ingestExtractedReport(report, account));
+  }
+
+  for (const error of errors) {
+    results.push({ name: error.name, kind: null, status: 'invalid', report_id: null, error: error.error });
+  }
+
+  return results;
+}
+
+/**
+ * Parse every report contained in an email (ARF failure report or report attachments)
+ */
+export async function ingestEmail(
+  parsed: ParsedMail,
+  account: string | null = null
+): Promise<IngestResult[]> {
+  const name = parsed.subject || 'No Subject';
+
+  if (isFailureReport(parsed)) {
+    // Failure reports (ARF) carry the report as a message part, not as an XML file
+    try {
+      return [toIngestResult(name, 'dmarc-failure', parseFailureReport(parsed), 'Invalid ARF failure report')];
+    } catch (error) {
+      if (isTransientError(error)) {
+        throw error;
+      }
+      logger.error('Error parsing DMARC failure report:', error);
+      return [{
+        name,
+        kind: 'dmarc-failure',
+        status: 'invalid',
+        report_id: null,
+        error: error instanceof Error ? error.message : String(error),
+      }];
+    }
+  }
+
+  const results: IngestResult[] = [];
+
+  for (const attachment of parsed.attachments || []) {
+    results.push(...await ingestAttachment(
+      attachment.content,
+      attachment.filename || 'attachment',
+      attachment.contentType,
+      account
+    ));
+  }
+
+  return results;
+}
+
+/**
+ * Ingest a parsed email and record every result in processing_log.
+ * Returns one result per extracted report (empty if the email had no attachments).
+ */
+export async function processParsedEmail(
+  parsed: ParsedMail,
+  emailUid: string,
+  source: string,
+  account: string | null = null
+): Promise<IngestResult[]> {
+  const subject = parsed.subject || 'No Subject';
+  const from = parsed.from?.text || 'Unknown';
+
+  logger.info(`Processing email: ${subject} from ${from}`);
+
+  if (!parsed.attachments || parsed.attachments.length === 0) {
+    logger.warn('Email has no attachments, skipping');
+    insertProcessingLog({
+      email_uid: emailUid,
+      source,
+      subject,
+      from_address: from,
+      attachment_count: 0,
+      report_name: null,
+      status: 'SKIPPED',
+      error_message: 'No attachments found',
+    });
+    return [];
+  }
+
+  const attachmentCount = parsed.attachments.length;
+  const results = await ingestEmail(parsed, account);
+
+  // Log every extracted report (and every unreadable entry) on its own
+  for (const result of results) {
+    insertProcessingLog({
+      email_uid: emailUid,
+      source,
+      subject,
+      from_address: from,
+      attachment_count: attachmentCount,
+      report_name: result.name,
+      status: result.status === 'invalid' ? 'FAILED' : 'SUCCESS',
+      error_message: result.status === 'duplicate' ? result.error || 'Report already exists' : result.error,
+    });
+  }
+
+  if (results.length === 0) {
+    insertProcessingLog({
+      email_uid: emailUid,
+      source,
+      subject,
+      from_address: from,
+      attachment_count: attachmentCount,
+      report_name: null,
+      status: 'FAILED',
+      error_message: 'No valid DMARC report found in attachments',
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Check whether at least one report was stored (or already existed)
+ */
+export function hasStoredReport(results: IngestResult[]): boolean {
+  return results.some((r) => r.status !== 'invalid');
+}
+
+/**
+ * Check whether a file looks like a raw RFC 5322 message (.eml)
+ */
+function looksLikeEmail(content: Buffer, name: string, contentType?: string): boolean {
+  if (name.toLowerCase().endsWith('.eml') || contentType === 'message/rfc822') {
+    return true;
+  }
+
+  // Header block: the first line is a "Name: value" header field
+  const firstLine = content.subarray(0, 256).toString('utf-8').split(/\r?\n/)[0];
+  return /^(Return-Path|Received|From|Delivered-To|Message-ID|MIME-Version|Date|To|Subject|X-[\w-]+):\s/i.test(firstLine);
+}
+
+/**
+ * Ingest a file: raw XML/JSON, GZ/ZIP archive or a whole email
+ */
+export async function ingestFile(
+  content: Buffer,
+  name: string,
+  contentType?: string
+): Promise<IngestResult[]> {
+  if (looksLikeEmail(content, name, contentType)) {
+    const parsed = await simpleParser(content);
+    const results = await ingestEmail(parsed);
+
+    if (results.length === 0) {
+      return [{ name, kind: null, status: 'invalid', report_id: null, error: 'No DMARC report found in email' }];
+    }
+
+    return results.map((result) => ({ ...result, name: `${name}/${result.name}` }));
+  }
+
+  const results = await ingestAttachment(content, name, contentType);
+
+  if (results.length === 0) {
+    return [{ name, kind: null, status: 'invalid', report_id: null, error: 'Unknown file format' }];
+  }
+
+  return results;
+}
+
+/**
+ * Ingest a file and record every result in processing_log
+ */
+export async function processFile(
+  content: Buffer,
+  name: string,
+  source: string,
+  contentType?: string
+): Promise<IngestResult[]> {
+  const results = await ingestFile(content, name, contentType);
+
+  for (const result of results) {
+    insertProcessingLog({
+      email_uid: name,
+      source,
+      subject: name,
+      from_address: source,
+      attachment_count: 1,
+      report_name: result.name,
+      status: result.status === 'invalid' ? 'FAILED' : 'SUCCESS',
+      error_message: result.status === 'duplicate' ? result.error || 'Report already exists' : result.error,
+    });
+  }
+
+  return results;
+}
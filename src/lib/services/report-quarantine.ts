@@ -0,0 +1,59 @@
+/**
+ * Report Quarantine Service
+ * Re-submits quarantined reports from rejected_reports after parser or config fixes
+ */
+
+import { validateDmarcXml, storeDmarcReport, decodeRejectedPayload } from './dmarc-parser';
+import {
+  getRejectedReport,
+  updateRejectedReportErrors,
+  markRejectedReportAccepted,
+} from '../db/client';
+import { logger } from '../utils/logger';
+
+export type ResubmitResult =
+  | { status: 'inserted' | 'duplicate'; report_id: number }
+  | { status: 'rejected'; reason: string; errors: string[] };
+
+/**
+ * Validate a quarantined report again and store it if it now passes.
+ * Returns null if the quarantine entry does not exist.
+ */
+export async function resubmitRejectedReport(id: number): Promise<ResubmitResult | null> {
+  const rejected = getRejectedReport(id);
+
+  if (!rejected) {
+    return null;
+  }
+
+  if (rejected.status === 'accepted' && rejected.accepted_report_id !== null) {
+    return { status: 'duplicate', report_id: rejected.accepted_report_id };
+  }
+
+  logger.info(`Re-submitting quarantined report #${id}`);
+
+  const rawPayload = decodeRejectedPayload(rejected);
+  const outcome = validateDmarcXml(rawPayload);
+
+  if (!outcome || !outcome.success) {
+    const reason = outcome ? outcome.reason : 'validation';
+    const errors = outcome ? outcome.errors : ['feedback: missing feedback element'];
+
+    updateRejectedReportErrors(id, reason, JSON.stringify(errors));
+    logger.warn(`Quarantined report #${id} still rejected (${reason})`);
+    return { status: 'rejected', reason, errors };
+  }
+
+  const result = storeDmarcReport(outcome.report, rawPayload, rejected.source_account);
+
+  if (result.changed) {
+    const errors = [`Report already stored as ID ${result.id} with different content`];
+    updateRejectedReportErrors(id, 'changed-duplicate', JSON.stringify(errors));
+    return { status: 'rejected', reason: 'changed-duplicate', errors };
+  }
+
+  markRejectedReportAccepted(id, result.id);
+
+  logger.info(`Quarantined report #${id} accepted as report ${result.id}`);
+  return { status: result.inserted ? 'inserted' : 'duplicate', report_id: result.id };
+}
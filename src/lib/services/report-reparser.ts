@@ -0,0 +1,289 @@
+/**
+ * Report Reparser Service
+ * Re-parses stored aggregate reports from their raw XML to rebuild the records after parser upgrades
+ */
+
+import {
+  readDmarcXml,
+  decodeRawXml,
+  buildRecordInputs,
+  hashDmarcReport,
+} from './dmarc-parser';
+import {
+  findDmarcReportIds,
+  getDmarcReport,
+  getDmarcRecordsWithDetails,
+  replaceDmarcReportRecords,
+  markReportUnprocessed,
+} from '../db/client';
+import { logger } from '../utils/logger';
+import type { DmarcReport, DmarcRecordInput, DmarcReportFilter } from '../db/schema';
+
+export interface ReparseOptions {
+  dryRun?: boolean; // only report what would change
+  reanalyze?: boolean; // queue changed reports for another AI analysis
+}
+
+export interface ReparseChange {
+  record: number | null; // record index, null for report header fields
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ReparseReportResult {
+  id: number;
+  org_name: string;
+  report_id: string;
+  status: 'updated' | 'unchanged' | 'failed';
+  records_before: number;
+  records_after: number;
+  changes: ReparseChange[];
+  error: string | null;
+}
+
+export interface ReparseSummary {
+  dry_run: boolean;
+  reanalyze: boolean;
+  total: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  reports: ReparseReportResult[];
+}
+
+// Header columns that are derived by the parser
+const HEADER_FIELDS = ['policy_published', 'schema_version', 'generator', 'np', 'testing', 'discovery_method'] as const;
+
+const RECORD_FIELDS = [
+  'source_ip',
+  'count',
+  'disposition',
+  'dkim',
+  'spf',
+  'header_from',
+  'envelope_from',
+  'dkim_domain',
+  'dkim_selector',
+  'spf_domain',
+  'country',
+  'city',
+  'sender_service',
+  'authorized_sender_id',
+  'authorization',
+  'dkim_aligned_pass',
+  'spf_aligned_pass',
+  'dmarc_pass',
+] as const;
+
+/**
+ * Parse a filter boundary given as Unix timestamp or date string (2024-01-31)
+ */
+export function parseTimestamp(value: string | number): number | null {
+  if (typeof value === 'number' || /^\d+$/.test(value)) {
+    return Number(value);
+  }
+
+  const ms = Date.parse(value);
+  return isNaN(ms) ? null : Math.floor(ms / 1000);
+}
+
+/**
+ * Load the stored records of a report in the shape and order the parser produces
+ */
+function loadRecordInputs(reportId: number): DmarcRecordInput[] {
+  // Records are inserted in document order
+  const records = getDmarcRecordsWithDetails(reportId).sort((a, b) => a.id - b.id);
+
+  return records.map((record) => ({
+    record: {
+      source_ip: record.source_ip,
+      count: record.count,
+      disposition: record.disposition,
+      dkim: record.dkim,
+      spf: record.spf,
+      header_from: record.header_from,
+      envelope_from: record.envelope_from,
+      dkim_domain: record.dkim_domain,
+      dkim_selector: record.dkim_selector,
+      spf_domain: record.spf_domain,
+      country: record.country,
+      city: record.city,
+      sender_service: record.sender_service,
+      authorized_sender_id: record.authorized_sender_id,
+      authorization: record.authorization,
+      dkim_aligned_pass: record.dkim_aligned_pass,
+      spf_aligned_pass: record.spf_aligned_pass,
+      dmarc_pass: record.dmarc_pass,
+    },
+    auth_results: record.auth_results.map((authResult) => ({
+      auth_type: authResult.auth_type,
+      domain: authResult.domain,
+      selector: authResult.selector,
+      result: authResult.result,
+      human_result: authResult.human_result,
+      scope: authResult.scope,
+      aligned: authResult.aligned,
+    })),
+    policy_reasons: record.policy_reasons.map((reason) => ({ type: reason.type, comment: reason.comment })),
+  }));
+}
+
+/**
+ * Field-by-field differences between the stored and the re-parsed records.
+ * Records are compared by position; the parser keeps the document order.
+ */
+function diffRecords(before: DmarcRecordInput[], after: DmarcRecordInput[]): ReparseChange[] {
+  const changes: ReparseChange[] = [];
+
+  for (let i = 0; i < Math.max(before.length, after.length); i++) {
+    const old = before[i];
+    const updated = after[i];
+
+    if (!old || !updated) {
+      // Added or removed record
+      changes.push({ record: i, field: 'record', before: old?.record ?? null, after: updated?.record ?? null });
+      continue;
+    }
+
+    for (const field of RECORD_FIELDS) {
+      if (old.record[field] !== updated.record[field]) {
+        changes.push({ record: i, field, before: old.record[field], after: updated.record[field] });
+      }
+    }
+
+    for (const field of ['auth_results', 'policy_reasons'] as const) {
+      if (JSON.stringify(old[field]) !== JSON.stringify(updated[field])) {
+        changes.push({ record: i, field, before: old[field], after: updated[field] });
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Re-parse a single stored report and replace its records if anything changed
+ */
+function reparseReport(report: DmarcReport, options: ReparseOptions): ReparseReportResult {
+  const result: ReparseReportResult = {
+    id: report.id,
+    org_name: report.org_name,
+    report_id: report.report_id,
+    status: 'unchanged',
+    records_before: 0,
+    records_after: 0,
+    changes: [],
+    error: null,
+  };
+
+  const before = loadRecordInputs(report.id);
+  result.records_before = before.length;
+
+  const xmlContent = decodeRawXml(report);
+  if (!xmlContent) {
+    return { ...result, status: 'failed', error: 'No raw XML stored for this report' };
+  }
+
+  // Stored reports are re-parsed even if OWNED_DOMAINS changed since they were accepted
+  const outcome = readDmarcXml(xmlContent);
+  if (!outcome) {
+    return { ...result, status: 'failed', error: 'Stored raw XML is not a DMARC aggregate report' };
+  }
+  if (!outcome.success) {
+    return { ...result, status: 'failed', error: `Stored raw XML no longer validates (${outcome.reason}): ${outcome.errors.join('; ')}` };
+  }
+
+  const { metadata, policy } = outcome.report;
+  if (metadata.org_name !== report.org_name || metadata.report_id !== report.report_id) {
+    return { ...result, status: 'failed', error: `Stored raw XML belongs to report ${metadata.report_id} from ${metadata.org_name}` };
+  }
+
+  const after = buildRecordInputs(outcome.report.records, policy);
+  result.records_after = after.length;
+
+  const header = {
+    policy_published: JSON.stringify(policy),
+    schema_version: outcome.report.schema_version,
+    generator: metadata.generator,
+    np: policy.np,
+    testing: policy.testing,
+    discovery_method: policy.discovery_method,
+    content_hash: hashDmarcReport(outcome.report),
+  };
+
+  result.changes = [
+    ...HEADER_FIELDS
+      .filter((field) => report[field] !== header[field])
+      .map((field) => ({ record: null, field, before: report[field], after: header[field] })),
+    ...diffRecords(before, after),
+  ];
+
+  if (result.changes.length === 0) {
+    // Backfill the hash of reports stored before content hashing, without counting it as a change
+    if (!options.dryRun && report.content_hash !== header.content_hash) {
+      replaceDmarcReportRecords(report.id, header, after);
+    }
+    return result;
+  }
+
+  result.status = 'updated';
+
+  if (options.dryRun) {
+    return result;
+  }
+
+  replaceDmarcReportRecords(report.id, header, after);
+
+  if (options.reanalyze) {
+    markReportUnprocessed(report.id);
+  }
+
+  logger.info(`Re-parsed report ${report.report_id} (ID: ${report.id}): ${result.changes.length} change(s), ${before.length} → ${after.length} records`);
+
+  return result;
+}
+
+/**
+ * Re-parse every stored report matching the filter from its raw XML.
+ * Reports are loaded one at a time, so only a single raw payload is held in memory.
+ */
+export function reparseReports(filter: DmarcReportFilter, options: ReparseOptions = {}): ReparseSummary {
+  const ids = findDmarcReportIds(filter);
+
+  logger.info(`Re-parsing ${ids.length} report(s)${options.dryRun ? ' (dry run)' : ''}`);
+
+  const results: ReparseReportResult[] = [];
+
+  for (const id of ids) {
+    // Deleted since the IDs were read
+    const report = getDmarcReport(id);
+    if (!report) continue;
+
+    try {
+      results.push(reparseReport(report, options));
+    } catch (error) {
+      logger.error(`Error re-parsing report ${report.id}:`, error);
+      results.push({
+        id: report.id,
+        org_name: report.org_name,
+        report_id: report.report_id,
+        status: 'failed',
+        records_before: 0,
+        records_after: 0,
+        changes: [],
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return {
+    dry_run: options.dryRun === true,
+    reanalyze: options.reanalyze === true,
+    total: results.length,
+    updated: results.filter((r) => r.status === 'updated').length,
+    unchanged: results.filter((r) => r.status === 'unchanged').length,
+    failed: results.filter((r) => r.status === 'failed').length,
+    reports: results,
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Report Sources Service
+ * Pluggable inputs for the processing pipeline (IMAP, Maildir, drop directory)
+ */
+
+import { getImapAccountNames, getImapAccount, fetchAccountEmails } from './email-fetcher';
+import { createMaildirSource } from './maildir-source';
+import { createDirectorySource } from './directory-source';
+import { logger } from '../utils/logger';
+
+export type ReportSourceType = 'imap' | 'maildir' | 'directory';
+
+export interface ReportSource {
+  name: string;
+  type: ReportSourceType;
+  /** Process every pending report in this source */
+  fetch(): Promise<void>;
+}
+
+const DEFAULT_SOURCES = 'imap';
+
+/**
+ * IMAP mailbox sources, one per configured account.
+ * The account configuration is read on fetch, so an invalid account only fails its own source.
+ */
+function createImapSources(): ReportSource[] {
+  return getImapAccountNames().map((name) => ({
+    name: `imap:${name}`,
+    type: 'imap' as const,
+    fetch: () => fetchAccountEmails(getImapAccount(name)),
+  }));
+}
+
+/**
+ * Configured source types: REPORT_SOURCES is a comma-separated list, e.g. "imap,maildir,directory"
+ */
+function getConfiguredSourceTypes(): string[] {
+  const configured = (process.env.REPORT_SOURCES || DEFAULT_SOURCES)
+    .split(',')
+    .map((s) => s.trim().toLowerCase())
+    .filter((s) => s.length > 0);
+
+  return Array.from(new Set(configured));
+}
+
+/**
+ * Build the sources of one source type
+ */
+function createSources(type: string): ReportSource[] {
+  switch (type) {
+    case 'imap':
+      return createImapSources();
+    case 'maildir':
+      return [createMaildirSource(process.env.MAILDIR_PATH || '')];
+    case 'directory':
+      return [createDirectorySource(process.env.REPORT_DROP_DIR || '')];
+    default:
+      throw new Error(`Unknown report source type: ${type}`);
+  }
+}
+
+/**
+ * Build the configured report sources
+ */
+export function getReportSources(): ReportSource[] {
+  return getConfiguredSourceTypes().flatMap(createSources);
+}
+
+/**
+ * Fetch reports from every configured source.
+ * A failing or misconfigured source does not stop the others; the names of failed sources are returned.
+ */
+export async function fetchFromAllSources(): Promise<string[]> {
+  const failed: string[] = [];
+
+  for (const type of getConfiguredSourceTypes()) {
+    let sources: ReportSource[];
+    try {
+      sources = createSources(type);
+    } catch (error) {
+      logger.error(`Report source ${type} could not be set up:`, error);
+      failed.push(type);
+      continue;
+    }
+
+    for (const source of sources) {
+      try {
+        logger.info(`Fetching reports from source: ${source.name}`);
+        await source.fetch();
+      } catch (error) {
+        logger.error(`Report source ${source.name} failed:`, error);
+        failed.push(source.name);
+      }
+    }
+  }
+
+  return failed;
+}
@@ -0,0 +1,234 @@
+/**
+ * Report Validator Service
+ * Zod schemas for parsed aggregate and TLS reports and the owned-domain check
+ */
+
+import { isIP } from 'net';
+import { z } from 'zod';
+
+/**
+ * fast-xml-parser turns numeric-looking text into numbers, so textual fields
+ * accept both and are normalized to a trimmed string
+ */
+const text = z
+  .union([z.string(), z.number()])
+  .transform((value) => String(value).trim());
+
+const requiredText = text.pipe(z.string().min(1, 'must not be empty'));
+
+const timestamp = z.coerce.number().int().nonnegative();
+
+/**
+ * Single-or-array XML node (a lone element is not wrapped in an array)
+ */
+function oneOrMany<T extends z.ZodTypeAny>(schema: T) {
+  return z.union([z.array(schema), schema]);
+}
+
+/**
+ * Lower-cased keyword from a fixed set (receivers are inconsistent about case)
+ */
+function keyword<T extends string>(values: [T, ...T[]]) {
+  return text.transform((value) => value.toLowerCase()).pipe(z.enum(values));
+}
+
+const policyReasonSchema = z.object({
+  type: text.optional(),
+  comment: text.optional(),
+});
+
+const dkimAuthResultSchema = z.object({
+  domain: text.optional(),
+  selector: text.optional(),
+  result: text.optional(),
+  human_result: text.optional(),
+});
+
+const spfAuthResultSchema = z.object({
+  domain: text.optional(),
+  scope: text.optional(),
+  result: text.optional(),
+});
+
+export const recordSchema = z.object({
+  row: z.object({
+    source_ip: requiredText.refine((ip) => isIP(ip) !== 0, 'must be an IPv4 or IPv6 address'),
+    count: z.coerce.number().int().nonnegative(),
+    policy_evaluated: z.object({
+      disposition: keyword(['none', 'pass', 'quarantine', 'reject']),
+      dkim: keyword(['pass', 'fail']),
+      spf: keyword(['pass', 'fail']),
+      reason: oneOrMany(policyReasonSchema).optional(),
+    }),
+  }),
+  identifiers: z.object({
+    header_from: requiredText,
+    envelope_from: text.optional(),
+    envelope_to: text.optional(),
+  }),
+  auth_results: z
+    .object({
+      dkim: oneOrMany(dkimAuthResultSchema).optional(),
+      spf: oneOrMany(spfAuthResultSchema).optional(),
+    })
+    // An empty <auth_results/> element is parsed as an empty string
+    .or(z.literal('').transform(() => undefined))
+    .optional(),
+});
+
+export const reportMetadataSchema = z.object({
+  org_name: requiredText,
+  email: requiredText,
+  report_id: requiredText,
+  extra_contact_info: text.optional(),
+  generator: text.optional(),
+  date_range: z
+    .object({
+      begin: timestamp,
+      end: timestamp,
+    })
+    .refine((range) => range.begin <= range.end, 'begin must not be after end'),
+});
+
+export const policyPublishedSchema = z.object({
+  domain: requiredText,
+  adkim: text.optional(),
+  aspf: text.optional(),
+  p: keyword(['none', 'quarantine', 'reject']),
+  sp: text.optional(),
+  np: text.optional(),
+  pct: z.coerce.number().optional(),
+  fo: text.optional(),
+  testing: text.optional(),
+  discovery_method: text.optional(),
+});
+
+export const dmarcFeedbackSchema = z.object({
+  feedback: z.object({
+    version: text.optional(),
+    report_metadata: reportMetadataSchema,
+    policy_published: policyPublishedSchema,
+    record: oneOrMany(recordSchema),
+    extension: z.unknown().optional(),
+  }),
+});
+
+/**
+ * TLS-RPT reports (RFC 8460) are JSON, so values keep their JSON types
+ */
+const tlsText = z.string().trim().min(1, 'must not be empty');
+
+const tlsOptionalText = z.string().nullish();
+
+const tlsDateTime = z.string().refine((value) => !isNaN(Date.parse(value)), 'must be an RFC 3339 date-time');
+
+const sessionCount = z.number().int().nonnegative();
+
+const tlsFailureDetailSchema = z.object({
+  'result-type': tlsText,
+  'sending-mta-ip': tlsOptionalText,
+  'receiving-mx-hostname': tlsOptionalText,
+  'receiving-mx-helo': tlsOptionalText,
+  'receiving-ip': tlsOptionalText,
+  'failed-session-count': sessionCount.default(0),
+  'additional-information': tlsOptionalText,
+  'failure-reason-code': tlsOptionalText,
+});
+
+const tlsPolicySchema = z.object({
+  policy: z.object({
+    'policy-type': keyword(['sts', 'tlsa', 'no-policy-found']),
+    'policy-string': z.array(z.string()).nullish(),
+    'policy-domain': tlsText,
+    // Some reporters send a single host as a plain string
+    'mx-host': z.union([z.array(z.string()), z.string().transform((host) => [host])]).nullish(),
+  }),
+  summary: z.object({
+    'total-successful-session-count': sessionCount.default(0),
+    'total-failure-session-count': sessionCount.default(0),
+  }),
+  'failure-details': z.array(tlsFailureDetailSchema).optional(),
+});
+
+export const tlsReportSchema = z.object({
+  'organization-name': tlsText,
+  'date-range': z.object({
+    'start-datetime': tlsDateTime,
+    'end-datetime': tlsDateTime,
+  }),
+  'contact-info': tlsOptionalText,
+  'report-id': tlsText,
+  policies: z.array(tlsPolicySchema),
+});
+
+export type DmarcXmlFeedback = z.infer<typeof dmarcFeedbackSchema>;
+export type DmarcXmlRecord = z.infer<typeof recordSchema>;
+export type DmarcXmlReportMetadata = z.infer<typeof reportMetadataSchema>;
+export type DmarcXmlPolicyPublished = z.infer<typeof policyPublishedSchema>;
+export type TlsRptReport = z.infer<typeof tlsReportSchema>;
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: string[] };
+
+/**
+ * Validate a value against a schema.
+ * Errors are returned as "path.to.field: message" strings, below the given path prefix.
+ */
+export function validateSchema<T extends z.ZodTypeAny>(
+  schema: T,
+  value: unknown,
+  pathPrefix: string = ''
+): ValidationResult<z.infer<T>> {
+  const result = schema.safeParse(value);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues.map((issue) => {
+      const path = [pathPrefix, ...issue.path].filter((p) => p !== '').join('.');
+      return path ? `${path}: ${issue.message}` : issue.message;
+    }),
+  };
+}
+
+/**
+ * Validate parsed XML against the aggregate report schema
+ */
+export function validateDmarcFeedback(parsed: unknown): ValidationResult<DmarcXmlFeedback> {
+  return validateSchema(dmarcFeedbackSchema, parsed);
+}
+
+/**
+ * Validate parsed JSON against the TLS-RPT schema
+ */
+export function validateTlsReport(parsed: unknown): ValidationResult<TlsRptReport> {
+  return validateSchema(tlsReportSchema, parsed);
+}
+
+/**
+ * Domains we accept reports for (OWNED_DOMAINS, comma-separated).
+ * An empty list accepts every domain.
+ */
+export function getOwnedDomains(): string[] {
+  return (process.env.OWNED_DOMAINS || '')
+    .split(',')
+    .map((d) => d.trim().toLowerCase().replace(/\.$/, ''))
+    .filter((d) => d.length > 0);
+}
+
+/**
+ * Check whether a domain is one of ours or a subdomain of one of ours
+ */
+export function isOwnedDomain(domain: string): boolean {
+  const owned = getOwnedDomains();
+  if (owned.length === 0) {
+    return true;
+  }
+
+  const normalized = domain.trim().toLowerCase().replace(/\.$/, '');
+  return owned.some((d) => normalized === d || normalized.endsWith(`.${d}`));
+}
@@ -0,0 +1,431 @@
+/**
+ * Rule-Based Analyzer Service
+ * Deterministic analysis of DMARC reports from configurable rules, in the same shape as the Claude analysis
+ */
+
+import fs from 'fs';
+import { z } from 'zod';
+import { validateSchema } from './report-validator';
+import { getSenderServiceName } from './sender-catalog';
+import { normalizePolicy } from './policy-history';
+import { logger } from '../utils/logger';
+import type { ClaudeAnalysisResponse, Threat, TrendData } from '../types/analysis';
+import type { DmarcReport, DmarcRecordWithDetails, DmarcFailureReport } from '../db/schema';
+
+// Stored as model_version, bump when the rules change their verdicts
+export const RULES_VERSION = 'rules-v1';
+
+// Receiver overrides that mean a failure is most likely legitimate forwarding
+const FORWARDING_REASONS = ['forwarded', 'mailing_list', 'trusted_forwarder'];
+
+const SEVERITY_RANK: Record<Threat['severity'], number> = { LOW: 0, MEDIUM: 1, HIGH: 2, CRITICAL: 3 };
+
+const MAX_RECOMMENDATIONS = 8;
+
+const severity = z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']);
+const rate = z.number().min(0).max(1);
+
+const analyzerRulesSchema = z.object({
+  // DMARC pass rate needed for PASS / PARTIAL, below is FAIL
+  compliance: z.object({
+    pass_rate: rate.default(0.98),
+    partial_rate: rate.default(0.9),
+  }).default({}),
+  // DMARC fail rate of the report from which it is a threat of the given severity
+  fail_rate: z.object({
+    medium: rate.default(0.05),
+    high: rate.default(0.2),
+    critical: rate.default(0.5),
+  }).default({}),
+  // Failing sources that are neither authorized, a known sending service nor forwarding
+  spoofing: z.object({
+    enabled: z.boolean().default(true),
+    min_messages: z.number().int().min(1).default(1),
+    critical_messages: z.number().int().min(1).default(100),
+  }).default({}),
+  // Sources the authorized senders registry of the domain does not cover
+  unknown_sources: z.object({
+    enabled: z.boolean().default(true),
+    min_messages: z.number().int().min(1).default(1),
+    severity_passing: severity.default('MEDIUM'),
+    severity_failing: severity.default('HIGH'),
+  }).default({}),
+  // Failing messages delivered because the policy is not enforced (p=none, pct<100, t=y)
+  policy_none: z.object({
+    enabled: z.boolean().default(true),
+    severity: severity.default('MEDIUM'),
+  }).default({}),
+  top_sources: z.number().int().min(1).default(5),
+});
+
+export type AnalyzerRules = z.infer<typeof analyzerRulesSchema>;
+
+let analyzerRules: AnalyzerRules | null = null;
+
+/**
+ * Get the rules: built-in defaults, overridden by the JSON file in ANALYZER_RULES_PATH
+ */
+export function getAnalyzerRules(): AnalyzerRules {
+  if (analyzerRules) {
+    return analyzerRules;
+  }
+
+  const defaults = analyzerRulesSchema.parse({});
+  const rulesPath = process.env.ANALYZER_RULES_PATH;
+
+  if (!rulesPath) {
+    analyzerRules = defaults;
+    return analyzerRules;
+  }
+
+  try {
+    const validation = validateSchema(analyzerRulesSchema, JSON.parse(fs.readFileSync(rulesPath, 'utf-8')));
+
+    if (!validation.success) {
+      throw new Error(validation.errors.join('; '));
+    }
+
+    analyzerRules = validation.data;
+  } catch (error) {
+    logger.warn(`Analyzer rules ${rulesPath} could not be loaded, using the built-in rules:`, error);
+    analyzerRules = defaults;
+  }
+
+  return analyzerRules;
+}
+
+/**
+ * DMARC result of a record; records not evaluated yet fall back to the receiver's evaluation
+ */
+function passesDmarc(record: DmarcRecordWithDetails): boolean {
+  return record.dmarc_pass !== null ? record.dmarc_pass === 1 : record.dkim === 'pass' || record.spf === 'pass';
+}
+
+function isForwarded(record: DmarcRecordWithDetails): boolean {
+  return record.policy_reasons.some((reason) => FORWARDING_REASONS.includes(reason.type));
+}
+
+function sumMessages(records: DmarcRecordWithDetails[]): number {
+  return records.reduce((total, r) => total + r.count, 0);
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Message totals from the stored alignment results (DMARC passes if either aligned mechanism passes)
+ */
+export function summarizeAlignment(records: DmarcRecordWithDetails[]) {
+  const totalMessages = sumMessages(records);
+  const dmarcPass = sumMessages(records.filter(passesDmarc));
+
+  return {
+    total_messages: totalMessages,
+    dmarc_pass: dmarcPass,
+    dmarc_fail: totalMessages - dmarcPass,
+    dkim_aligned_pass: sumMessages(records.filter((r) => r.dkim_aligned_pass === 1)),
+    spf_aligned_pass: sumMessages(records.filter((r) => r.spf_aligned_pass === 1)),
+    pass_rate: totalMessages > 0 ? dmarcPass / totalMessages : 0,
+  };
+}
+
+/**
+ * Records grouped by source IP, largest first
+ */
+function groupBySource(records: DmarcRecordWithDetails[]): Array<{ ip: string; records: DmarcRecordWithDetails[]; messages: number }> {
+  const groups = new Map<string, DmarcRecordWithDetails[]>();
+
+  for (const record of records) {
+    groups.set(record.source_ip, [...(groups.get(record.source_ip) || []), record]);
+  }
+
+  return Array.from(groups.entries())
+    .map(([ip, sourceRecords]) => ({ ip, records: sourceRecords, messages: sumMessages(sourceRecords) }))
+    .sort((a, b) => b.messages - a.messages || a.ip.localeCompare(b.ip));
+}
+
+/**
+ * Trends computed from the records: totals, largest sources with their enrichment data, dispositions
+ */
+export function computeTrends(records: DmarcRecordWithDetails[], topSources: number): TrendData {
+  const summary = summarizeAlignment(records);
+  const dispositions = (disposition: string) => sumMessages(records.filter((r) => r.disposition === disposition));
+
+  return {
+    total_messages: summary.total_messages,
+    pass_rate: summary.pass_rate,
+    fail_rate: summary.total_messages > 0 ? 1 - summary.pass_rate : 0,
+    top_sources: groupBySource(records)
+      .slice(0, topSources)
+      .map((source) => {
+        const record = source.records[0];
+        return {
+          ip: source.ip,
+          count: source.messages,
+          ...(record.country ? { country: record.country } : {}),
+          ...(record.asn !== null ? { asn: record.asn, as_org: record.as_org ?? undefined } : {}),
+          ...(record.ptr ? { hostname: record.ptr } : {}),
+        };
+      }),
+    disposition_summary: {
+      none: dispositions('none'),
+      quarantine: dispositions('quarantine'),
+      reject: dispositions('reject'),
+    },
+  };
+}
+
+/**
+ * What is known about a source, for the evidence of a threat
+ */
+function describeSource(record: DmarcRecordWithDetails): string {
+  const details = [
+    record.ptr && `PTR ${record.ptr}${record.ptr_confirmed ? '' : ' (nicht bestätigt)'}`,
+    record.asn !== null && `AS${record.asn}${record.as_org ? ` ${record.as_org}` : ''}`,
+    record.country,
+  ].filter(Boolean);
+
+  return details.length > 0 ? ` (${details.join(', ')})` : '';
+}
+
+/**
+ * Authentication results of a source's records, e.g. "DKIM fail (esp.com), SPF pass (bounce.esp.com, nicht aligned)"
+ */
+function describeAuthResults(records: DmarcRecordWithDetails[]): string {
+  const results = new Set<string>();
+
+  for (const record of records) {
+    for (const auth of record.auth_results) {
+      const alignment = auth.result === 'pass' && auth.aligned === 0 ? ', nicht aligned' : '';
+      results.add(`${auth.auth_type.toUpperCase()} ${auth.result} (${auth.domain || '-'}${alignment})`);
+    }
+  }
+
+  return results.size > 0 ? Array.from(results).join(', ') : 'keine Auth-Ergebnisse';
+}
+
+function unique(values: Array<string | null>): string[] {
+  return Array.from(new Set(values.filter((value): value is string => !!value).map((value) => value.toLowerCase())));
+}
+
+/**
+ * Failing sources that are neither authorized, a known sending service nor forwarding: spoofed header From
+ */
+function findSpoofing(
+  records: DmarcRecordWithDetails[],
+  failureReports: DmarcFailureReport[],
+  rules: AnalyzerRules['spoofing']
+): Threat[] {
+  if (!rules.enabled) {
+    return [];
+  }
+
+  const suspicious = records.filter((r) =>
+    !passesDmarc(r) && !isForwarded(r) && r.authorization !== 'authorized' && r.sender_service === null
+  );
+
+  return groupBySource(suspicious)
+    .filter((source) => source.messages >= rules.min_messages)
+    .map((source) => {
+      const headerFrom = unique(source.records.map((r) => r.header_from));
+      const envelopeFrom = unique(source.records.map((r) => r.envelope_from)).filter((domain) => !headerFrom.includes(domain));
+
+      return {
+        type: 'spoofing' as const,
+        severity: source.messages >= rules.critical_messages ? 'CRITICAL' as const : 'HIGH' as const,
+        description: `${source.messages} Nachricht(en) mit Header From ${headerFrom.join(', ')} von ${source.ip} ` +
+          'bestehen weder DKIM- noch SPF-Alignment und stammen von keinem bekannten oder autorisierten Absender',
+        source_ips: [source.ip],
+        evidence: `${source.ip}${describeSource(source.records[0])}: ${describeAuthResults(source.records)}` +
+          (envelopeFrom.length > 0 ? `; Envelope From ${envelopeFrom.join(', ')}` : ''),
+        failure_report_ids: failureReports.filter((f) => f.source_ip === source.ip).map((f) => f.id),
+      };
+    });
+}
+
+/**
+ * Sources the authorized senders registry of their domain does not cover
+ */
+function findUnknownSources(
+  records: DmarcRecordWithDetails[],
+  excludeIps: Set<string>,
+  rules: AnalyzerRules['unknown_sources']
+): Threat[] {
+  if (!rules.enabled) {
+    return [];
+  }
+
+  const unknown = records.filter((r) => r.authorization === 'unknown' && !excludeIps.has(r.source_ip));
+
+  return groupBySource(unknown)
+    .filter((source) => source.messages >= rules.min_messages)
+    .map((source) => {
+      const failing = sumMessages(source.records.filter((r) => !passesDmarc(r)));
+      const service = getSenderServiceName(source.records[0].sender_service);
+
+      return {
+        type: 'unauthorized_sender' as const,
+        severity: failing > 0 ? rules.severity_failing : rules.severity_passing,
+        description: `${source.ip}${service ? ` (${service})` : ''} sendet für ` +
+          `${unique(source.records.map((r) => r.header_from)).join(', ')}, ist aber nicht als autorisierter Absender erfasst` +
+          (failing === 0 ? ' – DMARC wird trotzdem bestanden' : ''),
+        source_ips: [source.ip],
+        evidence: `${source.messages} Nachricht(en), davon ${failing} mit DMARC-Fehler${describeSource(source.records[0])}: ` +
+          describeAuthResults(source.records),
+        failure_report_ids: [],
+      };
+    });
+}
+
+/**
+ * Fail rate of the report above the configured thresholds
+ */
+function findHighFailRate(summary: ReturnType<typeof summarizeAlignment>, rules: AnalyzerRules['fail_rate']): Threat[] {
+  const failRate = summary.total_messages > 0 ? summary.dmarc_fail / summary.total_messages : 0;
+
+  const level: Threat['severity'] | null =
+    failRate >= rules.critical ? 'CRITICAL' :
+    failRate >= rules.high ? 'HIGH' :
+    failRate >= rules.medium ? 'MEDIUM' : null;
+
+  if (!level) {
+    return [];
+  }
+
+  return [{
+    type: 'other',
+    severity: level,
+    description: `DMARC-Fehlerquote von ${formatPercent(failRate)} liegt über dem Schwellwert`,
+    source_ips: [],
+    evidence: `${summary.dmarc_fail} von ${summary.total_messages} Nachrichten ohne ausgerichtetes DKIM- oder SPF-Ergebnis ` +
+      `(Schwellwerte: ${formatPercent(rules.medium)} / ${formatPercent(rules.high)} / ${formatPercent(rules.critical)})`,
+    failure_report_ids: [],
+  }];
+}
+
+/**
+ * Failing messages that were delivered because the published policy is not enforced
+ */
+function findUnenforcedPolicy(
+  policy: NonNullable<ReturnType<typeof normalizePolicy>>,
+  records: DmarcRecordWithDetails[],
+  rules: AnalyzerRules['policy_none']
+): Threat[] {
+  const enforced = policy.p !== 'none' && policy.pct === 100 && policy.testing !== 'y';
+  const delivered = sumMessages(records.filter((r) => !passesDmarc(r) && r.disposition === 'none'));
+
+  if (!rules.enabled || enforced || delivered === 0) {
+    return [];
+  }
+
+  return [{
+    type: 'policy_violation',
+    severity: rules.severity,
+    description: `${delivered} Nachricht(en) ohne DMARC-Pass wurden zugestellt, weil die Policy nicht durchgesetzt wird`,
+    source_ips: unique(records.filter((r) => !passesDmarc(r) && r.disposition === 'none').map((r) => r.source_ip)).slice(0, 10),
+    evidence: `Veröffentlicht: p=${policy.p} sp=${policy.sp} pct=${policy.pct}${policy.testing === 'y' ? ' t=y' : ''}`,
+    failure_report_ids: [],
+  }];
+}
+
+/**
+ * Actions derived from the findings, most important first
+ */
+function buildRecommendations(
+  policy: NonNullable<ReturnType<typeof normalizePolicy>>,
+  records: DmarcRecordWithDetails[],
+  threats: Threat[],
+  passRate: number,
+  rules: AnalyzerRules
+): string[] {
+  const recommendations: string[] = [];
+
+  const spoofingIps = threats.filter((t) => t.type === 'spoofing').flatMap((t) => t.source_ips);
+  if (spoofingIps.length > 0) {
+    recommendations.push(`Quellen ohne gültige Authentifizierung beobachten und ggf. blockieren: ${spoofingIps.slice(0, 5).join(', ')}`);
+  }
+
+  // Known sending services that fail: usually DKIM is not set up for our domain yet
+  const failingServices = unique(
+    records
+      .filter((r) => !passesDmarc(r) && !isForwarded(r) && r.sender_service !== null)
+      .map((r) => getSenderServiceName(r.sender_service))
+  );
+  for (const service of failingServices) {
+    recommendations.push(`DKIM-Signatur mit der eigenen Domain bei ${service} einrichten`);
+  }
+
+  const unknownIps = threats.filter((t) => t.type === 'unauthorized_sender').flatMap((t) => t.source_ips);
+  if (unknownIps.length > 0) {
+    recommendations.push(`Unbekannte Quellen prüfen und als autorisierte Absender erfassen oder abstellen: ${unknownIps.slice(0, 5).join(', ')}`);
+  }
+
+  if (records.every((r) => r.authorization === null)) {
+    recommendations.push(`Autorisierte Absender für ${records[0]?.header_from || 'die Domain'} erfassen, damit unbekannte Quellen erkannt werden`);
+  }
+
+  if (policy.p === 'none' || policy.pct < 100 || policy.testing === 'y') {
+    if (passRate >= rules.compliance.pass_rate) {
+      recommendations.push('Policy auf p=quarantine (pct=100) verschärfen – die Auswirkung vorher im Policy-Simulator prüfen');
+    } else {
+      recommendations.push('Fehlschlagende legitime Quellen beheben, bevor die Policy verschärft wird');
+    }
+  } else if (policy.p === 'quarantine' && passRate >= rules.compliance.pass_rate) {
+    recommendations.push('Policy auf p=reject verschärfen – die Auswirkung vorher im Policy-Simulator prüfen');
+  }
+
+  return recommendations.slice(0, MAX_RECOMMENDATIONS);
+}
+
+/**
+ * Analyze a report with the rules
+ */
+export function analyzeWithRules(
+  report: DmarcReport,
+  records: DmarcRecordWithDetails[],
+  failureReports: DmarcFailureReport[],
+  rules: AnalyzerRules = getAnalyzerRules()
+): ClaudeAnalysisResponse {
+  // A report always has a valid p=, the fallback only keeps the rules total
+  const policy = normalizePolicy(JSON.parse(report.policy_published)) || normalizePolicy({ p: 'none' })!;
+  const summary = summarizeAlignment(records);
+
+  const spoofing = findSpoofing(records, failureReports, rules.spoofing);
+  const spoofingIps = new Set(spoofing.flatMap((t) => t.source_ips));
+
+  const threats = [
+    ...spoofing,
+    ...findUnknownSources(records, spoofingIps, rules.unknown_sources),
+    ...findHighFailRate(summary, rules.fail_rate),
+    ...findUnenforcedPolicy(policy, records, rules.policy_none),
+  ].sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+
+  const threatLevel = threats.reduce<Threat['severity']>(
+    (level, threat) => (SEVERITY_RANK[threat.severity] > SEVERITY_RANK[level] ? threat.severity : level),
+    'LOW'
+  );
+
+  // An unenforced policy is at most partially compliant
+  const enforced = policy.p !== 'none' && policy.pct === 100 && policy.testing !== 'y';
+  const complianceStatus: ClaudeAnalysisResponse['compliance_status'] =
+    summary.pass_rate >= rules.compliance.pass_rate && enforced ? 'PASS' :
+    summary.pass_rate >= rules.compliance.partial_rate ? 'PARTIAL' : 'FAIL';
+
+  const alignedShare = (value: number) => formatPercent(summary.total_messages > 0 ? value / summary.total_messages : 0);
+
+  return {
+    compliance_status: complianceStatus,
+    compliance_score: Math.round(summary.pass_rate * 100),
+    threats,
+    threat_level: threatLevel,
+    trends: computeTrends(records, rules.top_sources),
+    recommendations: buildRecommendations(policy, records, threats, summary.pass_rate, rules),
+    summary: `${summary.total_messages} Nachricht(en) von ${report.org_name} für ${report.domain}, ` +
+      `${formatPercent(summary.pass_rate)} bestehen DMARC (DKIM ${alignedShare(summary.dkim_aligned_pass)}, ` +
+      `SPF ${alignedShare(summary.spf_aligned_pass)} aligned) bei p=${policy.p}. ` +
+      (threats.length > 0
+        ? `${threats.length} Auffälligkeit(en), Bedrohungsstufe ${threatLevel}.`
+        : 'Keine Auffälligkeiten.'),
+  };
+}
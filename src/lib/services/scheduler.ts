@@ -4,8 +4,11 @@
  */
 
 import cron from 'node-cron';
-import { fetchAndProcessEmails } from './email-fetcher';
+import { fetchFromAllSources } from './report-sources';
 import { analyzeUnprocessedReports } from './claude-analyzer';
+import { runDueDnsChecks } from './dns-posture';
+import { syncPolicyHistory } from './policy-history';
+import { sendPolicyEventNotification } from './notification';
 import { logger } from '../utils/logger';
 
 let cronJob: cron.ScheduledTask | null = null;
@@ -14,6 +17,25 @@ let lastRunTime: Date | null = null;
 let lastRunStatus: 'success' | 'error' | null = null;
 let lastRunError: string | null = null;
 
+/**
+ * Add new reports to the policy history, check DNS once a day and notify policy events.
+ * Failures are logged only, they do not fail the pipeline run.
+ */
+export async function runPolicyChecks(): Promise<void> {
+  try {
+    syncPolicyHistory();
+
+    const checkedCount = await runDueDnsChecks();
+    if (checkedCount > 0) {
+      logger.info(`Checked DNS records of ${checkedCount} domain(s)`);
+    }
+
+    await sendPolicyEventNotification();
+  } catch (error) {
+    logger.error('Policy history / DNS posture check failed', error);
+  }
+}
+
 /**
  * Run the complete DMARC processing pipeline
  */
@@ -28,14 +50,22 @@ async function runPipeline(): Promise<void> {
   logger.info('=== Starting Automated DMARC Pipeline ===');
 
   try {
-    // Step 1: Fetch emails
-    logger.info('Step 1: Fetching emails from IMAP...');
-    await fetchAndProcessEmails();
+    // Step 1: Fetch reports from all configured sources
+    logger.info('Step 1: Fetching reports from sources...');
+    const failedSources = await fetchFromAllSources();
 
-    // Step 2: Analyze reports
-    logger.info('Step 2: Analyzing reports with Claude AI...');
+    // Step 2: Analyze reports (also those from sources that succeeded)
+    logger.info('Step 2: Analyzing reports...');
     const analyzedCount = await analyzeUnprocessedReports();
 
+    // Step 3: Policy history, DNS checks and policy notifications
+    logger.info('Step 3: Updating policy history and checking DNS...');
+    await runPolicyChecks();
+
+    if (failedSources.length > 0) {
+      throw new Error(`Report source(s) failed: ${failedSources.join(', ')}`);
+    }
+
     const duration = Date.now() - startTime.getTime();
     logger.info(`=== Pipeline completed successfully in ${duration}ms. Analyzed ${analyzedCount} reports ===`);
 
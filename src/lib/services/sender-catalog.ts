@@ -0,0 +1,296 @@
+/**
+ * Sender Catalog Service
+ * Recognizes email service providers (ESPs) that send on our behalf, to label records with a sender service
+ */
+
+import fs from 'fs';
+import net from 'net';
+import { getIpIntel, getRecordSenderFingerprints, updateRecordSenderServices } from '../db/client';
+import { logger } from '../utils/logger';
+import type { DmarcRecordInput } from '../db/schema';
+
+export interface SenderService {
+  id: string;
+  name: string;
+  cidrs: string[]; // sending IP ranges ("167.89.0.0/17")
+  ptr_domains: string[]; // reverse DNS hostnames ending in these domains
+  dkim_domains: string[]; // DKIM d= domains of the provider's own signatures
+  spf_domains: string[]; // return-path (envelope from) domains; SPF include hosts never show up in reports
+}
+
+/**
+ * What is known about a record's sender
+ */
+export interface SenderFingerprint {
+  source_ip: string;
+  ptr: string | null;
+  dkim_domains: string[];
+  spf_domains: string[]; // SPF checked domains and the envelope from
+}
+
+interface LoadedService {
+  service: SenderService;
+  ranges: net.BlockList;
+}
+
+/**
+ * Built-in catalog. Ranges and domains follow the providers' published SPF records and
+ * documentation; entries can be added or replaced with SENDER_CATALOG_PATH.
+ */
+export const BUILTIN_SENDER_SERVICES: SenderService[] = [
+  {
+    id: 'microsoft365',
+    name: 'Microsoft 365',
+    cidrs: ['40.92.0.0/15', '40.107.0.0/16', '52.100.0.0/14', '104.47.0.0/17', '2a01:111:f400::/48', '2a01:111:f403::/48'],
+    ptr_domains: ['outbound.protection.outlook.com'],
+    dkim_domains: ['onmicrosoft.com'],
+    spf_domains: ['onmicrosoft.com'],
+  },
+  {
+    id: 'google-workspace',
+    name: 'Google Workspace',
+    cidrs: ['35.190.247.0/24', '64.233.160.0/19', '66.102.0.0/20', '66.249.80.0/20', '72.14.192.0/18', '74.125.0.0/16', '108.177.8.0/21', '173.194.0.0/16', '209.85.128.0/17', '2001:4860:4000::/36', '2404:6800:4000::/36', '2607:f8b0:4000::/36', '2800:3f0:4000::/36', '2a00:1450:4000::/36', '2c0f:fb50:4000::/36'],
+    ptr_domains: ['google.com'],
+    dkim_domains: ['gappssmtp.com'],
+    // Workspace uses the customer's own return-path domain
+    spf_domains: [],
+  },
+  {
+    id: 'mailchimp',
+    name: 'Mailchimp / Mandrill',
+    cidrs: ['148.105.0.0/16', '198.2.128.0/18', '205.201.128.0/20'],
+    ptr_domains: ['mcsv.net', 'mcdlv.net', 'rsgsv.net', 'mandrillapp.com'],
+    dkim_domains: ['mcsv.net', 'mcdlv.net', 'mailchimpapp.net', 'mandrillapp.com'],
+    spf_domains: ['mcsv.net', 'mcdlv.net', 'rsgsv.net', 'mandrillapp.com'],
+  },
+  {
+    id: 'sendgrid',
+    name: 'SendGrid',
+    cidrs: ['50.31.32.0/19', '149.72.0.0/16', '159.183.0.0/16', '167.89.0.0/17', '168.245.0.0/17', '198.37.144.0/20', '208.117.48.0/20'],
+    ptr_domains: ['sendgrid.net'],
+    dkim_domains: ['sendgrid.net', 'sendgrid.info'],
+    spf_domains: ['sendgrid.net'],
+  },
+  {
+    id: 'salesforce',
+    name: 'Salesforce',
+    cidrs: ['13.108.16.0/20', '13.110.208.0/21', '13.110.216.0/22', '13.110.224.0/20', '13.111.0.0/16', '96.43.144.0/20', '136.146.208.0/20', '136.147.128.0/20', '136.147.176.0/20'],
+    ptr_domains: ['salesforce.com', 'exacttarget.com'],
+    dkim_domains: ['salesforce.com', 'exacttarget.com', 'exct.net'],
+    spf_domains: ['salesforce.com', 'exacttarget.com', 'exct.net'],
+  },
+  {
+    id: 'amazon-ses',
+    name: 'Amazon SES',
+    cidrs: ['23.249.208.0/20', '23.251.224.0/19', '54.240.0.0/18', '69.169.224.0/20', '76.223.128.0/19', '76.223.176.0/20', '199.127.232.0/22', '199.255.192.0/22'],
+    ptr_domains: ['amazonses.com'],
+    dkim_domains: ['amazonses.com'],
+    spf_domains: ['amazonses.com'],
+  },
+  {
+    id: 'mailgun',
+    name: 'Mailgun',
+    cidrs: ['69.72.32.0/20', '159.135.224.0/20', '161.38.192.0/20', '166.78.68.0/22', '198.61.254.0/23', '209.61.151.0/24'],
+    ptr_domains: ['mailgun.net'],
+    dkim_domains: ['mailgun.org', 'mailgun.info'],
+    spf_domains: ['mailgun.org', 'mailgun.net'],
+  },
+  {
+    id: 'brevo',
+    name: 'Brevo (Sendinblue)',
+    cidrs: ['1.179.112.0/20', '172.246.240.0/20', '185.41.28.0/22', '185.107.232.0/22', '212.146.192.0/20'],
+    ptr_domains: ['sendinblue.com', 'brevo.com'],
+    dkim_domains: ['sendinblue.com', 'brevo.com'],
+    spf_domains: ['sendinblue.com', 'brevo.com'],
+  },
+  {
+    id: 'mailjet',
+    name: 'Mailjet',
+    cidrs: ['87.253.232.0/21', '185.189.236.0/22', '185.211.120.0/22', '185.250.236.0/22'],
+    ptr_domains: ['mailjet.com'],
+    dkim_domains: ['mailjet.com'],
+    spf_domains: ['mailjet.com'],
+  },
+  {
+    id: 'postmark',
+    name: 'Postmark',
+    cidrs: ['50.31.156.0/23', '104.245.209.192/26'],
+    ptr_domains: ['mtasv.net'],
+    dkim_domains: ['mtasv.net'],
+    spf_domains: ['mtasv.net'],
+  },
+  {
+    id: 'hubspot',
+    name: 'HubSpot',
+    cidrs: ['3.93.157.0/24', '3.210.190.0/24', '143.244.80.0/20', '158.247.16.0/20'],
+    ptr_domains: ['hubspotemail.net'],
+    dkim_domains: ['hubspotemail.net', 'hs-email.net'],
+    spf_domains: ['hubspotemail.net', 'hubspotstarter.net'],
+  },
+];
+
+let catalog: LoadedService[] | null = null;
+
+/**
+ * Build the IP range matcher of a service; invalid CIDRs (bad address, or a prefix
+ * longer than the address family allows) are skipped with a warning
+ */
+function buildRanges(service: SenderService): net.BlockList {
+  const ranges = new net.BlockList();
+
+  for (const cidr of service.cidrs) {
+    const [address, prefix] = cidr.split('/');
+    const family = net.isIPv6(address) ? 'ipv6' : net.isIPv4(address) ? 'ipv4' : null;
+
+    if (!family || !/^\d+$/.test(prefix || '') || Number(prefix) > (family === 'ipv6' ? 128 : 32)) {
+      logger.warn(`Sender catalog: invalid CIDR ${cidr} for ${service.id}`);
+      continue;
+    }
+
+    ranges.addSubnet(address, Number(prefix), family);
+  }
+
+  return ranges;
+}
+
+/**
+ * Read additional catalog entries from SENDER_CATALOG_PATH (JSON array of services)
+ */
+function loadCustomServices(): SenderService[] {
+  const catalogPath = process.env.SENDER_CATALOG_PATH;
+
+  if (!catalogPath) {
+    return [];
+  }
+
+  try {
+    const entries = JSON.parse(fs.readFileSync(catalogPath, 'utf-8'));
+
+    if (!Array.isArray(entries)) {
+      throw new Error('expected a JSON array');
+    }
+
+    const domains = (value: unknown): string[] =>
+      Array.isArray(value) ? value.map((domain) => String(domain).toLowerCase()) : [];
+
+    return entries
+      .filter((entry) => typeof entry?.id === 'string' && typeof entry?.name === 'string')
+      .map((entry) => ({
+        id: entry.id,
+        name: entry.name,
+        cidrs: Array.isArray(entry.cidrs) ? entry.cidrs.map(String) : [],
+        ptr_domains: domains(entry.ptr_domains),
+        dkim_domains: domains(entry.dkim_domains),
+        spf_domains: domains(entry.spf_domains),
+      }));
+  } catch (error) {
+    logger.warn(`Sender catalog ${catalogPath} could not be loaded, using the built-in catalog:`, error);
+    return [];
+  }
+}
+
+/**
+ * Get the catalog: built-in services, with entries from SENDER_CATALOG_PATH added or replacing
+ * built-in ones with the same id
+ */
+function getCatalog(): LoadedService[] {
+  if (catalog) {
+    return catalog;
+  }
+
+  const services = new Map(BUILTIN_SENDER_SERVICES.map((service) => [service.id, service]));
+  for (const service of loadCustomServices()) {
+    services.set(service.id, service);
+  }
+
+  catalog = [...services.values()].map((service) => ({ service, ranges: buildRanges(service) }));
+  return catalog;
+}
+
+/**
+ * Get all services of the catalog
+ */
+export function getSenderServices(): SenderService[] {
+  return getCatalog().map((entry) => entry.service);
+}
+
+/**
+ * Get the display name of a service id (the id itself if it is no longer in the catalog)
+ */
+export function getSenderServiceName(id: string | null): string | null {
+  if (!id) {
+    return null;
+  }
+
+  return getCatalog().find((entry) => entry.service.id === id)?.service.name ?? id;
+}
+
+/**
+ * Check whether a domain equals or is a subdomain of one of the given domains
+ */
+function matchesDomain(domain: string, domains: string[]): boolean {
+  const name = domain.toLowerCase().replace(/\.$/, '');
+  return domains.some((d) => name === d || name.endsWith(`.${d}`));
+}
+
+/**
+ * Find the sending service of a record. Signals are checked from most to least specific:
+ * provider DKIM signature, IP range, reverse DNS, SPF domain. Returns the service id or null.
+ */
+export function classifySender(fingerprint: SenderFingerprint): string | null {
+  const services = getCatalog();
+  const family = net.isIPv6(fingerprint.source_ip) ? 'ipv6' : 'ipv4';
+
+  const matchers: Array<(entry: LoadedService) => boolean> = [
+    (entry) => fingerprint.dkim_domains.some((domain) => matchesDomain(domain, entry.service.dkim_domains)),
+    (entry) => net.isIP(fingerprint.source_ip) !== 0 && entry.ranges.check(fingerprint.source_ip, family),
+    (entry) => fingerprint.ptr !== null && matchesDomain(fingerprint.ptr, entry.service.ptr_domains),
+    (entry) => fingerprint.spf_domains.some((domain) => matchesDomain(domain, entry.service.spf_domains)),
+  ];
+
+  for (const matches of matchers) {
+    const match = services.find(matches);
+    if (match) {
+      return match.service.id;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Classify a parsed record (reverse DNS from the ip_intel cache, if already resolved)
+ */
+export function classifyRecordInput(input: DmarcRecordInput): string | null {
+  const domainsOf = (type: string) => input.auth_results
+    .filter((result) => result.auth_type === type && result.domain)
+    .map((result) => result.domain);
+
+  return classifySender({
+    source_ip: input.record.source_ip,
+    ptr: getIpIntel(input.record.source_ip)?.ptr ?? null,
+    dkim_domains: domainsOf('dkim'),
+    spf_domains: [...domainsOf('spf'), ...(input.record.envelope_from ? [input.record.envelope_from] : [])],
+  });
+}
+
+/**
+ * Classify stored records again, e.g. after reverse DNS was resolved or the catalog changed
+ * (only the records of one report if reportId is given). Returns the number of changed records.
+ */
+export function classifyStoredRecords(reportId?: number): { records: number; changed: number } {
+  const rows = getRecordSenderFingerprints(reportId);
+  const split = (value: string | null) => (value ? value.split(',').filter((domain) => domain.length > 0) : []);
+
+  const updates = rows.map((row) => ({
+    id: row.id,
+    sender_service: classifySender({
+      source_ip: row.source_ip,
+      ptr: row.ptr,
+      dkim_domains: split(row.dkim_domains),
+      spf_domains: [...split(row.spf_domains), ...(row.envelope_from ? [row.envelope_from] : [])],
+    }),
+  }));
+
+  return { records: rows.length, changed: updateRecordSenderServices(updates) };
+}
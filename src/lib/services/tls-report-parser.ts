@@ -0,0 +1,88 @@
+/**
+ * TLS Report Parser Service
+ * Parses SMTP TLS reports (TLS-RPT) according to RFC 8460
+ */
+
+import {
+  insertTlsReportWithPolicies,
+  getTlsReportByReporter,
+} from '../db/client';
+import { validateTlsReport } from './report-validator';
+import { logger } from '../utils/logger';
+import type { TlsReportPolicyInput } from '../db/schema';
+import type { ParseResult } from '../types/ingest';
+
+/**
+ * Convert an RFC 3339 timestamp (validated by the schema) to unix seconds
+ */
+function toUnixTimestamp(value: string): number {
+  return Math.floor(Date.parse(value) / 1000);
+}
+
+/**
+ * Parse TLS-RPT JSON content and store in database.
+ * The report is validated against the TLS-RPT schema and stored with all its policies
+ * and failure details in one transaction. Report IDs are only unique per reporting
+ * organization, so duplicates are detected on (organization-name, report-id).
+ */
+export async function parseTlsReportJson(jsonContent: string): Promise<ParseResult | null> {
+  try {
+    logger.info('Parsing TLS-RPT JSON...');
+
+    const outcome = validateTlsReport(JSON.parse(jsonContent));
+
+    if (!outcome.success) {
+      logger.error(`Invalid TLS-RPT JSON: ${outcome.errors.slice(0, 3).join('; ')}`);
+      return null;
+    }
+
+    const report = outcome.data;
+
+    const existing = getTlsReportByReporter(report['organization-name'], report['report-id']);
+    if (existing) {
+      logger.info(`TLS report ${report['report-id']} from ${report['organization-name']} already exists, skipping`);
+      return { id: existing.id, inserted: false };
+    }
+
+    const policies: TlsReportPolicyInput[] = report.policies.map((entry) => ({
+      policy: {
+        policy_type: entry.policy['policy-type'],
+        policy_domain: entry.policy['policy-domain'],
+        policy_string: entry.policy['policy-string'] ? JSON.stringify(entry.policy['policy-string']) : null,
+        mx_host: entry.policy['mx-host'] ? JSON.stringify(entry.policy['mx-host']) : null,
+        successful_session_count: entry.summary['total-successful-session-count'],
+        failure_session_count: entry.summary['total-failure-session-count'],
+      },
+      failures: (entry['failure-details'] || []).map((detail) => ({
+        result_type: detail['result-type'],
+        sending_mta_ip: detail['sending-mta-ip'] || null,
+        receiving_mx_hostname: detail['receiving-mx-hostname'] || null,
+        receiving_mx_helo: detail['receiving-mx-helo'] || null,
+        receiving_ip: detail['receiving-ip'] || null,
+        failed_session_count: detail['failed-session-count'],
+        additional_information: detail['additional-information'] || null,
+        failure_reason_code: detail['failure-reason-code'] || null,
+      })),
+    }));
+
+    const tlsReportId = insertTlsReportWithPolicies(
+      {
+        report_id: report['report-id'],
+        org_name: report['organization-name'],
+        contact_info: report['contact-info'] || null,
+        date_begin: toUnixTimestamp(report['date-range']['start-datetime']),
+        date_end: toUnixTimestamp(report['date-range']['end-datetime']),
+        raw_json: jsonContent,
+      },
+      policies
+    );
+
+    const failureCount = policies.reduce((sum, entry) => sum + entry.failures.length, 0);
+    logger.info(`Inserted TLS report: ${report['report-id']} (ID: ${tlsReportId}) with ${policies.length} policies and ${failureCount} failure details`);
+
+    return { id: tlsReportId, inserted: true };
+  } catch (error) {
+    logger.error('Error parsing TLS-RPT JSON:', error);
+    throw error;
+  }
+}
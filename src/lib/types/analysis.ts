@@ -8,6 +8,7 @@ export interface Threat {
   description: string;
   source_ips: string[];
   evidence: string;
+  failure_report_ids?: number[];
 }
 
 export interface TrendData {
@@ -18,6 +19,9 @@ export interface TrendData {
     ip: string;
     count: number;
     country?: string;
+    asn?: number;
+    as_org?: string;
+    hostname?: string; // reverse DNS
   }>;
   disposition_summary: {
     none: number;
@@ -0,0 +1,21 @@
+/**
+ * Type definitions for report ingestion
+ */
+
+export type ReportKind = 'dmarc-aggregate' | 'dmarc-failure' | 'tlsrpt';
+
+export interface ParseResult {
+  id: number;
+  inserted: boolean; // false when the report already existed
+  changed?: boolean; // already existed, but was re-sent with different content
+}
+
+export type IngestStatus = 'inserted' | 'duplicate' | 'invalid';
+
+export interface IngestResult {
+  name: string; // file, attachment or archive entry name
+  kind: ReportKind | null;
+  status: IngestStatus;
+  report_id: number | null;
+  error: string | null;
+}
@@ -0,0 +1,45 @@
+/**
+ * Location and network formatting for the dashboard
+ */
+
+const regionNames = new Intl.DisplayNames(['de'], { type: 'region' });
+
+/**
+ * Format an ISO country code and city as "Deutschland, Berlin" (null if unknown)
+ */
+export function formatLocation(country: string | null, city?: string | null): string | null {
+  if (!country) {
+    return null;
+  }
+
+  let name = country;
+  try {
+    name = regionNames.of(country) || country;
+  } catch {
+    // Not a valid region code, show it as stored
+  }
+
+  return city ? `${name}, ${city}` : name;
+}
+
+/**
+ * Format an autonomous system as "AS15169 · Google LLC" (null if unknown)
+ */
+export function formatAsn(asn: number | null, asOrg: string | null): string | null {
+  if (asn === null) {
+    return null;
+  }
+
+  return asOrg ? `AS${asn} · ${asOrg}` : `AS${asn}`;
+}
+
+/**
+ * Format a reverse DNS hostname, marking hostnames that do not resolve back to the IP (null if unknown)
+ */
+export function formatHostname(ptr: string | null, confirmed: boolean): string | null {
+  if (!ptr) {
+    return null;
+  }
+
+  return confirmed ? ptr : `${ptr} (nicht bestätigt)`;
+}
@@ -0,0 +1,35 @@
+#!/usr/bin/env tsx
+
+/**
+ * Sender Classification Script
+ * Labels all stored records with their sending service from the sender catalog
+ * and matches them against the authorized senders registry
+ *
+ * Usage: npm run senders:classify   (e.g. after extending SENDER_CATALOG_PATH or ip-intel:refresh)
+ */
+
+import 'dotenv/config';
+import { classifyStoredRecords } from '../lib/services/sender-catalog';
+import { rematchAuthorizedSenders } from '../lib/services/authorized-senders';
+import { logger } from '../lib/utils/logger';
+import { closeDatabase } from '../lib/db/client';
+
+async function main() {
+  logger.info('=== Starting Sender Classification ===');
+
+  try {
+    const result = classifyStoredRecords();
+    logger.info(`${result.changed} of ${result.records} records changed their sending service`);
+
+    const authorization = rematchAuthorizedSenders();
+    logger.info(`=== Sender classification completed: ${authorization.changed} records changed their authorization ===`);
+  } catch (error) {
+    logger.error('=== Sender classification failed ===', error);
+    process.exit(1);
+  } finally {
+    closeDatabase();
+  }
+}
+
+// Run the script
+main();
@@ -0,0 +1,45 @@
+#!/usr/bin/env tsx
+
+/**
+ * DNS Check Script
+ * Checks the DMARC, SPF, DKIM, MTA-STS and TLS-RPT records of the monitored domains and stores the findings
+ *
+ * Usage: npm run dns:check [-- --domain example.com]   (--domain can be repeated, default: all monitored domains)
+ */
+
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import { runDnsChecks } from '../lib/services/dns-posture';
+import { logger } from '../lib/utils/logger';
+import { closeDatabase } from '../lib/db/client';
+
+async function main() {
+  logger.info('=== Starting DNS Check ===');
+
+  try {
+    const { values } = parseArgs({
+      options: {
+        domain: { type: 'string', multiple: true },
+      },
+    });
+
+    const results = await runDnsChecks(values.domain);
+
+    for (const result of results) {
+      for (const finding of result.findings) {
+        logger.info(`  ${result.domain} [${finding.severity}] ${finding.check}: ${finding.message}`);
+      }
+    }
+
+    const failed = results.filter((result) => result.status === 'critical').length;
+    logger.info(`=== DNS check completed: ${results.length} domain(s), ${failed} with critical findings ===`);
+  } catch (error) {
+    logger.error('=== DNS check failed ===', error);
+    process.exit(1);
+  } finally {
+    closeDatabase();
+  }
+}
+
+// Run the script
+main();
@@ -0,0 +1,40 @@
+#!/usr/bin/env tsx
+
+/**
+ * Alignment Evaluation Script
+ * Evaluates DKIM/SPF alignment of stored records under the policy their report published
+ *
+ * Usage: npm run alignment:evaluate [-- --all]   (--all re-evaluates every record, e.g. after a Public Suffix List update)
+ */
+
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import { evaluateStoredAlignment } from '../lib/services/alignment';
+import { getPublicSuffixListSource } from '../lib/services/public-suffix';
+import { logger } from '../lib/utils/logger';
+import { closeDatabase } from '../lib/db/client';
+
+async function main() {
+  logger.info('=== Starting Alignment Evaluation ===');
+
+  try {
+    const { values } = parseArgs({
+      options: {
+        all: { type: 'boolean' },
+      },
+    });
+
+    logger.info(`Public Suffix List: ${getPublicSuffixListSource()}`);
+
+    const result = evaluateStoredAlignment({ all: values.all === true });
+    logger.info(`=== Alignment evaluation completed: ${result.changed} of ${result.records} records changed ===`);
+  } catch (error) {
+    logger.error('=== Alignment evaluation failed ===', error);
+    process.exit(1);
+  } finally {
+    closeDatabase();
+  }
+}
+
+// Run the script
+main();
@@ -0,0 +1,37 @@
+#!/usr/bin/env tsx
+
+/**
+ * GeoIP Backfill Script
+ * Sets country and city on stored records from the GeoIP database
+ *
+ * Usage: npm run geoip:backfill [-- --all]   (--all also refreshes records that already have a country)
+ */
+
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import { backfillRecordLocations } from '../lib/services/geoip';
+import { logger } from '../lib/utils/logger';
+import { closeDatabase } from '../lib/db/client';
+
+async function main() {
+  logger.info('=== Starting GeoIP Backfill ===');
+
+  try {
+    const { values } = parseArgs({
+      options: {
+        all: { type: 'boolean' },
+      },
+    });
+
+    const result = backfillRecordLocations(values.all === true);
+    logger.info(`=== GeoIP backfill completed: ${result.records} records updated (${result.ips} IPs) ===`);
+  } catch (error) {
+    logger.error('=== GeoIP backfill failed ===', error);
+    process.exit(1);
+  } finally {
+    closeDatabase();
+  }
+}
+
+// Run the script
+main();
@@ -0,0 +1,61 @@
+#!/usr/bin/env tsx
+
+/**
+ * Archive Import Script
+ * Imports historical report emails from mbox files and folders of .eml files
+ *
+ * Usage: npm run import:archive -- [--analyze] <mbox file or directory>...
+ */
+
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import { importArchives } from '../lib/services/archive-import';
+import { analyzeUnprocessedReports } from '../lib/services/claude-analyzer';
+import { logger } from '../lib/utils/logger';
+import { closeDatabase } from '../lib/db/client';
+
+async function main() {
+  logger.info('=== Starting Archive Import ===');
+
+  try {
+    const { values, positionals } = parseArgs({
+      options: {
+        analyze: { type: 'boolean' },
+      },
+      allowPositionals: true,
+    });
+
+    if (positionals.length === 0) {
+      throw new Error('Pass at least one mbox file or directory of .eml files');
+    }
+
+    // Without --analyze the backfilled reports are marked as analyzed, so the scheduler skips them
+    const analyze = values.analyze === true;
+    const summary = await importArchives(positionals, { markProcessed: !analyze });
+
+    console.log('\nImport summary:');
+    console.log(`  Files:      ${summary.files}`);
+    console.log(`  Messages:   ${summary.messages}`);
+    console.log(`  Inserted:   ${summary.inserted}`);
+    console.log(`  Duplicates: ${summary.duplicate}`);
+    console.log(`  Invalid:    ${summary.invalid}`);
+    console.log(`  No reports: ${summary.skipped}`);
+    console.log(`  Unreadable: ${summary.failed}`);
+
+    if (analyze) {
+      logger.info('Analyzing imported reports...');
+      const analyzedCount = await analyzeUnprocessedReports();
+      logger.info(`Analyzed ${analyzedCount} reports`);
+    }
+
+    logger.info('=== Archive import completed ===');
+  } catch (error) {
+    logger.error('=== Archive import failed ===', error);
+    process.exit(1);
+  } finally {
+    closeDatabase();
+  }
+}
+
+// Run the script
+main();
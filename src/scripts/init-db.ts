@@ -7,7 +7,66 @@
 
 import 'dotenv/config';
 import { getDatabase, closeDatabase } from '../lib/db/client';
-import { SQL_SCHEMA } from '../lib/db/schema';
+import { SQL_SCHEMA, SQL_MIGRATIONS } from '../lib/db/schema';
+
+/**
+ * Add columns that are missing from tables created by an older schema
+ */
+function applyMigrations(db: ReturnType<typeof getDatabase>) {
+  for (const migration of SQL_MIGRATIONS) {
+    const columns = db.prepare(`PRAGMA table_info(${migration.table})`).all() as Array<{ name: string }>;
+
+    if (!columns.some(c => c.name === migration.column)) {
+      db.exec(`ALTER TABLE ${migration.table} ADD COLUMN ${migration.column} ${migration.definition}`);
+      console.log(`✓ ${migration.table}.${migration.column} column added`);
+    }
+  }
+}
+
+/**
+ * Replace the old UNIQUE(report_id) constraint of a report table with UNIQUE(org_name, report_id).
+ * SQLite cannot drop constraints, so the table is rebuilt (create, copy, drop, rename).
+ */
+function migrateReportUniqueness(db: ReturnType<typeof getDatabase>, table: 'dmarc_reports' | 'tls_reports') {
+  const indexes = db.prepare(`PRAGMA index_list(${table})`).all() as Array<{ name: string; unique: number }>;
+
+  const hasLegacyConstraint = indexes.some((index) => {
+    if (!index.unique) return false;
+    const columns = db.prepare(`PRAGMA index_info(${index.name})`).all() as Array<{ name: string }>;
+    return columns.length === 1 && columns[0].name === 'report_id';
+  });
+
+  if (!hasLegacyConstraint) {
+    return;
+  }
+
+  const newColumns = new Set(
+    (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(c => c.name)
+  );
+
+  // Child tables reference the report table; without this the DROP would cascade-delete them
+  db.pragma('foreign_keys = OFF');
+
+  try {
+    db.transaction(() => {
+      db.exec(SQL_SCHEMA[table].replace(`${table} (`, `${table}_new (`));
+
+      const targetColumns = (db.prepare(`PRAGMA table_info(${table}_new)`).all() as Array<{ name: string }>)
+        .map(c => c.name)
+        .filter(name => newColumns.has(name))
+        .join(', ');
+
+      db.exec(`INSERT INTO ${table}_new (${targetColumns}) SELECT ${targetColumns} FROM ${table}`);
+      db.exec(`DROP TABLE ${table}`);
+      db.exec(`ALTER TABLE ${table}_new RENAME TO ${table}`);
+      SQL_SCHEMA[`${table}_indexes`].forEach(index => db.exec(index));
+    })();
+  } finally {
+    db.pragma('foreign_keys = ON');
+  }
+
+  console.log(`✓ ${table} unique constraint changed to (org_name, report_id)`);
+}
 
 function initializeDatabase() {
   console.log('Initializing DMARC Reports database...');
@@ -26,6 +85,26 @@ function initializeDatabase() {
     SQL_SCHEMA.dmarc_records_indexes.forEach(index => db.exec(index));
     console.log('✓ dmarc_records table created');
 
+    db.exec(SQL_SCHEMA.dmarc_auth_results);
+    SQL_SCHEMA.dmarc_auth_results_indexes.forEach(index => db.exec(index));
+    console.log('✓ dmarc_auth_results table created');
+
+    db.exec(SQL_SCHEMA.dmarc_policy_reasons);
+    SQL_SCHEMA.dmarc_policy_reasons_indexes.forEach(index => db.exec(index));
+    console.log('✓ dmarc_policy_reasons table created');
+
+    db.exec(SQL_SCHEMA.dmarc_failure_reports);
+    SQL_SCHEMA.dmarc_failure_reports_indexes.forEach(index => db.exec(index));
+    console.log('✓ dmarc_failure_reports table created');
+
+    db.exec(SQL_SCHEMA.tls_reports);
+    SQL_SCHEMA.tls_reports_indexes.forEach(index => db.exec(index));
+    db.exec(SQL_SCHEMA.tls_report_policies);
+    SQL_SCHEMA.tls_report_policies_indexes.forEach(index => db.exec(index));
+    db.exec(SQL_SCHEMA.tls_report_failures);
+    SQL_SCHEMA.tls_report_failures_indexes.forEach(index => db.exec(index));
+    console.log('✓ tls_reports tables created');
+
     db.exec(SQL_SCHEMA.ai_analysis);
     SQL_SCHEMA.ai_analysis_indexes.forEach(index => db.exec(index));
     console.log('✓ ai_analysis table created');
@@ -38,6 +117,37 @@ function initializeDatabase() {
     SQL_SCHEMA.processing_log_indexes.forEach(index => db.exec(index));
     console.log('✓ processing_log table created');
 
+    db.exec(SQL_SCHEMA.rejected_reports);
+    SQL_SCHEMA.rejected_reports_indexes.forEach(index => db.exec(index));
+    console.log('✓ rejected_reports table created');
+
+    db.exec(SQL_SCHEMA.imap_sync_state);
+    console.log('✓ imap_sync_state table created');
+
+    db.exec(SQL_SCHEMA.ip_intel);
+    SQL_SCHEMA.ip_intel_indexes.forEach(index => db.exec(index));
+    console.log('✓ ip_intel table created');
+
+    db.exec(SQL_SCHEMA.authorized_senders);
+    SQL_SCHEMA.authorized_senders_indexes.forEach(index => db.exec(index));
+    console.log('✓ authorized_senders table created');
+
+    db.exec(SQL_SCHEMA.dns_checks);
+    SQL_SCHEMA.dns_checks_indexes.forEach(index => db.exec(index));
+    console.log('✓ dns_checks table created');
+
+    db.exec(SQL_SCHEMA.policy_observations);
+    SQL_SCHEMA.policy_observations_indexes.forEach(index => db.exec(index));
+    db.exec(SQL_SCHEMA.policy_events);
+    SQL_SCHEMA.policy_events_indexes.forEach(index => db.exec(index));
+    console.log('✓ policy history tables created');
+
+    // Apply column migrations
+    console.log('Applying migrations...');
+    applyMigrations(db);
+    migrateReportUniqueness(db, 'dmarc_reports');
+    migrateReportUniqueness(db, 'tls_reports');
+
     console.log('\nDatabase initialized successfully!');
     console.log(`Database location: ${process.env.DATABASE_PATH || './data/dmarc.db'}`);
 
@@ -0,0 +1,37 @@
+#!/usr/bin/env tsx
+
+/**
+ * IP Intel Refresh Script
+ * Caches ASN, network owner and reverse DNS of all stored source IPs in ip_intel
+ *
+ * Usage: npm run ip-intel:refresh [-- --all]   (--all also refreshes entries that are still current)
+ */
+
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import { refreshIpIntel } from '../lib/services/ip-intel';
+import { logger } from '../lib/utils/logger';
+import { closeDatabase } from '../lib/db/client';
+
+async function main() {
+  logger.info('=== Starting IP Intel Refresh ===');
+
+  try {
+    const { values } = parseArgs({
+      options: {
+        all: { type: 'boolean' },
+      },
+    });
+
+    const result = await refreshIpIntel(values.all === true);
+    logger.info(`=== IP intel refresh completed: ${result.ips} IPs, ${result.asn} ASN and ${result.ptr} PTR lookups ===`);
+  } catch (error) {
+    logger.error('=== IP intel refresh failed ===', error);
+    process.exit(1);
+  } finally {
+    closeDatabase();
+  }
+}
+
+// Run the script
+main();
@@ -0,0 +1,40 @@
+#!/usr/bin/env tsx
+
+/**
+ * Policy History Sync Script
+ * Adds the published policies of stored reports to the policy history and detects changes and disagreement
+ *
+ * Usage: npm run policy:sync [-- --notify]   (--notify also sends pending policy events by email)
+ */
+
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import { syncPolicyHistory } from '../lib/services/policy-history';
+import { sendPolicyEventNotification } from '../lib/services/notification';
+import { logger } from '../lib/utils/logger';
+import { closeDatabase } from '../lib/db/client';
+
+async function main() {
+  logger.info('=== Starting Policy History Sync ===');
+
+  try {
+    const { values } = parseArgs({
+      options: {
+        notify: { type: 'boolean' },
+      },
+    });
+
+    const result = syncPolicyHistory();
+    const notified = values.notify ? await sendPolicyEventNotification() : 0;
+
+    logger.info(`=== Policy history sync completed: ${result.observations} observation(s), ${result.events} event(s), ${notified} notified ===`);
+  } catch (error) {
+    logger.error('=== Policy history sync failed ===', error);
+    process.exit(1);
+  } finally {
+    closeDatabase();
+  }
+}
+
+// Run the script
+main();
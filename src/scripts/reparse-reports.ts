@@ -0,0 +1,105 @@
+#!/usr/bin/env tsx
+
+/**
+ * Report Reparse Script
+ * Re-parses stored aggregate reports from raw_xml and replaces their records
+ *
+ * Usage: npm run reparse -- [--id 1,2] [--domain example.com] [--from 2024-01-01] [--to 2024-12-31]
+ *                           [--all] [--dry-run] [--reanalyze]
+ */
+
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import { reparseReports, parseTimestamp } from '../lib/services/report-reparser';
+import { logger } from '../lib/utils/logger';
+import { closeDatabase } from '../lib/db/client';
+import type { DmarcReportFilter } from '../lib/db/schema';
+
+function parseFilter(values: Record<string, string | boolean | undefined>): DmarcReportFilter {
+  const filter: DmarcReportFilter = {};
+
+  if (typeof values.id === 'string') {
+    filter.ids = values.id.split(',').map((id) => parseInt(id.trim()));
+    if (filter.ids.some(isNaN)) {
+      throw new Error(`Invalid report id list: ${values.id}`);
+    }
+  }
+
+  if (typeof values.domain === 'string') {
+    filter.domain = values.domain;
+  }
+
+  for (const key of ['from', 'to'] as const) {
+    const value = values[key];
+    if (typeof value === 'string') {
+      const timestamp = parseTimestamp(value);
+      if (timestamp === null) {
+        throw new Error(`Invalid --${key} date: ${value}`);
+      }
+      filter[key] = timestamp;
+    }
+  }
+
+  return filter;
+}
+
+async function main() {
+  logger.info('=== Starting Report Reparse ===');
+
+  try {
+    const { values } = parseArgs({
+      options: {
+        id: { type: 'string' },
+        domain: { type: 'string' },
+        from: { type: 'string' },
+        to: { type: 'string' },
+        all: { type: 'boolean' },
+        'dry-run': { type: 'boolean' },
+        reanalyze: { type: 'boolean' },
+      },
+    });
+
+    const filter = parseFilter(values);
+
+    if (Object.keys(filter).length === 0 && !values.all) {
+      throw new Error('Select reports with --id, --domain, --from/--to or pass --all');
+    }
+
+    const summary = reparseReports(filter, {
+      dryRun: values['dry-run'] === true,
+      reanalyze: values.reanalyze === true,
+    });
+
+    for (const report of summary.reports) {
+      if (report.status === 'unchanged') continue;
+
+      console.log(`\n#${report.id} ${report.org_name} ${report.report_id}: ${report.status} (${report.records_before} → ${report.records_after} records)`);
+
+      if (report.error) {
+        console.log(`  ${report.error}`);
+      }
+
+      for (const change of report.changes) {
+        const location = change.record === null ? 'report' : `record ${change.record}`;
+        console.log(`  ${location} ${change.field}: ${JSON.stringify(change.before)} → ${JSON.stringify(change.after)}`);
+      }
+    }
+
+    logger.info(
+      `=== Reparse completed${summary.dry_run ? ' (dry run)' : ''}: ${summary.updated} updated, ` +
+      `${summary.unchanged} unchanged, ${summary.failed} failed ===`
+    );
+
+    if (summary.failed > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    logger.error('=== Reparse failed ===', error);
+    process.exit(1);
+  } finally {
+    closeDatabase();
+  }
+}
+
+// Run the script
+main();
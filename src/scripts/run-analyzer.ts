@@ -1,8 +1,8 @@
 #!/usr/bin/env tsx
 
 /**
- * Manual Claude Analyzer Script
- * Run this script to manually analyze unprocessed DMARC reports with Claude AI
+ * Manual Analyzer Script
+ * Run this script to manually analyze unprocessed DMARC reports with the configured backend (ANALYZER_BACKEND)
  */
 
 import 'dotenv/config';
@@ -11,7 +11,7 @@ import { logger } from '../lib/utils/logger';
 import { closeDatabase } from '../lib/db/client';
 
 async function main() {
-  logger.info('=== Starting Manual Claude Analysis ===');
+  logger.info('=== Starting Manual Analysis ===');
 
   try {
     const analyzedCount = await analyzeUnprocessedReports();
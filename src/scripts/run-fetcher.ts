@@ -1,23 +1,26 @@
 #!/usr/bin/env tsx
 
 /**
- * Manual Email Fetcher Script
- * Run this script to manually fetch and process DMARC report emails
+ * Manual Report Fetcher Script
+ * Run this script to manually fetch and process reports from all configured sources
  */
 
 import 'dotenv/config';
-import { fetchAndProcessEmails } from '../lib/services/email-fetcher';
+import { fetchFromAllSources } from '../lib/services/report-sources';
 import { logger } from '../lib/utils/logger';
 import { closeDatabase } from '../lib/db/client';
 
 async function main() {
-  logger.info('=== Starting Manual Email Fetch ===');
+  logger.info('=== Starting Manual Report Fetch ===');
 
   try {
-    await fetchAndProcessEmails();
-    logger.info('=== Email fetch completed successfully ===');
+    const failedSources = await fetchFromAllSources();
+    if (failedSources.length > 0) {
+      throw new Error(`Report source(s) failed: ${failedSources.join(', ')}`);
+    }
+    logger.info('=== Report fetch completed successfully ===');
   } catch (error) {
-    logger.error('=== Email fetch failed ===', error);
+    logger.error('=== Report fetch failed ===', error);
     process.exit(1);
   } finally {
     closeDatabase();
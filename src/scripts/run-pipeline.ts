@@ -2,12 +2,14 @@
 
 /**
  * Complete DMARC Pipeline Script
- * Fetches emails, parses DMARC reports, and analyzes them with Claude AI
+ * Fetches reports from all sources, parses DMARC reports, analyzes them, and runs the
+ * policy history sync, due DNS checks and policy notifications like the scheduler
  */
 
 import 'dotenv/config';
-import { fetchAndProcessEmails } from '../lib/services/email-fetcher';
+import { fetchFromAllSources } from '../lib/services/report-sources';
 import { analyzeUnprocessedReports } from '../lib/services/claude-analyzer';
+import { runPolicyChecks } from '../lib/services/scheduler';
 import { logger } from '../lib/utils/logger';
 import { closeDatabase } from '../lib/db/client';
 
@@ -15,14 +17,22 @@ async function main() {
   logger.info('=== Starting Complete DMARC Pipeline ===');
 
   try {
-    // Step 1: Fetch emails
-    logger.info('Step 1: Fetching emails from IMAP...');
-    await fetchAndProcessEmails();
+    // Step 1: Fetch reports from all configured sources
+    logger.info('Step 1: Fetching reports from sources...');
+    const failedSources = await fetchFromAllSources();
 
     // Step 2: Analyze reports
-    logger.info('Step 2: Analyzing reports with Claude AI...');
+    logger.info('Step 2: Analyzing reports...');
     const analyzedCount = await analyzeUnprocessedReports();
 
+    // Step 3: Policy history, DNS checks and policy notifications
+    logger.info('Step 3: Updating policy history and checking DNS...');
+    await runPolicyChecks();
+
+    if (failedSources.length > 0) {
+      throw new Error(`Report source(s) failed: ${failedSources.join(', ')}`);
+    }
+
     logger.info(`=== Pipeline completed. Analyzed ${analyzedCount} reports ===`);
   } catch (error) {
     logger.error('=== Pipeline failed ===', error);